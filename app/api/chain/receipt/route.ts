@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { TransactionReceiptInfo } from '@/types/lifi'
+import {
+  validateChainId,
+  checkRateLimit,
+  getClientId,
+  validationErrorResponse,
+  rateLimitedResponse,
+  chainRpcErrorResponse
+} from '@/lib/lifi-proxy'
+import { classifyTxHash } from '@/lib/hash-classifier'
+import { fetchTransactionReceipt } from '@/lib/tx-receipt'
+
+// Short enough that the confirmation count stays roughly current
+const CACHE_TTL = 15000 // 15 seconds
+const MAX_CACHE_SIZE = 1000
+
+const receiptCache = new Map<string, { receipt: TransactionReceiptInfo; expiresAt: number }>()
+
+export async function GET(request: NextRequest) {
+  const startTime = Date.now()
+  const searchParams = request.nextUrl.searchParams
+  const chainId = searchParams.get('chainId')
+  const txHash = searchParams.get('txHash')
+
+  // Validate required parameters
+  if (!chainId || !txHash) {
+    return validationErrorResponse('chainId and txHash parameters are required')
+  }
+
+  if (!validateChainId(chainId)) {
+    return validationErrorResponse('Invalid chainId parameter')
+  }
+
+  const classification = classifyTxHash(txHash)
+  if (classification?.kind !== 'evm') {
+    return validationErrorResponse('Receipts are only available for EVM transaction hashes')
+  }
+
+  const cacheKey = `${chainId}:${classification.normalized}`
+  const cached = receiptCache.get(cacheKey)
+  if (cached && cached.expiresAt > Date.now()) {
+    return NextResponse.json(cached.receipt)
+  }
+
+  // Check rate limiting
+  const clientId = getClientId(request)
+  if (!checkRateLimit(clientId)) {
+    return rateLimitedResponse()
+  }
+
+  try {
+    const receipt = await fetchTransactionReceipt(parseInt(chainId, 10), classification.normalized)
+    const duration = Date.now() - startTime
+
+    if (receiptCache.size >= MAX_CACHE_SIZE) {
+      const oldestKey = receiptCache.keys().next().value
+      if (oldestKey) receiptCache.delete(oldestKey)
+    }
+    receiptCache.set(cacheKey, { receipt, expiresAt: Date.now() + CACHE_TTL })
+
+    // Log successful requests for monitoring
+    console.log(`Receipt request completed in ${duration}ms for ${chainId}:${classification.normalized}`)
+
+    return NextResponse.json(receipt)
+
+  } catch (error: any) {
+    return chainRpcErrorResponse(error, 'receipt', startTime, { chainId, txHash })
+  }
+}
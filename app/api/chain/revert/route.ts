@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { RevertAnalysis } from '@/types/lifi'
+import {
+  validateChainId,
+  checkRateLimit,
+  getClientId,
+  validationErrorResponse,
+  rateLimitedResponse,
+  chainRpcErrorResponse
+} from '@/lib/lifi-proxy'
+import { classifyTxHash } from '@/lib/hash-classifier'
+import { analyzeRevert } from '@/lib/tx-receipt'
+
+// A mined transaction's outcome never changes, so replays are kept for longer
+const CACHE_TTL = 60 * 60 * 1000 // 1 hour
+const MAX_CACHE_SIZE = 1000
+
+const revertCache = new Map<string, { analysis: RevertAnalysis; expiresAt: number }>()
+
+export async function GET(request: NextRequest) {
+  const startTime = Date.now()
+  const searchParams = request.nextUrl.searchParams
+  const chainId = searchParams.get('chainId')
+  const txHash = searchParams.get('txHash')
+
+  // Validate required parameters
+  if (!chainId || !txHash) {
+    return validationErrorResponse('chainId and txHash parameters are required')
+  }
+
+  if (!validateChainId(chainId)) {
+    return validationErrorResponse('Invalid chainId parameter')
+  }
+
+  const classification = classifyTxHash(txHash)
+  if (classification?.kind !== 'evm') {
+    return validationErrorResponse('Revert replays are only available for EVM transaction hashes')
+  }
+
+  const cacheKey = `${chainId}:${classification.normalized}`
+  const cached = revertCache.get(cacheKey)
+  if (cached && cached.expiresAt > Date.now()) {
+    return NextResponse.json(cached.analysis)
+  }
+
+  // Check rate limiting
+  const clientId = getClientId(request)
+  if (!checkRateLimit(clientId)) {
+    return rateLimitedResponse()
+  }
+
+  try {
+    const analysis = await analyzeRevert(parseInt(chainId, 10), classification.normalized)
+    const duration = Date.now() - startTime
+
+    if (revertCache.size >= MAX_CACHE_SIZE) {
+      const oldestKey = revertCache.keys().next().value
+      if (oldestKey) revertCache.delete(oldestKey)
+    }
+    revertCache.set(cacheKey, { analysis, expiresAt: Date.now() + CACHE_TTL })
+
+    // Log successful requests for monitoring
+    console.log(
+      `Revert replay completed in ${duration}ms for ${chainId}:${classification.normalized}: ` +
+      (analysis.decoded ? analysis.decoded.reason : analysis.reverted ? 'no revert data' : 'not reverted')
+    )
+
+    return NextResponse.json(analysis)
+
+  } catch (error: any) {
+    return chainRpcErrorResponse(error, 'revert', startTime, { chainId, txHash })
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { NetworkHealthResponse } from '@/types/lifi'
+import { checkRateLimit, getClientId, rateLimitedResponse } from '@/lib/lifi-proxy'
+import { probeNetworkHealth } from '@/lib/network-health'
+
+export const dynamic = 'force-dynamic'
+
+// Every open page polls this route, so probes are shared between clients
+const CACHE_TTL = 15000 // 15 seconds
+
+let cached: NetworkHealthResponse | null = null
+let pendingProbe: Promise<NetworkHealthResponse> | null = null
+
+export async function GET(request: NextRequest) {
+  const startTime = Date.now()
+
+  if (cached && Date.now() - cached.checkedAt < CACHE_TTL) {
+    return NextResponse.json(cached)
+  }
+
+  // Check rate limiting
+  const clientId = getClientId(request)
+  if (!checkRateLimit(clientId)) {
+    return rateLimitedResponse()
+  }
+
+  if (!pendingProbe) {
+    pendingProbe = probeNetworkHealth().finally(() => {
+      pendingProbe = null
+    })
+  }
+
+  cached = await pendingProbe
+  const duration = Date.now() - startTime
+
+  // Log probe results for monitoring
+  console.log(
+    `Network health probe completed in ${duration}ms: ` +
+    `${cached.chains.filter(chain => chain.status === 'healthy').length}/${cached.chains.length} chains healthy, ` +
+    `LI.FI API ${cached.lifi.status}`
+  )
+
+  return NextResponse.json(cached)
+}
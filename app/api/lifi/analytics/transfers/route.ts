@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { TransferStatusFilter, TransfersResponse } from '@/types/lifi'
+import {
+  getApiClient,
+  LIFI_V2_BASE_URL,
+  validateWalletAddress,
+  checkRateLimit,
+  getClientId,
+  validationErrorResponse,
+  rateLimitedResponse,
+  upstreamErrorResponse
+} from '@/lib/lifi-proxy'
+
+const validStatuses: TransferStatusFilter[] = ['ALL', 'DONE', 'PENDING', 'FAILED']
+
+const DEFAULT_LIMIT = 25
+const MAX_LIMIT = 100
+
+function validateTimestamp(value: string): boolean {
+  const parsed = parseInt(value, 10)
+  return !isNaN(parsed) && parsed >= 0
+}
+
+export async function GET(request: NextRequest) {
+  const startTime = Date.now()
+  const searchParams = request.nextUrl.searchParams
+  const wallet = searchParams.get('wallet')
+
+  try {
+    const status = searchParams.get('status')
+    const limit = searchParams.get('limit')
+    const fromTimestamp = searchParams.get('fromTimestamp')
+    const toTimestamp = searchParams.get('toTimestamp')
+    const next = searchParams.get('next')
+    const previous = searchParams.get('previous')
+
+    // Validate required parameters
+    if (!wallet) {
+      return validationErrorResponse('Wallet address is required')
+    }
+
+    if (!validateWalletAddress(wallet)) {
+      return validationErrorResponse('Invalid wallet address format')
+    }
+
+    // Validate optional parameters
+    if (status && !validStatuses.includes(status as TransferStatusFilter)) {
+      return validationErrorResponse(
+        `Invalid status parameter. Must be one of: ${validStatuses.join(', ')}`
+      )
+    }
+
+    const parsedLimit = limit ? parseInt(limit, 10) : DEFAULT_LIMIT
+    if (isNaN(parsedLimit) || parsedLimit < 1 || parsedLimit > MAX_LIMIT) {
+      return validationErrorResponse(`Invalid limit parameter. Must be between 1 and ${MAX_LIMIT}`)
+    }
+
+    if (fromTimestamp && !validateTimestamp(fromTimestamp)) {
+      return validationErrorResponse('Invalid fromTimestamp parameter')
+    }
+
+    if (toTimestamp && !validateTimestamp(toTimestamp)) {
+      return validationErrorResponse('Invalid toTimestamp parameter')
+    }
+
+    if (next && previous) {
+      return validationErrorResponse('Only one of next or previous may be provided')
+    }
+
+    // Check rate limiting
+    const clientId = getClientId(request)
+    if (!checkRateLimit(clientId)) {
+      return rateLimitedResponse()
+    }
+
+    // Build request parameters
+    const params: Record<string, string | number> = { wallet, limit: parsedLimit }
+    if (status && status !== 'ALL') params.status = status
+    if (fromTimestamp) params.fromTimestamp = fromTimestamp
+    if (toTimestamp) params.toTimestamp = toTimestamp
+    if (next) params.next = next
+    if (previous) params.previous = previous
+
+    // Make API request
+    const response = await getApiClient().get(`${LIFI_V2_BASE_URL}/analytics/transfers`, { params })
+    const duration = Date.now() - startTime
+    const data = response.data ?? {}
+
+    const result: TransfersResponse = {
+      transfers: data.data ?? data.transfers ?? [],
+      hasNext: !!data.hasNext,
+      hasPrevious: !!data.hasPrevious,
+      ...(data.next && { next: data.next }),
+      ...(data.previous && { previous: data.previous })
+    }
+
+    // Log successful requests for monitoring
+    console.log(
+      `LI.FI transfers request completed in ${duration}ms for wallet: ${wallet} (${result.transfers.length} transfers)`
+    )
+
+    return NextResponse.json(result)
+
+  } catch (error: any) {
+    return upstreamErrorResponse(error, 'transfers', startTime, { wallet })
+  }
+}
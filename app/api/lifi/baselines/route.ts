@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  validateChainId,
+  checkRateLimit,
+  getClientId,
+  validationErrorResponse,
+  rateLimitedResponse
+} from '@/lib/lifi-proxy'
+import { durationBaselines } from '@/lib/duration-baselines'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams
+  const tool = searchParams.get('tool') || undefined
+  const fromChain = searchParams.get('fromChain')
+  const toChain = searchParams.get('toChain')
+
+  // Validate parameters
+  if (fromChain && !validateChainId(fromChain)) {
+    return validationErrorResponse('Invalid fromChain parameter')
+  }
+
+  if (toChain && !validateChainId(toChain)) {
+    return validationErrorResponse('Invalid toChain parameter')
+  }
+
+  // Check rate limiting
+  const clientId = getClientId(request)
+  if (!checkRateLimit(clientId)) {
+    return rateLimitedResponse()
+  }
+
+  const baseline = durationBaselines.get(
+    tool,
+    fromChain ? parseInt(fromChain, 10) : undefined,
+    toChain ? parseInt(toChain, 10) : undefined
+  )
+
+  return NextResponse.json(baseline)
+}
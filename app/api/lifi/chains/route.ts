@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ChainInfo, ChainType, TokenInfo } from '@/types/lifi'
+import {
+  getApiClient,
+  checkRateLimit,
+  getClientId,
+  rateLimitedResponse,
+  upstreamErrorResponse
+} from '@/lib/lifi-proxy'
+
+const CHAIN_TYPES: ChainType[] = ['EVM', 'SVM', 'UTXO', 'MVM']
+
+// The chain list changes rarely, so one upstream fetch serves every client for an hour
+const CACHE_TTL = 60 * 60 * 1000
+
+let cachedChains: { chains: ChainInfo[]; expiresAt: number } | null = null
+let pendingFetch: Promise<ChainInfo[]> | null = null
+
+// The parts of a LI.FI /chains entry the registry reads
+interface UpstreamChain {
+  id: number
+  key: string
+  name: string
+  chainType: ChainType
+  coin: string
+  logoURI?: string
+  nativeToken?: TokenInfo
+  metamask?: {
+    blockExplorerUrls?: string[]
+  }
+}
+
+/**
+ * Build a {txHash} explorer template from the first explorer base URL LI.FI lists.
+ * Only EVM explorers share the /tx/ path; other chains keep the registry's own links
+ * (e.g. Sui's /txblock/).
+ */
+function toExplorerTxUrlTemplate(chain: UpstreamChain): string | undefined {
+  if (chain.chainType !== 'EVM') return undefined
+
+  const baseUrl = chain.metamask?.blockExplorerUrls?.[0]
+  if (typeof baseUrl !== 'string' || !baseUrl) return undefined
+
+  return `${baseUrl.replace(/\/+$/, '')}/tx/{txHash}`
+}
+
+/**
+ * Reduce an upstream chain to the fields the registry uses
+ */
+function toChainInfo(chain: UpstreamChain | null): ChainInfo | null {
+  if (!chain || typeof chain.id !== 'number' || typeof chain.name !== 'string') {
+    return null
+  }
+
+  const explorerTxUrlTemplate = toExplorerTxUrlTemplate(chain)
+
+  return {
+    id: chain.id,
+    key: chain.key,
+    name: chain.name,
+    chainType: chain.chainType,
+    coin: chain.coin,
+    ...(chain.logoURI && { logoURI: chain.logoURI }),
+    ...(chain.nativeToken && { nativeToken: chain.nativeToken }),
+    ...(explorerTxUrlTemplate && { explorerTxUrlTemplate })
+  }
+}
+
+async function fetchChains(): Promise<ChainInfo[]> {
+  const response = await getApiClient().get('/chains', {
+    params: { chainTypes: CHAIN_TYPES.join(',') }
+  })
+
+  const chains: UpstreamChain[] = Array.isArray(response.data?.chains) ? response.data.chains : []
+  return chains
+    .map(toChainInfo)
+    .filter((chain): chain is ChainInfo => chain !== null)
+}
+
+export async function GET(request: NextRequest) {
+  const startTime = Date.now()
+
+  try {
+    if (cachedChains && cachedChains.expiresAt > Date.now()) {
+      return NextResponse.json({ chains: cachedChains.chains })
+    }
+
+    // Check rate limiting
+    const clientId = getClientId(request)
+    if (!checkRateLimit(clientId)) {
+      return rateLimitedResponse()
+    }
+
+    // Concurrent cache misses share one upstream request
+    if (!pendingFetch) {
+      pendingFetch = fetchChains().finally(() => {
+        pendingFetch = null
+      })
+    }
+
+    const chains = await pendingFetch
+    cachedChains = { chains, expiresAt: Date.now() + CACHE_TTL }
+
+    const duration = Date.now() - startTime
+
+    // Log successful requests for monitoring
+    console.log(`LI.FI chains request completed in ${duration}ms (${chains.length} chains)`)
+
+    return NextResponse.json({ chains })
+
+  } catch (error: any) {
+    // Serve the stale list rather than failing while upstream is down
+    if (cachedChains) {
+      return NextResponse.json({ chains: cachedChains.chains })
+    }
+
+    return upstreamErrorResponse(error, 'chains', startTime)
+  }
+}
@@ -0,0 +1,187 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { QuoteRequest, Quote, RouteStep, GasCost } from '@/types/lifi'
+import {
+  getApiClient,
+  validateChainId,
+  validateAmount,
+  isNonEmptyString,
+  isStringArray,
+  checkRateLimit,
+  getClientId,
+  validationErrorResponse,
+  rateLimitedResponse,
+  upstreamErrorResponse
+} from '@/lib/lifi-proxy'
+
+const LIST_PARAMS = [
+  'allowBridges', 'denyBridges', 'preferBridges',
+  'allowExchanges', 'denyExchanges', 'preferExchanges',
+  'swapStepTimingStrategies'
+] as const
+
+/**
+ * Validate the quote request body, returning an error message or null if valid
+ */
+function validateQuoteRequest(body: any): string | null {
+  if (!body || typeof body !== 'object') {
+    return 'Request body must be a JSON object'
+  }
+
+  if (!validateChainId(body.fromChain)) {
+    return 'Invalid fromChain parameter'
+  }
+
+  if (!validateChainId(body.toChain)) {
+    return 'Invalid toChain parameter'
+  }
+
+  if (!isNonEmptyString(body.fromToken)) {
+    return 'fromToken is required'
+  }
+
+  if (!isNonEmptyString(body.toToken)) {
+    return 'toToken is required'
+  }
+
+  if (!validateAmount(body.fromAmount)) {
+    return 'fromAmount must be a positive integer string in the token\'s smallest unit'
+  }
+
+  if (!isNonEmptyString(body.fromAddress)) {
+    return 'fromAddress is required'
+  }
+
+  if (body.toAddress !== undefined && !isNonEmptyString(body.toAddress)) {
+    return 'Invalid toAddress parameter'
+  }
+
+  if (body.slippage !== undefined &&
+      (typeof body.slippage !== 'number' || body.slippage < 0 || body.slippage > 1)) {
+    return 'slippage must be a decimal between 0 and 1'
+  }
+
+  if (body.maxPriceImpact !== undefined &&
+      (typeof body.maxPriceImpact !== 'number' || body.maxPriceImpact < 0 || body.maxPriceImpact > 1)) {
+    return 'maxPriceImpact must be a decimal between 0 and 1'
+  }
+
+  if (body.order !== undefined && body.order !== 'CHEAPEST' && body.order !== 'FASTEST') {
+    return 'order must be CHEAPEST or FASTEST'
+  }
+
+  for (const param of LIST_PARAMS) {
+    if (body[param] !== undefined && !isStringArray(body[param])) {
+      return `${param} must be an array of strings`
+    }
+  }
+
+  return null
+}
+
+/**
+ * Map the client-facing QuoteRequest onto upstream /quote query parameters
+ */
+function toUpstreamParams(body: QuoteRequest): Record<string, string | number | string[]> {
+  const params: Record<string, string | number | string[]> = {
+    fromChain: body.fromChain,
+    toChain: body.toChain,
+    fromToken: body.fromToken,
+    toToken: body.toToken,
+    fromAmount: body.fromAmount,
+    fromAddress: body.fromAddress
+  }
+
+  if (body.toAddress) params.toAddress = body.toAddress
+  if (body.fromAmountForGas) params.fromAmountForGas = body.fromAmountForGas
+  if (body.integrator) params.integrator = body.integrator
+  if (body.fee !== undefined) params.fee = body.fee
+  if (body.maxPriceImpact !== undefined) params.maxPriceImpact = body.maxPriceImpact
+  if (body.order) params.order = body.order
+  if (body.slippage !== undefined) params.slippage = body.slippage
+  if (body.referrer) params.referrer = body.referrer
+
+  for (const param of LIST_PARAMS) {
+    const value = body[param]
+    if (value && value.length > 0) params[param] = value
+  }
+
+  return params
+}
+
+// Upstream /quote returns a single step rather than a route
+interface UpstreamQuoteStep extends RouteStep {
+  estimate: RouteStep['estimate'] & {
+    fromAmountUSD?: string
+    toAmountUSD?: string
+  }
+  transactionRequest?: Quote['transactionRequest']
+}
+
+/**
+ * Flatten the upstream step into the Route-shaped Quote the client works with
+ */
+function toQuote(step: UpstreamQuoteStep): Quote {
+  const gasCostUSD = (step.estimate.gasCosts || []).reduce(
+    (total: number, gas: GasCost) => total + parseFloat(gas.amountUSD || '0'),
+    0
+  )
+
+  return {
+    id: step.id,
+    fromChainId: step.action.fromChainId,
+    fromAmountUSD: step.estimate.fromAmountUSD || '0',
+    fromAmount: step.action.fromAmount,
+    fromToken: step.action.fromToken,
+    fromAddress: step.action.fromAddress,
+    toChainId: step.action.toChainId,
+    toAmountUSD: step.estimate.toAmountUSD || '0',
+    toAmount: step.estimate.toAmount,
+    toAmountMin: step.estimate.toAmountMin,
+    toToken: step.action.toToken,
+    toAddress: step.action.toAddress,
+    gasCostUSD: gasCostUSD.toFixed(2),
+    steps: [step],
+    transactionRequest: step.transactionRequest
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const startTime = Date.now()
+  let body: any
+
+  try {
+    try {
+      body = await request.json()
+    } catch {
+      return validationErrorResponse('Request body must be valid JSON')
+    }
+
+    const validationError = validateQuoteRequest(body)
+    if (validationError) {
+      return validationErrorResponse(validationError)
+    }
+
+    // Check rate limiting
+    const clientId = getClientId(request)
+    if (!checkRateLimit(clientId)) {
+      return rateLimitedResponse()
+    }
+
+    // Make API request
+    const response = await getApiClient().get('/quote', { params: toUpstreamParams(body) })
+    const duration = Date.now() - startTime
+
+    // Log successful requests for monitoring
+    console.log(
+      `LI.FI quote request completed in ${duration}ms for ${body.fromChain} -> ${body.toChain} via ${response.data?.tool}`
+    )
+
+    return NextResponse.json(toQuote(response.data))
+
+  } catch (error: any) {
+    return upstreamErrorResponse(error, 'quote', startTime, {
+      fromChain: body?.fromChain,
+      toChain: body?.toChain
+    })
+  }
+}
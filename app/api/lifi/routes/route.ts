@@ -0,0 +1,158 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { RoutesRequest, RouteOptions, AllowDenyPrefer } from '@/types/lifi'
+import {
+  getApiClient,
+  validateChainId,
+  validateAmount,
+  isNonEmptyString,
+  isStringArray,
+  checkRateLimit,
+  getClientId,
+  validationErrorResponse,
+  rateLimitedResponse,
+  upstreamErrorResponse
+} from '@/lib/lifi-proxy'
+
+function validateAllowDenyPrefer(value: AllowDenyPrefer | undefined): boolean {
+  if (value === undefined) return true
+  if (!value || typeof value !== 'object') return false
+
+  return (['allow', 'deny', 'prefer'] as const).every(key =>
+    value[key] === undefined || isStringArray(value[key])
+  )
+}
+
+/**
+ * Validate the routes request body, returning an error message or null if valid
+ */
+function validateRoutesRequest(body: any): string | null {
+  if (!body || typeof body !== 'object') {
+    return 'Request body must be a JSON object'
+  }
+
+  if (!validateChainId(body.fromChainId)) {
+    return 'Invalid fromChainId parameter'
+  }
+
+  if (!validateChainId(body.toChainId)) {
+    return 'Invalid toChainId parameter'
+  }
+
+  if (!isNonEmptyString(body.fromTokenAddress)) {
+    return 'fromTokenAddress is required'
+  }
+
+  if (!isNonEmptyString(body.toTokenAddress)) {
+    return 'toTokenAddress is required'
+  }
+
+  if (!validateAmount(body.fromAmount)) {
+    return 'fromAmount must be a positive integer string in the token\'s smallest unit'
+  }
+
+  if (body.fromAmountForGas !== undefined && !/^\d+$/.test(String(body.fromAmountForGas))) {
+    return 'Invalid fromAmountForGas parameter'
+  }
+
+  for (const field of ['fromAddress', 'toAddress'] as const) {
+    if (body[field] !== undefined && !isNonEmptyString(body[field])) {
+      return `Invalid ${field} parameter`
+    }
+  }
+
+  const options: RouteOptions | undefined = body.options
+  if (options !== undefined) {
+    if (!options || typeof options !== 'object') {
+      return 'options must be an object'
+    }
+
+    if (options.slippage !== undefined &&
+        (typeof options.slippage !== 'number' || options.slippage < 0 || options.slippage > 1)) {
+      return 'options.slippage must be a decimal between 0 and 1'
+    }
+
+    if (options.maxPriceImpact !== undefined &&
+        (typeof options.maxPriceImpact !== 'number' || options.maxPriceImpact < 0 || options.maxPriceImpact > 1)) {
+      return 'options.maxPriceImpact must be a decimal between 0 and 1'
+    }
+
+    if (options.order !== undefined && options.order !== 'CHEAPEST' && options.order !== 'FASTEST') {
+      return 'options.order must be CHEAPEST or FASTEST'
+    }
+
+    if (!validateAllowDenyPrefer(options.bridges)) {
+      return 'options.bridges must contain allow/deny/prefer string arrays'
+    }
+
+    if (!validateAllowDenyPrefer(options.exchanges)) {
+      return 'options.exchanges must contain allow/deny/prefer string arrays'
+    }
+  }
+
+  return null
+}
+
+/**
+ * Map the client-facing RoutesRequest onto the upstream /advanced/routes body
+ */
+function toUpstreamBody(body: RoutesRequest): RoutesRequest {
+  const upstream: RoutesRequest = {
+    fromChainId: Number(body.fromChainId),
+    toChainId: Number(body.toChainId),
+    fromTokenAddress: body.fromTokenAddress,
+    toTokenAddress: body.toTokenAddress,
+    fromAmount: body.fromAmount
+  }
+
+  if (body.fromAddress) upstream.fromAddress = body.fromAddress
+  if (body.toAddress) upstream.toAddress = body.toAddress
+  if (body.fromAmountForGas) upstream.fromAmountForGas = body.fromAmountForGas
+  if (body.options) upstream.options = body.options
+
+  return upstream
+}
+
+export async function POST(request: NextRequest) {
+  const startTime = Date.now()
+  let body: any
+
+  try {
+    try {
+      body = await request.json()
+    } catch {
+      return validationErrorResponse('Request body must be valid JSON')
+    }
+
+    const validationError = validateRoutesRequest(body)
+    if (validationError) {
+      return validationErrorResponse(validationError)
+    }
+
+    // Check rate limiting
+    const clientId = getClientId(request)
+    if (!checkRateLimit(clientId)) {
+      return rateLimitedResponse()
+    }
+
+    // Make API request
+    const response = await getApiClient().post('/advanced/routes', toUpstreamBody(body))
+    const duration = Date.now() - startTime
+
+    // Log successful requests for monitoring
+    console.log(
+      `LI.FI routes request completed in ${duration}ms for ${body.fromChainId} -> ${body.toChainId} ` +
+      `(${response.data?.routes?.length ?? 0} routes)`
+    )
+
+    return NextResponse.json({
+      routes: response.data?.routes ?? [],
+      unavailableRoutes: response.data?.unavailableRoutes
+    })
+
+  } catch (error: any) {
+    return upstreamErrorResponse(error, 'routes', startTime, {
+      fromChainId: body?.fromChainId,
+      toChainId: body?.toChainId
+    })
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest } from 'next/server'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { StatusRequest, StatusResponse, TransactionStatus } from '@/types/lifi'
+import { fetchUpstreamStatus } from '@/lib/lifi-proxy'
+import { cacheStatus } from '@/lib/status-cache'
+import { POST } from './route'
+
+vi.mock('@/lib/lifi-proxy', async importOriginal => ({
+  ...await importOriginal<typeof import('@/lib/lifi-proxy')>(),
+  fetchUpstreamStatus: vi.fn()
+}))
+
+const TX_HASH = '0x9f3a7c2e1b5d8f4a6c0e2b4d6f8a0c2e4b6d8f0a2c4e6b8d0f2a4c6e8b0d2f4a'
+
+function pendingStatus(request: StatusRequest): StatusResponse {
+  return { status: TransactionStatus.PENDING, sending: { txHash: request.txHash, chainId: 1 } }
+}
+
+// Distinct EVM hashes; the prefix keeps each test clear of the others' cache entries
+function txHashes(prefix: number, count: number): string[] {
+  return Array.from({ length: count }, (_, index) =>
+    `0x${prefix.toString(16).padStart(8, '0')}${index.toString(16).padStart(56, '0')}`
+  )
+}
+
+function batchRequest(body: unknown, clientIp = '203.0.113.7') {
+  return new NextRequest('http://localhost/api/lifi/status/batch', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'x-forwarded-for': clientIp },
+    body: JSON.stringify(body)
+  })
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+  vi.mocked(fetchUpstreamStatus).mockReset()
+  vi.mocked(fetchUpstreamStatus).mockImplementation(async request => pendingStatus(request))
+})
+
+describe('POST /api/lifi/status/batch', () => {
+  it.each([
+    [{ items: [{ txHash: 123 }] }],
+    [{ items: [{ txHash: { hash: TX_HASH } }] }],
+    [{ items: [{ fromChain: '1' }] }],
+    [{ items: [{ txHash: TX_HASH, fromChain: 1 }] }],
+    [{ items: [{ txHash: TX_HASH, bridge: ['hop'] }] }],
+    [{ txHashes: [TX_HASH], toChain: 10 }]
+  ])('rejects mistyped fields in %j', async body => {
+    const response = await POST(batchRequest(body))
+
+    expect(response.status).toBe(400)
+    expect((await response.json()).error.code).toBe('VALIDATION_ERROR')
+  })
+
+  it('charges the rate limit per chunk of uncached hashes', async () => {
+    const clientIp = '203.0.113.10'
+
+    // 500 uncached hashes cost 50 of the 100 requests per minute
+    for (const prefix of [1, 2]) {
+      const response = await POST(batchRequest({ txHashes: txHashes(prefix, 500) }, clientIp))
+      expect(response.status).toBe(200)
+    }
+    expect(fetchUpstreamStatus).toHaveBeenCalledTimes(1000)
+
+    const limited = await POST(batchRequest({ txHashes: txHashes(3, 1) }, clientIp))
+    expect(limited.status).toBe(429)
+    expect(fetchUpstreamStatus).toHaveBeenCalledTimes(1000)
+  })
+
+  it('charges a single request for a batch served from cache', async () => {
+    const clientIp = '203.0.113.11'
+    const hashes = txHashes(4, 500)
+    await Promise.all(hashes.map(txHash => cacheStatus({ txHash }, pendingStatus({ txHash }))))
+
+    for (let i = 0; i < 100; i++) {
+      const response = await POST(batchRequest({ txHashes: hashes }, clientIp))
+      expect(response.status).toBe(200)
+    }
+    expect(fetchUpstreamStatus).not.toHaveBeenCalled()
+
+    expect((await POST(batchRequest({ txHashes: hashes }, clientIp))).status).toBe(429)
+  })
+
+  it('looks up duplicate hashes once', async () => {
+    const [txHash] = txHashes(5, 1)
+    const response = await POST(batchRequest({ txHashes: [txHash, txHash], items: [{ txHash }] }, '203.0.113.12'))
+    const body = await response.json()
+
+    expect(body.totalSuccessful).toBe(3)
+    expect(fetchUpstreamStatus).toHaveBeenCalledTimes(1)
+  })
+})
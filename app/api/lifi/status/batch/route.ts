@@ -0,0 +1,196 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  StatusRequest,
+  StatusResponse,
+  BatchStatusRequest,
+  BatchStatusResponse,
+  ApiError,
+  MAX_BATCH_STATUS_SIZE
+} from '@/types/lifi'
+import {
+  validateStatusParams,
+  isStringArray,
+  checkRateLimit,
+  getClientId,
+  mapWithConcurrency,
+  toApiError,
+  validationErrorResponse,
+  rateLimitedResponse,
+  upstreamErrorResponse
+} from '@/lib/lifi-proxy'
+import { fetchStatusWithCache, getCachedStatus } from '@/lib/status-cache'
+
+// Upstream requests in flight at once for a single batch
+const BATCH_CONCURRENCY = 8
+// Uncached lookups covered by one request against the per-client rate limit.
+// Intended: support triage batches reach up to 10x RATE_LIMIT_MAX LI.FI lookups
+// per client per minute, where single status requests reach RATE_LIMIT_MAX.
+const RATE_LIMIT_CHUNK_SIZE = 10
+
+/**
+ * Merge the plain hash list and per-hash items into one list of status requests,
+ * applying the batch-level defaults where an item does not override them
+ */
+function collectRequests(body: BatchStatusRequest): StatusRequest[] {
+  const defaults = {
+    fromChain: body.fromChain,
+    toChain: body.toChain,
+    bridge: body.bridge
+  }
+
+  const fromHashes = (body.txHashes || []).map(txHash => ({ ...defaults, txHash: txHash.trim() }))
+  const fromItems = (body.items || []).map(item => ({
+    txHash: item.txHash.trim(),
+    fromChain: item.fromChain ?? defaults.fromChain,
+    toChain: item.toChain ?? defaults.toChain,
+    bridge: item.bridge ?? defaults.bridge
+  }))
+
+  return [...fromHashes, ...fromItems]
+}
+
+function getLookupKey(request: StatusRequest): string {
+  return JSON.stringify([request.txHash, request.fromChain, request.toChain, request.bridge])
+}
+
+// fromChain/toChain/bridge may be omitted, but must be strings when given
+function hasValidOverrides(value: any): boolean {
+  return ['fromChain', 'toChain', 'bridge'].every(field => value[field] == null || typeof value[field] === 'string')
+}
+
+/**
+ * Validate the batch body shape, returning an error message or null if valid
+ */
+function validateBatchBody(body: any): string | null {
+  if (!body || typeof body !== 'object') {
+    return 'Request body must be a JSON object'
+  }
+
+  if (body.txHashes !== undefined && !isStringArray(body.txHashes)) {
+    return 'txHashes must be an array of strings'
+  }
+
+  if (!hasValidOverrides(body)) {
+    return 'fromChain, toChain and bridge must be strings'
+  }
+
+  if (body.items !== undefined &&
+      (!Array.isArray(body.items) || body.items.some((item: any) =>
+        !item || typeof item !== 'object' || typeof item.txHash !== 'string' || !hasValidOverrides(item)))) {
+    return 'items must be an array of { txHash, fromChain?, toChain?, bridge? } objects with string values'
+  }
+
+  const total = (body.txHashes?.length ?? 0) + (body.items?.length ?? 0)
+  if (total === 0) {
+    return 'At least one transaction hash is required'
+  }
+
+  if (total > MAX_BATCH_STATUS_SIZE) {
+    return `A batch may contain at most ${MAX_BATCH_STATUS_SIZE} transaction hashes`
+  }
+
+  return null
+}
+
+export async function POST(request: NextRequest) {
+  const startTime = Date.now()
+  let body: any
+
+  try {
+    try {
+      body = await request.json()
+    } catch {
+      return validationErrorResponse('Request body must be valid JSON')
+    }
+
+    const validationError = validateBatchBody(body)
+    if (validationError) {
+      return validationErrorResponse(validationError)
+    }
+
+    const requests = collectRequests(body)
+    const itemErrors = requests.map(item => validateStatusParams(item))
+
+    // Identical lookups within one batch share a single cache or upstream call
+    const lookups = new Map<string, StatusRequest>()
+    requests.forEach((item, index) => {
+      if (!itemErrors[index]) lookups.set(getLookupKey(item), item)
+    })
+
+    const cached = new Map<string, StatusResponse>()
+    await mapWithConcurrency(Array.from(lookups), BATCH_CONCURRENCY, async ([key, item]) => {
+      const status = await getCachedStatus(item)
+      if (status) cached.set(key, status)
+    })
+
+    // Every chunk of lookups that has to reach LI.FI counts as one request
+    // against the per-client limit, and the batch itself as at least one
+    const cost = Math.max(1, Math.ceil((lookups.size - cached.size) / RATE_LIMIT_CHUNK_SIZE))
+    const clientId = getClientId(request)
+    if (!checkRateLimit(clientId, cost)) {
+      return rateLimitedResponse()
+    }
+
+    const inFlight = new Map<string, Promise<StatusResponse>>()
+    let cacheHits = cached.size
+
+    const results = await mapWithConcurrency(requests, BATCH_CONCURRENCY, async (item, index) => {
+      const itemError = itemErrors[index]
+      if (itemError) {
+        const error: ApiError = {
+          code: 'VALIDATION_ERROR',
+          message: itemError,
+          status: 400,
+          isRetryable: false,
+          isNetworkError: false
+        }
+        return { txHash: item.txHash || '', data: null, error }
+      }
+
+      const key = getLookupKey(item)
+      const hit = cached.get(key)
+      if (hit) {
+        return { txHash: item.txHash, data: hit, error: null }
+      }
+
+      let pending = inFlight.get(key)
+      if (!pending) {
+        pending = fetchStatusWithCache(item).then(({ data, cache }) => {
+          if (cache === 'HIT') cacheHits++
+          return data
+        })
+        inFlight.set(key, pending)
+      }
+
+      try {
+        const data = await pending
+        return { txHash: item.txHash, data, error: null }
+      } catch (error: any) {
+        return { txHash: item.txHash, data: null, error: toApiError(error, item.txHash) }
+      }
+    })
+
+    const response: BatchStatusResponse = {
+      results,
+      totalProcessed: results.length,
+      totalSuccessful: results.filter(r => r.data !== null).length,
+      totalErrors: results.filter(r => r.error !== null).length
+    }
+
+    const duration = Date.now() - startTime
+
+    // Log successful requests for monitoring
+    console.log(
+      `LI.FI batch status request completed in ${duration}ms: ` +
+      `${response.totalSuccessful}/${response.totalProcessed} successful ` +
+      `(${lookups.size - cacheHits} upstream calls, ${cacheHits} cache hits, rate limit cost ${cost})`
+    )
+
+    return NextResponse.json(response)
+
+  } catch (error: any) {
+    return upstreamErrorResponse(error, 'batch status', startTime, {
+      count: (body?.txHashes?.length ?? 0) + (body?.items?.length ?? 0)
+    })
+  }
+}
@@ -0,0 +1,93 @@
+import { NextRequest } from 'next/server'
+import {
+  validateStatusParams,
+  checkRateLimit,
+  getClientId,
+  validationErrorResponse,
+  rateLimitedResponse
+} from '@/lib/lifi-proxy'
+import { subscribeToStatus, StatusStreamEvent } from '@/lib/status-stream'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+const HEARTBEAT_INTERVAL = 15000 // Keep proxies from closing idle connections
+
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams
+  const txHash = searchParams.get('txHash')
+  const fromChain = searchParams.get('fromChain')
+  const toChain = searchParams.get('toChain')
+  const bridge = searchParams.get('bridge')
+
+  const validationError = validateStatusParams({ txHash, fromChain, toChain, bridge })
+  if (validationError) {
+    return validationErrorResponse(validationError)
+  }
+
+  // A stream counts as a single request however long it stays open
+  const clientId = getClientId(request)
+  if (!checkRateLimit(clientId)) {
+    return rateLimitedResponse()
+  }
+
+  const encoder = new TextEncoder()
+  let cleanup = () => {}
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false
+
+      const write = (chunk: string) => {
+        if (!closed) controller.enqueue(encoder.encode(chunk))
+      }
+
+      const send = (event: StatusStreamEvent) => {
+        const payload = event.type === 'upstream_error' ? event.error : event.data ?? null
+        write(`event: ${event.type}\ndata: ${JSON.stringify(payload)}\n\n`)
+
+        if (event.type === 'end') {
+          cleanup()
+          controller.close()
+        }
+      }
+
+      // Tell EventSource how long to wait before reconnecting
+      write('retry: 5000\n\n')
+
+      const heartbeat = setInterval(() => write(': ping\n\n'), HEARTBEAT_INTERVAL)
+      let unsubscribe = () => {}
+
+      cleanup = () => {
+        if (closed) return
+        closed = true
+        clearInterval(heartbeat)
+        unsubscribe()
+      }
+
+      unsubscribe = subscribeToStatus(
+        {
+          txHash: txHash!,
+          fromChain: fromChain || undefined,
+          toChain: toChain || undefined,
+          bridge: bridge || undefined
+        },
+        send
+      )
+
+      request.signal.addEventListener('abort', () => cleanup())
+    },
+    cancel() {
+      cleanup()
+    }
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    }
+  })
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { TokenInfo } from '@/types/lifi'
+import {
+  getApiClient,
+  validateChainId,
+  checkRateLimit,
+  getClientId,
+  validationErrorResponse,
+  rateLimitedResponse,
+  upstreamErrorResponse
+} from '@/lib/lifi-proxy'
+
+const CACHE_TTL = 5 * 60 * 1000 // 5 minutes
+const MAX_CACHE_SIZE = 1000
+const MAX_TOKEN_LENGTH = 100
+
+const tokenCache = new Map<string, { token: TokenInfo; expiresAt: number }>()
+
+export async function GET(request: NextRequest) {
+  const startTime = Date.now()
+  const searchParams = request.nextUrl.searchParams
+  const chain = searchParams.get('chain')
+  const token = searchParams.get('token')
+
+  try {
+    // Validate required parameters
+    if (!chain || !token) {
+      return validationErrorResponse('chain and token parameters are required')
+    }
+
+    if (!validateChainId(chain)) {
+      return validationErrorResponse('Invalid chain parameter')
+    }
+
+    // Accepts an address or a symbol, as LI.FI does
+    if (token.length > MAX_TOKEN_LENGTH || /\s/.test(token)) {
+      return validationErrorResponse('Invalid token parameter')
+    }
+
+    const cacheKey = `${chain}:${token.startsWith('0x') ? token.toLowerCase() : token}`
+    const cached = tokenCache.get(cacheKey)
+    if (cached && cached.expiresAt > Date.now()) {
+      return NextResponse.json(cached.token)
+    }
+
+    // Check rate limiting
+    const clientId = getClientId(request)
+    if (!checkRateLimit(clientId)) {
+      return rateLimitedResponse()
+    }
+
+    // Make API request
+    const response = await getApiClient().get('/token', { params: { chain, token } })
+    const duration = Date.now() - startTime
+
+    if (tokenCache.size >= MAX_CACHE_SIZE) {
+      const oldestKey = tokenCache.keys().next().value
+      if (oldestKey) tokenCache.delete(oldestKey)
+    }
+    tokenCache.set(cacheKey, { token: response.data, expiresAt: Date.now() + CACHE_TTL })
+
+    // Log successful requests for monitoring
+    console.log(`LI.FI token request completed in ${duration}ms for ${chain}:${token}`)
+
+    return NextResponse.json(response.data)
+
+  } catch (error: any) {
+    return upstreamErrorResponse(error, 'token', startTime, { chain, token })
+  }
+}
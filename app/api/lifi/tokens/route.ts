@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { TokenInfo, TokensResponse } from '@/types/lifi'
+import {
+  getApiClient,
+  validateChainId,
+  checkRateLimit,
+  getClientId,
+  validationErrorResponse,
+  rateLimitedResponse,
+  upstreamErrorResponse
+} from '@/lib/lifi-proxy'
+
+// Token lists carry prices, so keep them fresh enough for USD estimates
+const CACHE_TTL = 10 * 60 * 1000 // 10 minutes
+const MAX_CHAINS = 20
+
+const tokenListCache = new Map<string, { tokens: TokenInfo[]; expiresAt: number }>()
+
+export async function GET(request: NextRequest) {
+  const startTime = Date.now()
+  const chainsParam = request.nextUrl.searchParams.get('chains')
+
+  try {
+    // Validate required parameters
+    if (!chainsParam) {
+      return validationErrorResponse('chains parameter is required')
+    }
+
+    const chainIds = Array.from(new Set(chainsParam.split(',').map(chain => chain.trim())))
+
+    if (chainIds.length > MAX_CHAINS) {
+      return validationErrorResponse(`At most ${MAX_CHAINS} chains may be requested at once`)
+    }
+
+    if (chainIds.some(chainId => !validateChainId(chainId))) {
+      return validationErrorResponse('Invalid chains parameter. Must be a comma-separated list of chain IDs')
+    }
+
+    const result: TokensResponse = { tokens: {} }
+    const missing: string[] = []
+
+    chainIds.forEach(chainId => {
+      const cached = tokenListCache.get(chainId)
+      if (cached && cached.expiresAt > Date.now()) {
+        result.tokens[chainId] = cached.tokens
+      } else {
+        missing.push(chainId)
+      }
+    })
+
+    if (missing.length === 0) {
+      return NextResponse.json(result)
+    }
+
+    // Check rate limiting
+    const clientId = getClientId(request)
+    if (!checkRateLimit(clientId)) {
+      return rateLimitedResponse()
+    }
+
+    // Make API request
+    const response = await getApiClient().get('/tokens', {
+      params: { chains: missing.join(',') }
+    })
+    const upstreamTokens: Record<string, TokenInfo[]> = response.data?.tokens ?? {}
+    const expiresAt = Date.now() + CACHE_TTL
+
+    missing.forEach(chainId => {
+      const tokens = Array.isArray(upstreamTokens[chainId]) ? upstreamTokens[chainId] : []
+      tokenListCache.set(chainId, { tokens, expiresAt })
+      result.tokens[chainId] = tokens
+    })
+
+    const duration = Date.now() - startTime
+
+    // Log successful requests for monitoring
+    console.log(`LI.FI tokens request completed in ${duration}ms for chains: ${missing.join(',')}`)
+
+    return NextResponse.json(result)
+
+  } catch (error: any) {
+    return upstreamErrorResponse(error, 'tokens', startTime, { chains: chainsParam })
+  }
+}
@@ -0,0 +1,146 @@
+import { NextRequest } from 'next/server'
+import { ImageResponse } from 'next/og'
+import { StatusResponse, TransactionInfo } from '@/types/lifi'
+import {
+  validateStatusParams,
+  getClientId,
+  validationErrorResponse,
+  rateLimitedResponse
+} from '@/lib/lifi-proxy'
+import { fetchStatusWithCache, isTerminalStatus, StatusRateLimitedError } from '@/lib/status-cache'
+import { formatDuration, getTransferDuration } from '@/lib/duration-baselines'
+import {
+  formatTokenAmount,
+  getBridgeToolName,
+  getChainName,
+  getStatusColor,
+  getTimeElapsed,
+  truncateHash
+} from '@/lib/lifi-utils'
+
+const WIDTH = 1200
+const HEIGHT = 630
+
+const STATUS_COLORS: Record<ReturnType<typeof getStatusColor>, string> = {
+  success: '#16a34a',
+  warning: '#d97706',
+  error: '#dc2626',
+  info: '#2563eb'
+}
+const UNKNOWN_COLOR = '#6b7280'
+
+// Settled transfers never change; pending ones are re-rendered on the next unfurl
+const TERMINAL_MAX_AGE = 24 * 60 * 60
+const PENDING_MAX_AGE = 60
+
+function formatLegAmount(info?: TransactionInfo): string {
+  if (!info?.amount || !info.token) return '-'
+  return formatTokenAmount(info.amount, info.token.decimals, info.token.symbol, 4)
+}
+
+function ChainColumn({ label, info }: { label: string; info?: TransactionInfo }) {
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', flex: 1 }}>
+      <div style={{ fontSize: 24, color: '#9ca3af' }}>{label}</div>
+      <div style={{ fontSize: 44, fontWeight: 700, marginTop: 8 }}>{getChainName(info?.chainId)}</div>
+      <div style={{ fontSize: 32, color: '#d1d5db', marginTop: 8 }}>{formatLegAmount(info)}</div>
+    </div>
+  )
+}
+
+function renderCard(txHash: string, status?: StatusResponse) {
+  const color = status ? STATUS_COLORS[getStatusColor(status.status, status.substatus)] : UNKNOWN_COLOR
+  const duration = status ? getTransferDuration(status) : undefined
+  const elapsed = duration !== undefined
+    ? `Took ${formatDuration(duration)}`
+    : status?.sending.timestamp ? `Sent ${getTimeElapsed(status.sending.timestamp)}` : undefined
+
+  return (
+    <div
+      style={{
+        width: '100%',
+        height: '100%',
+        display: 'flex',
+        flexDirection: 'column',
+        justifyContent: 'space-between',
+        padding: 64,
+        backgroundColor: '#0b0f19',
+        color: '#f9fafb',
+        borderTop: `16px solid ${color}`
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+        <div style={{ fontSize: 32, fontWeight: 700 }}>LiFi Lens</div>
+        <div
+          style={{
+            display: 'flex',
+            padding: '8px 24px',
+            borderRadius: 9999,
+            backgroundColor: color,
+            fontSize: 28,
+            fontWeight: 700
+          }}
+        >
+          {status ? (status.substatus ? `${status.status} · ${status.substatus}` : status.status) : 'UNKNOWN'}
+        </div>
+      </div>
+
+      <div style={{ display: 'flex', alignItems: 'center' }}>
+        <ChainColumn label="From" info={status?.sending} />
+        <div style={{ width: 96, height: 4, margin: '0 48px', backgroundColor: color }} />
+        <ChainColumn label="To" info={status?.receiving} />
+      </div>
+
+      <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: 26, color: '#9ca3af' }}>
+        <div style={{ display: 'flex' }}>
+          {status?.tool ? `via ${getBridgeToolName(status.tool)}` : 'Cross-chain transfer'}
+          {elapsed ? ` · ${elapsed}` : ''}
+        </div>
+        <div style={{ display: 'flex' }}>{truncateHash(txHash, 10, 8)}</div>
+      </div>
+    </div>
+  )
+}
+
+export async function GET(request: NextRequest, { params }: { params: { hash: string } }) {
+  const startTime = Date.now()
+  const searchParams = request.nextUrl.searchParams
+
+  const statusRequest = {
+    txHash: params.hash,
+    fromChain: searchParams.get('fromChain') || undefined,
+    toChain: searchParams.get('toChain') || undefined,
+    bridge: searchParams.get('bridge') || undefined
+  }
+
+  const validationError = validateStatusParams(statusRequest)
+  if (validationError) {
+    return validationErrorResponse(validationError)
+  }
+
+  let status: StatusResponse | undefined
+  try {
+    // Cache hits do not reach LI.FI, so they skip the rate limit
+    status = (await fetchStatusWithCache(statusRequest, { clientId: getClientId(request) })).data
+  } catch (error: any) {
+    if (error instanceof StatusRateLimitedError) {
+      return rateLimitedResponse()
+    }
+    // Still unfurl, as a card without status details
+    console.warn(`OG image status lookup failed for txHash: ${params.hash}:`, error.message)
+  }
+
+  const maxAge = status && isTerminalStatus(status) ? TERMINAL_MAX_AGE : PENDING_MAX_AGE
+  const image = new ImageResponse(renderCard(params.hash, status), {
+    width: WIDTH,
+    height: HEIGHT,
+    headers: {
+      'Cache-Control': `public, max-age=${maxAge}, s-maxage=${maxAge}`
+    }
+  })
+
+  const duration = Date.now() - startTime
+  console.log(`OG image request completed in ${duration}ms for txHash: ${params.hash}`)
+
+  return image
+}
@@ -3,11 +3,14 @@ import { Inter } from "next/font/google"
 import { ThemeProvider } from "@/components/providers/ThemeProvider"
 import { QueryProvider } from "@/components/providers/QueryProvider"
 import { Toaster } from "sonner"
+import { getSiteUrl } from "@/lib/permalink"
 import "./globals.css"
 
 const inter = Inter({ subsets: ["latin"] })
 
 export const metadata: Metadata = {
+  // Resolves relative Open Graph URLs, e.g. on /tx/[hash] pages
+  metadataBase: new URL(getSiteUrl()),
   title: "LiFi Lens - Advanced Cross-Chain Debugging Tool",
   description: "Professional debugging and analysis tool for LI.FI cross-chain transactions. Get detailed insights, error analysis, and performance metrics.",
   keywords: "LiFi, cross-chain, DeFi, debugging, transaction analysis, blockchain, Ethereum",
@@ -18,6 +21,7 @@ export const metadata: Metadata = {
     description: "Professional debugging and analysis tool for LI.FI cross-chain transactions.",
     url: "https://lens.li.fi",
     siteName: "LiFi Lens",
+    // Transaction pages replace this with their own /api/og/tx/[hash] card
     images: [
       {
         url: "/og-image.png",
@@ -1,6 +1,7 @@
 "use client"
 
 import { useState } from "react"
+import { useRouter } from "next/navigation"
 import { motion } from "framer-motion"
 import { Header } from "@/components/layout/Header"
 import { Footer } from "@/components/layout/Footer"
@@ -8,19 +9,31 @@ import { CommandPalette } from "@/components/features/CommandPalette"
 import { ExportDialog } from "@/components/features/ExportDialog"
 import { OnboardingTour } from "@/components/features/OnboardingTour"
 import { TransactionInput } from "@/components/TransactionInput"
-import { TransactionDetails } from "@/components/TransactionDetails"
+import { WalletTransfers } from "@/components/WalletTransfers"
+import { WatchlistPanel } from "@/components/WatchlistPanel"
 import { ErrorBoundary } from "@/components/ErrorBoundary"
 import { PageTransition } from "@/components/common/LoadingStates"
 import { TerminalDemo } from "@/components/TerminalDemo"
 import { NetworkStatusBar } from "@/components/NetworkStatusBar"
+import { useShareTransaction } from "@/hooks/useShareTransaction"
+import { getTransactionPath } from "@/lib/permalink"
+import { watchlist } from "@/lib/watchlist"
 
 export default function Home() {
-  const [selectedTxHash, setSelectedTxHash] = useState<string | null>(null)
+  const router = useRouter()
+  const [selectedWallet, setSelectedWallet] = useState<string | null>(null)
   const [commandPaletteOpen, setCommandPaletteOpen] = useState(false)
   const [exportDialogOpen, setExportDialogOpen] = useState(false)
+  const shareTransaction = useShareTransaction()
 
+  // Transfers open on their permalink, so reload, back and the address bar keep them
   const handleSelectTransaction = (txHash: string) => {
-    setSelectedTxHash(txHash)
+    const entry = watchlist.getEntries().find(watched => watched.txHash === txHash)
+    router.push(getTransactionPath(txHash, { fromChain: entry?.fromChain, toChain: entry?.toChain }))
+  }
+
+  const handleSelectWallet = (address: string) => {
+    setSelectedWallet(address)
   }
 
   return (
@@ -173,18 +186,30 @@ export default function Home() {
                   transition={{ duration: 0.6, delay: 0.4 }}
                 >
                   <div data-tour="search-input">
-                    <TransactionInput onSelectTransaction={handleSelectTransaction} />
+                    <TransactionInput
+                      onSelectTransaction={handleSelectTransaction}
+                      onSelectWallet={handleSelectWallet}
+                    />
                   </div>
                 </motion.div>
 
-                {selectedTxHash && (
+                <WatchlistPanel
+                  className="mt-12"
+                  onSelectTransaction={handleSelectTransaction}
+                />
+
+                {selectedWallet && (
                   <motion.div
                     className="mt-12"
                     initial={{ opacity: 0, y: 30 }}
                     animate={{ opacity: 1, y: 0 }}
                     transition={{ duration: 0.6, delay: 0.2 }}
                   >
-                    <TransactionDetails txHash={selectedTxHash} />
+                    <WalletTransfers
+                      key={selectedWallet}
+                      wallet={selectedWallet}
+                      onSelectTransaction={handleSelectTransaction}
+                    />
                   </motion.div>
                 )}
               </ErrorBoundary>
@@ -199,12 +224,12 @@ export default function Home() {
         open={commandPaletteOpen}
         onOpenChange={setCommandPaletteOpen}
         onSelectTransaction={handleSelectTransaction}
+        onShare={() => shareTransaction()}
       />
 
       <ExportDialog
         open={exportDialogOpen}
         onOpenChange={setExportDialogOpen}
-        txHash={selectedTxHash || undefined}
       />
 
       <OnboardingTour />
@@ -0,0 +1,123 @@
+import type { Metadata } from "next"
+import { cache } from "react"
+import { headers } from "next/headers"
+import { notFound } from "next/navigation"
+import { StatusRequest, StatusResponse } from "@/types/lifi"
+import { getClientIdFromHeaders, validateStatusParams } from "@/lib/lifi-proxy"
+import { fetchStatusWithCache, StatusRateLimitedError } from "@/lib/status-cache"
+import { getTransactionImagePath, getTransactionPath, summarizeTransfer } from "@/lib/permalink"
+import { truncateHash } from "@/lib/lifi-utils"
+import { TransactionView } from "@/components/TransactionView"
+
+interface TransactionPageProps {
+  params: { hash: string }
+  searchParams: { [key: string]: string | string[] | undefined }
+}
+
+function firstValue(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value || undefined
+}
+
+/**
+ * Status lookup from the route, or null when the hash or parameters are invalid
+ */
+function getStatusRequest({ params, searchParams }: TransactionPageProps): StatusRequest | null {
+  const request = {
+    txHash: params.hash,
+    fromChain: firstValue(searchParams.fromChain),
+    toChain: firstValue(searchParams.toChain),
+    bridge: firstValue(searchParams.bridge)
+  }
+
+  return validateStatusParams(request) ? null : request
+}
+
+// Shared by generateMetadata and the page within one request. Cache misses count
+// against the visitor's rate limit like any other status lookup.
+const loadStatus = cache(async (
+  txHash: string,
+  fromChain?: string,
+  toChain?: string,
+  bridge?: string
+): Promise<StatusResponse | undefined> => {
+  try {
+    const { data } = await fetchStatusWithCache(
+      { txHash, fromChain, toChain, bridge },
+      { clientId: getClientIdFromHeaders(headers()) }
+    )
+    return data
+  } catch (error: any) {
+    // The client retries the lookup after hydration
+    if (!(error instanceof StatusRateLimitedError)) {
+      console.warn(`Server-side status lookup failed for txHash: ${txHash}:`, error.message)
+    }
+    return undefined
+  }
+})
+
+export async function generateMetadata(props: TransactionPageProps): Promise<Metadata> {
+  const request = getStatusRequest(props)
+  if (!request) {
+    return { title: "Transaction not found | LiFi Lens" }
+  }
+
+  const status = await loadStatus(request.txHash, request.fromChain, request.toChain, request.bridge)
+  const { title, description } = status
+    ? summarizeTransfer(status)
+    : {
+      title: `Transaction ${truncateHash(request.txHash, 10, 8)}`,
+      description: "Cross-chain transfer status, error analysis and fees on LiFi Lens."
+    }
+  const url = getTransactionPath(request.txHash, request)
+  const image = getTransactionImagePath(request.txHash, request)
+
+  return {
+    title: `${title} | LiFi Lens`,
+    description,
+    alternates: { canonical: url },
+    openGraph: {
+      title,
+      description,
+      url,
+      siteName: "LiFi Lens",
+      images: [
+        {
+          url: image,
+          width: 1200,
+          height: 630,
+          alt: title,
+        },
+      ],
+      locale: "en_US",
+      type: "website",
+    },
+    twitter: {
+      card: "summary_large_image",
+      title,
+      description,
+      creator: "@lifiprotocol",
+      images: [image],
+    },
+    // Individual transfers are for sharing, not search results
+    robots: { index: false, follow: true },
+  }
+}
+
+export default async function TransactionPage(props: TransactionPageProps) {
+  const request = getStatusRequest(props)
+  if (!request) {
+    notFound()
+  }
+
+  const status = await loadStatus(request.txHash, request.fromChain, request.toChain, request.bridge)
+
+  return (
+    <TransactionView
+      txHash={request.txHash}
+      fromChain={request.fromChain}
+      toChain={request.toChain}
+      bridge={request.bridge}
+      initialStatus={status}
+    />
+  )
+}
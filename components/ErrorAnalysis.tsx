@@ -18,8 +18,19 @@ import {
   CheckCircle2
 } from 'lucide-react'
 import { useState } from 'react'
-import { StatusResponse, TransactionSubstatus, ErrorCode } from '@/types/lifi'
+import { StatusResponse, TransactionStatus, TransactionSubstatus, ErrorCode } from '@/types/lifi'
 import { RouteComparison } from './RouteComparison'
+import { RevertReason } from './RevertReason'
+import { classifyTxHash } from '@/lib/hash-classifier'
+import { getBridgeToolName } from '@/lib/lifi-utils'
+import {
+  DurationBaseline,
+  assessDuration,
+  formatDuration,
+  getElapsedSeconds,
+  shouldEscalate
+} from '@/lib/duration-baselines'
+import { useDurationBaseline } from '@/hooks/useDurationBaseline'
 
 interface ToolError {
   errorType: string
@@ -73,6 +84,11 @@ export function ErrorAnalysis({
 }: ErrorAnalysisProps) {
   const [copiedText, setCopiedText] = useState<string | null>(null)
   const [expandedSections, setExpandedSections] = useState<Set<string>>(new Set())
+  const baseline = useDurationBaseline(
+    transactionData?.tool,
+    transactionData?.sending.chainId,
+    transactionData?.receiving?.chainId
+  )
 
   // Comprehensive error mappings
   const getApiErrorInfo = (code: string): ErrorInfo => {
@@ -672,6 +688,45 @@ const tx = await contract.method({
     }
   }
 
+  // Escalation guidance for a pending transfer past its bridge's p95 duration
+  const getStuckTransferInfo = (data: StatusResponse, elapsed: number, baseline: DurationBaseline): ErrorInfo => {
+    const escalate = shouldEscalate(elapsed, baseline)
+    const suggestions = [
+      'Do not resend the funds: the original transfer can still complete or be refunded',
+      data.bridgeExplorerLink
+        ? 'Check the transfer on the bridge explorer to see which side it is waiting on'
+        : 'Check the transfer on the LI.FI explorer to see which side it is waiting on',
+      'Check the destination chain\'s network health for halts or RPC issues'
+    ]
+
+    if (escalate) {
+      suggestions.push(
+        `Contact LI.FI support with the source transaction hash${data.transactionId ? ' and transaction ID' : ''}`
+      )
+    } else {
+      suggestions.push(`Contact LI.FI support if it is still pending after ${formatDuration(baseline.p95Seconds * 2)}`)
+    }
+
+    const documentationLinks = [
+      ...(data.bridgeExplorerLink ? [{ text: 'Bridge Explorer', url: data.bridgeExplorerLink }] : []),
+      ...(data.lifiExplorerLink ? [{ text: 'LI.FI Explorer', url: data.lifiExplorerLink }] : []),
+      { text: 'LI.FI Support', url: 'https://help.li.fi' }
+    ]
+
+    return {
+      category: escalate ? 'critical' : 'warning',
+      title: 'Transfer Likely Stuck',
+      description: `This transfer has been pending for ${formatDuration(elapsed)}. ` +
+        `${data.tool ? getBridgeToolName(data.tool) : 'Transfers on this route'} usually finish within ` +
+        `${formatDuration(baseline.p50Seconds)}, and 95% finish within ${formatDuration(baseline.p95Seconds)}.`,
+      suggestions,
+      documentationLinks,
+      icon: Clock,
+      retryable: false,
+      estimatedFixTime: escalate ? 'Needs support' : undefined
+    }
+  }
+
   // Error pattern detection
   const detectErrorPatterns = (errors: ToolError[]): ErrorPattern[] => {
     const patterns: ErrorPattern[] = []
@@ -754,7 +809,7 @@ const tx = await contract.method({
   }
 
   // Collect all errors to analyze
-  const allErrors: Array<{ type: 'api' | 'tool' | 'substatus', data: any, info: ErrorInfo }> = []
+  const allErrors: Array<{ type: 'api' | 'tool' | 'substatus' | 'stuck', data: any, info: ErrorInfo }> = []
 
   if (error) {
     const info = getApiErrorInfo(error.code)
@@ -779,10 +834,30 @@ const tx = await contract.method({
     allErrors.push({ type: 'substatus', data: { substatus, message: substatusMessage }, info })
   }
 
+  const elapsed = transactionData?.status === TransactionStatus.PENDING
+    ? getElapsedSeconds(transactionData)
+    : undefined
+  if (transactionData && elapsed !== undefined && assessDuration(elapsed, baseline) === 'likely-stuck') {
+    const info = getStuckTransferInfo(transactionData, elapsed, baseline)
+    allErrors.push({ type: 'stuck', data: { elapsed, baseline }, info })
+  }
+
   // Detect patterns in tool errors
   const errorPatterns = toolErrors ? detectErrorPatterns(toolErrors) : []
 
-  if (allErrors.length === 0) {
+  // Replay the transaction that most likely reverted: the destination one if it
+  // exists, otherwise the source one
+  const failedTransaction = transactionData && (
+    transactionData.status === TransactionStatus.FAILED ||
+    substatus === TransactionSubstatus.OUT_OF_GAS ||
+    substatus === TransactionSubstatus.UNKNOWN_ERROR
+  )
+    ? [transactionData.receiving, transactionData.sending].find(
+      tx => tx?.txHash && tx.chainId && classifyTxHash(tx.txHash)?.kind === 'evm'
+    )
+    : undefined
+
+  if (allErrors.length === 0 && !failedTransaction) {
     return null
   }
 
@@ -899,6 +974,19 @@ const tx = await contract.method({
                         {data.message && <p><span className="font-medium">Message:</span> {data.message}</p>}
                       </>
                     )}
+                    {type === 'stuck' && (
+                      <>
+                        <p><span className="font-medium">Elapsed:</span> {formatDuration(data.elapsed)}</p>
+                        <p><span className="font-medium">Typical (p50):</span> {formatDuration(data.baseline.p50Seconds)}</p>
+                        <p><span className="font-medium">Slowest 5% (p95):</span> {formatDuration(data.baseline.p95Seconds)}</p>
+                        <p>
+                          <span className="font-medium">Baseline:</span>{' '}
+                          {data.baseline.source === 'default'
+                            ? 'default for this bridge'
+                            : `learned from ${data.baseline.sampleCount} completed transfers`}
+                        </p>
+                      </>
+                    )}
                   </div>
                 </div>
 
@@ -982,6 +1070,14 @@ const tx = await contract.method({
         )
       })}
 
+      {/* Decoded on-chain revert reason */}
+      {failedTransaction && (
+        <RevertReason
+          chainId={failedTransaction.chainId!}
+          txHash={failedTransaction.txHash}
+        />
+      )}
+
       {/* Alternative Routes - Show when transaction failed and we have transaction data */}
       {transactionData && allErrors.length > 0 && (
         <div className="mt-8">
@@ -1,7 +1,8 @@
 "use client"
 
 import { FeeCost } from '@/types/lifi'
-import { formatAmount, formatUSD } from '@/lib/utils'
+import { formatUSD } from '@/lib/utils'
+import { TokenAmount } from './TokenAmount'
 import { Info } from 'lucide-react'
 
 interface FeeBreakdownProps {
@@ -49,7 +50,7 @@ export function FeeBreakdown({ fees }: FeeBreakdownProps) {
             <div className="text-right ml-4">
               {fee.amount && fee.token && (
                 <p className="text-sm font-medium">
-                  {formatAmount(fee.amount, fee.token.decimals)} {fee.token.symbol}
+                  <TokenAmount amount={fee.amount} token={fee.token} />
                 </p>
               )}
               {fee.amountUSD && (
@@ -2,40 +2,53 @@
 
 import { useState, useEffect } from 'react'
 import { motion } from 'framer-motion'
-import { Activity, Zap, Globe, Clock } from 'lucide-react'
-
-interface NetworkStatus {
-  name: string
-  symbol: string
-  status: 'healthy' | 'warning' | 'error'
-  responseTime: number
-  blockHeight?: number
-}
+import { ChainHealth, HealthStatus, NetworkHealthResponse } from '@/types/lifi'
+import { useChainRegistry } from '@/hooks/useChainRegistry'
+
+const REFRESH_INTERVAL = 30000 // 30 seconds
 
-const networks: NetworkStatus[] = [
-  { name: 'Ethereum', symbol: 'ETH', status: 'healthy', responseTime: 45, blockHeight: 18756432 },
-  { name: 'Arbitrum', symbol: 'ARB', status: 'healthy', responseTime: 23, blockHeight: 1428765 },
-  { name: 'Polygon', symbol: 'MATIC', status: 'healthy', responseTime: 67, blockHeight: 49832156 },
-  { name: 'Optimism', symbol: 'OP', status: 'warning', responseTime: 156, blockHeight: 112834567 },
-  { name: 'Base', symbol: 'BASE', status: 'healthy', responseTime: 34, blockHeight: 8234567 }
-]
+function formatBlockAge(seconds?: number): string | undefined {
+  if (seconds === undefined) return undefined
+  if (seconds < 60) return `${seconds}s ago`
+  return `${Math.floor(seconds / 60)}m ago`
+}
 
 export function NetworkStatusBar() {
-  const [apiStatus, setApiStatus] = useState<'healthy' | 'warning' | 'error'>('healthy')
-  const [avgResponseTime, setAvgResponseTime] = useState(45)
-  const [totalTransactions, setTotalTransactions] = useState(12543)
+  const chains = useChainRegistry()
+  const [health, setHealth] = useState<NetworkHealthResponse | null>(null)
+  const [loadError, setLoadError] = useState<string | null>(null)
 
-  // Simulate real-time updates
   useEffect(() => {
-    const interval = setInterval(() => {
-      setAvgResponseTime(prev => prev + (Math.random() - 0.5) * 10)
-      setTotalTransactions(prev => prev + Math.floor(Math.random() * 3))
-    }, 5000)
+    let cancelled = false
 
-    return () => clearInterval(interval)
+    const loadHealth = async () => {
+      try {
+        const response = await fetch('/api/health/chains')
+        if (!response.ok) {
+          throw new Error(`Health check failed with status ${response.status}`)
+        }
+        const data: NetworkHealthResponse = await response.json()
+        if (!cancelled) {
+          setHealth(data)
+          setLoadError(null)
+        }
+      } catch (error) {
+        if (!cancelled) {
+          setLoadError(error instanceof Error ? error.message : 'Health check failed')
+        }
+      }
+    }
+
+    loadHealth()
+    const interval = setInterval(loadHealth, REFRESH_INTERVAL)
+
+    return () => {
+      cancelled = true
+      clearInterval(interval)
+    }
   }, [])
 
-  const getStatusColor = (status: string) => {
+  const getStatusColor = (status: HealthStatus) => {
     switch (status) {
       case 'healthy': return 'status-healthy'
       case 'warning': return 'status-warning'
@@ -44,36 +57,94 @@ export function NetworkStatusBar() {
     }
   }
 
+  const getChainTitle = (chain: ChainHealth) => {
+    if (chain.error) return chain.error
+    return `Error rate ${(chain.errorRate * 100).toFixed(0)}% over recent probes`
+  }
+
+  if (!health) {
+    return (
+      <div className="w-full">
+        <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-6 gap-3">
+          {Array.from({ length: 6 }).map((_, index) => (
+            <div key={index} className="bg-card border rounded-lg p-3 h-[76px] animate-pulse" />
+          ))}
+        </div>
+        {loadError && (
+          <p className="mt-2 text-xs text-muted-foreground">{loadError}</p>
+        )}
+      </div>
+    )
+  }
+
   return (
     <div className="w-full">
 
       {/* Network Status Grid */}
-      <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-5 gap-3">
-        {networks.map((network, index) => (
+      <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-6 gap-3">
+        <motion.div
+          className="bg-card border rounded-lg p-3 hover:bg-muted/50 transition-colors"
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          title={health.lifi.error}
+        >
+          <div className="flex items-center justify-between mb-2">
+            <div className="flex items-center gap-2">
+              <div className={`status-dot ${getStatusColor(health.lifi.status)}`}></div>
+              <span className="font-medium text-xs">LI.FI API</span>
+            </div>
+            {health.lifi.latencyMs !== undefined && (
+              <div className="text-xs text-muted-foreground font-mono">
+                {health.lifi.latencyMs}ms
+              </div>
+            )}
+          </div>
+
+          <div className="text-xs text-muted-foreground">
+            li.quest
+          </div>
+
+          {health.lifi.error && (
+            <div className="text-xs text-muted-foreground mt-1 truncate">
+              Unreachable
+            </div>
+          )}
+        </motion.div>
+
+        {health.chains.map((chain, index) => (
           <motion.div
-            key={network.name}
+            key={chain.chainId}
             className="bg-card border rounded-lg p-3 hover:bg-muted/50 transition-colors"
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
-            transition={{ delay: index * 0.1 }}
+            transition={{ delay: (index + 1) * 0.1 }}
+            title={getChainTitle(chain)}
           >
             <div className="flex items-center justify-between mb-2">
               <div className="flex items-center gap-2">
-                <div className={`status-dot ${getStatusColor(network.status)}`}></div>
-                <span className="font-medium text-xs">{network.symbol}</span>
-              </div>
-              <div className="text-xs text-muted-foreground font-mono">
-                {network.responseTime}ms
+                <div className={`status-dot ${getStatusColor(chain.status)}`}></div>
+                <span className="font-medium text-xs truncate">
+                  {chains.getChainName(chain.chainId)}
+                </span>
               </div>
+              {chain.latencyMs !== undefined && (
+                <div className="text-xs text-muted-foreground font-mono">
+                  {chain.latencyMs}ms
+                </div>
+              )}
             </div>
-            
+
             <div className="text-xs text-muted-foreground">
-              {network.name}
+              {chains.getNativeSymbol(chain.chainId) || `Chain ${chain.chainId}`}
             </div>
-            
-            {network.blockHeight && (
+
+            {chain.blockNumber !== undefined ? (
               <div className="text-xs text-muted-foreground font-mono mt-1">
-                #{network.blockHeight.toLocaleString()}
+                #{chain.blockNumber.toLocaleString()} · {formatBlockAge(chain.blockAgeSeconds)}
+              </div>
+            ) : (
+              <div className="text-xs text-muted-foreground mt-1 truncate">
+                RPC unreachable
               </div>
             )}
           </motion.div>
@@ -0,0 +1,88 @@
+"use client"
+
+import { Code2, Loader2 } from 'lucide-react'
+import { useRevertAnalysis } from '@/hooks/useTransactionReceipt'
+import { useChainRegistry } from '@/hooks/useChainRegistry'
+
+interface RevertReasonProps {
+  chainId: number
+  txHash: string
+  className?: string
+}
+
+export function RevertReason({ chainId, txHash, className = "" }: RevertReasonProps) {
+  const chains = useChainRegistry()
+  const { analysis, isLoading, error } = useRevertAnalysis(chainId, txHash)
+
+  // Nothing to explain when the transaction did not revert on-chain
+  if (analysis && !analysis.reverted) return null
+
+  const decoded = analysis?.decoded
+
+  return (
+    <div className={`border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 rounded-lg p-4 ${className}`}>
+      <div className="flex items-start gap-3">
+        <div className="p-2 bg-gray-100 dark:bg-gray-800 rounded-full">
+          <Code2 className="h-5 w-5 text-gray-600 dark:text-gray-400" />
+        </div>
+
+        <div className="flex-1 min-w-0">
+          <h3 className="font-semibold text-gray-900 dark:text-gray-100 mb-1">
+            On-chain Revert Reason
+          </h3>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mb-3 font-mono truncate">
+            {chains.getChainName(chainId)} · {txHash.slice(0, 10)}...{txHash.slice(-8)}
+          </p>
+
+          {isLoading && (
+            <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Replaying the transaction...
+            </div>
+          )}
+
+          {error && (
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Could not replay the transaction: {error}
+            </p>
+          )}
+
+          {analysis && !decoded && (
+            <p className="text-sm text-gray-700 dark:text-gray-300">
+              {analysis.rpcMessage || 'The node returned no revert data'}
+            </p>
+          )}
+
+          {decoded && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-gray-900 dark:text-gray-100">
+                {decoded.reason}
+              </p>
+
+              <div className="p-3 bg-gray-50 dark:bg-gray-800 rounded-md text-sm text-gray-600 dark:text-gray-400 space-y-1">
+                {decoded.signature && (
+                  <p className="font-mono text-xs break-all">{decoded.signature}</p>
+                )}
+                {decoded.source && (
+                  <p><span className="font-medium">Source:</span> {decoded.source}</p>
+                )}
+                {decoded.selector && (
+                  <p><span className="font-medium">Selector:</span> <span className="font-mono">{decoded.selector}</span></p>
+                )}
+                {decoded.kind !== 'error' && decoded.args.map((arg, index) => (
+                  <p key={index} className="break-all">
+                    <span className="font-medium">{arg.name || `arg${index}`}:</span>{' '}
+                    <span className="font-mono">{arg.value}</span>
+                  </p>
+                ))}
+                {decoded.kind === 'unknown' && analysis?.revertData && (
+                  <p className="font-mono text-xs break-all">{analysis.revertData}</p>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -25,6 +25,7 @@ import { useState, useEffect } from 'react'
 import { StatusResponse, Route, RouteRecommendationType, RouteComparison as RouteComparisonData } from '@/types/lifi'
 import { AlternativeRoute, RouteMetrics } from '@/types/lifi'
 import { fetchAlternativeRoutes } from '@/lib/route-analysis'
+import { TokenAmount } from './TokenAmount'
 
 interface RouteComparisonProps {
   transactionData: StatusResponse
@@ -54,12 +55,16 @@ export function RouteComparison({
   })
 
   useEffect(() => {
+    const controller = new AbortController()
+
     const loadAlternatives = async () => {
       try {
         setState(prev => ({ ...prev, loading: true, error: null }))
-        const alternatives = await fetchAlternativeRoutes(transactionData)
+        const alternatives = await fetchAlternativeRoutes(transactionData, { signal: controller.signal })
+        if (controller.signal.aborted) return
         setState(prev => ({ ...prev, alternatives, loading: false }))
       } catch (error) {
+        if (controller.signal.aborted) return
         console.error('Failed to fetch alternative routes:', error)
         setState(prev => ({ 
           ...prev, 
@@ -70,6 +75,9 @@ export function RouteComparison({
     }
 
     loadAlternatives()
+
+    // Cancel outstanding route requests when the transaction changes or we unmount
+    return () => controller.abort()
   }, [transactionData])
 
   const toggleExpanded = (routeId: string) => {
@@ -147,11 +155,6 @@ export function RouteComparison({
     return `${Math.round(seconds / 3600)}h`
   }
 
-  const formatAmount = (amount: string, decimals: number, symbol: string): string => {
-    const value = parseFloat(amount) / Math.pow(10, decimals)
-    return `${value.toFixed(4)} ${symbol}`
-  }
-
   const formatPercentage = (value: number): string => {
     return `${(value * 100).toFixed(2)}%`
   }
@@ -432,13 +435,12 @@ export function RouteComparison({
                         </div>
                         <div className="flex justify-between text-sm">
                           <span className="text-gray-600 dark:text-gray-400">Expected Output:</span>
-                          <span className="font-medium">
-                            {formatAmount(
-                              alternative.route.toAmount,
-                              alternative.route.toToken.decimals,
-                              alternative.route.toToken.symbol
-                            )}
-                          </span>
+                          <TokenAmount
+                            amount={alternative.route.toAmount}
+                            token={alternative.route.toToken}
+                            maxDecimalPlaces={4}
+                            className="font-medium"
+                          />
                         </div>
                       </div>
                     </div>
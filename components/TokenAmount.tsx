@@ -0,0 +1,45 @@
+"use client"
+
+import { TokenInfo } from '@/types/lifi'
+import { formatTokenAmount, getTokenAmountUSD } from '@/lib/token-service'
+import { useTokenInfo } from '@/hooks/useTokenInfo'
+import { cn, formatUSD } from '@/lib/utils'
+
+interface TokenAmountProps {
+  amount: string
+  token: Partial<TokenInfo> & Pick<TokenInfo, 'address' | 'chainId'>
+  maxDecimalPlaces?: number
+  // USD value reported by LI.FI; estimated from the token price when absent
+  amountUSD?: string
+  showUSD?: boolean
+  className?: string
+  usdClassName?: string
+}
+
+export function TokenAmount({
+  amount,
+  token: initialToken,
+  maxDecimalPlaces = 6,
+  amountUSD,
+  showUSD = false,
+  className,
+  usdClassName
+}: TokenAmountProps) {
+  const token = useTokenInfo(initialToken) ?? initialToken
+  const symbol = token.symbol || 'units'
+
+  const formatted = typeof token.decimals === 'number'
+    ? formatTokenAmount(amount, token.decimals, symbol, maxDecimalPlaces)
+    : `${amount} ${symbol}`
+
+  const usdValue = amountUSD ?? getTokenAmountUSD(amount, token)?.toString()
+
+  return (
+    <>
+      <span className={className}>{formatted}</span>
+      {showUSD && usdValue && (
+        <span className={cn("block", usdClassName)}>{formatUSD(usdValue)}</span>
+      )}
+    </>
+  )
+}
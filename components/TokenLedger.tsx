@@ -0,0 +1,187 @@
+"use client"
+
+import { useMemo } from 'react'
+import { ArrowRight, CheckCircle2, AlertTriangle, XCircle, Info, Loader2 } from 'lucide-react'
+import { LedgerCheck, LiFiEvent, StatusResponse } from '@/types/lifi'
+import { useTransactionReceipt } from '@/hooks/useTransactionReceipt'
+import { useChainRegistry } from '@/hooks/useChainRegistry'
+import { classifyTxHash } from '@/lib/hash-classifier'
+import { buildTokenLedger, crossCheckIncludedSteps, decodeLiFiEvents } from '@/lib/lifi-events'
+import { EVM_NATIVE_ADDRESS } from '@/lib/chain-registry'
+import { formatAddress } from '@/lib/lifi-utils'
+import { cn } from '@/lib/utils'
+import { TokenAmount } from './TokenAmount'
+
+interface TokenLedgerProps {
+  status: Pick<StatusResponse, 'sending' | 'receiving' | 'fromAddress' | 'toAddress'>
+}
+
+function evmChainId(txHash?: string, chainId?: number): number | undefined {
+  return txHash && chainId && classifyTxHash(txHash)?.kind === 'evm' ? chainId : undefined
+}
+
+function describeEvent(event: LiFiEvent): string {
+  switch (event.name) {
+    case 'LiFiTransferStarted':
+      return `Bridge via ${event.fields.bridge} to chain ${event.fields.destinationChainId}, min ${event.fields.minAmount}`
+    case 'LiFiGenericSwapCompleted':
+      return `Swapped ${event.fields.fromAmount} → ${event.fields.toAmount}`
+    case 'LiFiTransferCompleted':
+      return `Delivered ${event.fields.amount} to ${formatAddress(event.fields.receiver)}`
+    case 'LiFiTransferRecovered':
+      return `Recovered ${event.fields.amount} to ${formatAddress(event.fields.receiver)}`
+  }
+}
+
+const CHECK_STYLES: Record<LedgerCheck['result'], { icon: typeof CheckCircle2; className: string; label: string }> = {
+  matched: { icon: CheckCircle2, className: 'text-green-600 dark:text-green-400', label: 'Matches a Transfer log' },
+  'amount-differs': { icon: AlertTriangle, className: 'text-yellow-600 dark:text-yellow-400', label: 'Token moved with a different amount' },
+  missing: { icon: XCircle, className: 'text-red-600 dark:text-red-400', label: 'No Transfer log for this token' },
+  native: { icon: Info, className: 'text-gray-500 dark:text-gray-400', label: 'Native asset, not visible in logs' }
+}
+
+export function TokenLedger({ status }: TokenLedgerProps) {
+  const chains = useChainRegistry()
+
+  const sourceChainId = evmChainId(status.sending.txHash, status.sending.chainId)
+  const destinationChainId = evmChainId(status.receiving?.txHash, status.receiving?.chainId)
+
+  const source = useTransactionReceipt(sourceChainId, status.sending.txHash)
+  const destination = useTransactionReceipt(destinationChainId, status.receiving?.txHash)
+
+  const events = useMemo(() => [
+    ...(source.receipt ? decodeLiFiEvents(source.receipt, 'source') : []),
+    ...(destination.receipt ? decodeLiFiEvents(destination.receipt, 'destination') : [])
+  ], [source.receipt, destination.receipt])
+
+  const ledger = useMemo(
+    () => buildTokenLedger(source.receipt, destination.receipt),
+    [source.receipt, destination.receipt]
+  )
+
+  const checks = useMemo(
+    () => crossCheckIncludedSteps(status.sending.includedSteps ?? [], ledger),
+    [status.sending.includedSteps, ledger]
+  )
+
+  if (!sourceChainId && !destinationChainId) {
+    return null
+  }
+
+  // Name the parties we know about instead of showing bare addresses
+  const diamonds = new Set(events.map(event => event.contract.toLowerCase()))
+  const describeParty = (address: string) => {
+    const normalized = address.toLowerCase()
+    if (normalized === EVM_NATIVE_ADDRESS) return 'Mint / burn'
+    if (normalized === status.fromAddress?.toLowerCase()) return 'Sender'
+    if (normalized === status.toAddress?.toLowerCase()) return 'Receiver'
+    if (diamonds.has(normalized)) return 'LI.FI Diamond'
+    return formatAddress(address)
+  }
+
+  const isLoading = source.isLoading || destination.isLoading
+  const loadError = source.error || destination.error
+
+  return (
+    <div className="bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-800 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-semibold">Token Movement Ledger</h3>
+        {isLoading && <Loader2 className="h-4 w-4 animate-spin text-gray-500" />}
+      </div>
+
+      {loadError && (
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+          Some receipts could not be loaded: {loadError}
+        </p>
+      )}
+
+      {/* LI.FI Diamond events */}
+      {events.length > 0 && (
+        <div className="mb-6">
+          <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">LI.FI Events</h4>
+          <div className="space-y-2">
+            {events.map(event => (
+              <div
+                key={`${event.hop}-${event.logIndex}`}
+                className="flex items-start justify-between gap-3 p-3 bg-gray-50 dark:bg-gray-800 rounded-md text-sm"
+              >
+                <div className="min-w-0">
+                  <p className="font-medium">{event.name}</p>
+                  <p className="text-xs text-gray-600 dark:text-gray-400 break-all">
+                    {describeEvent(event)}
+                  </p>
+                </div>
+                <span className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                  {chains.getChainName(event.chainId)} · log {event.logIndex}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* ERC-20 transfers, hop by hop */}
+      {ledger.length > 0 ? (
+        <div className="mb-6">
+          <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Token Transfers</h4>
+          <div className="divide-y divide-gray-200 dark:divide-gray-800 border border-gray-200 dark:border-gray-800 rounded-md">
+            {ledger.map(entry => (
+              <div
+                key={`${entry.hop}-${entry.logIndex}`}
+                className="grid grid-cols-1 sm:grid-cols-[7rem_1fr_auto] items-center gap-2 px-3 py-2 text-sm"
+              >
+                <span className="text-xs text-gray-500 dark:text-gray-400">
+                  {chains.getChainName(entry.chainId)}
+                </span>
+                <span className="flex items-center gap-2 min-w-0">
+                  <span className="truncate">{describeParty(entry.from)}</span>
+                  <ArrowRight className="h-3 w-3 flex-shrink-0 text-gray-400" />
+                  <span className="truncate">{describeParty(entry.to)}</span>
+                </span>
+                <TokenAmount
+                  amount={entry.amount}
+                  token={{ address: entry.token, chainId: entry.chainId }}
+                  className="font-mono text-right"
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+      ) : !isLoading && (
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">
+          No ERC-20 transfers were logged.
+        </p>
+      )}
+
+      {/* Cross-check against LI.FI's includedSteps */}
+      {checks.length > 0 && ledger.length > 0 && (
+        <div>
+          <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Included Steps Check</h4>
+          <div className="space-y-2">
+            {checks.map((check, index) => {
+              const style = CHECK_STYLES[check.result]
+              const Icon = style.icon
+
+              return (
+                <div key={index} className="flex items-start gap-2 text-sm">
+                  <Icon className={cn("h-4 w-4 mt-0.5 flex-shrink-0", style.className)} />
+                  <div className="min-w-0">
+                    <p>
+                      <span className="font-medium">{check.tool}</span>{' '}
+                      {check.side === 'from' ? 'in' : 'out'}:{' '}
+                      <TokenAmount amount={check.amount} token={check.token} />
+                    </p>
+                    <p className="text-xs text-gray-600 dark:text-gray-400">
+                      {style.label}
+                      {check.result === 'amount-differs' && ` (logged: ${check.observedAmounts.join(', ')})`}
+                    </p>
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
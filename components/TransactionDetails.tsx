@@ -1,52 +1,95 @@
 "use client"
 
-import { useEffect, useState, useCallback } from 'react'
-import { TransactionStatus } from '@/types/lifi'
+import { useEffect, useRef, useState, useCallback } from 'react'
+import { StatusResponse, TransactionStatus, TransactionSubstatus } from '@/types/lifi'
 import { getTransactionStatus, ParsedStatusResponse } from '@/lib/api'
 import { cn } from '@/lib/utils'
-import { formatAddress, getStatusColor, getStatusBgColor, getStatusTextColor } from '@/lib/lifi-utils'
+import { formatAddress, getStatusColor, getStatusBgColor, getStatusTextColor, parseStatusResponse } from '@/lib/lifi-utils'
+import { TransactionFlowVisualization } from './TransactionFlowVisualization'
 import { TransactionTimeline } from './TransactionTimeline'
+import { TokenLedger } from './TokenLedger'
+import { TransferReconciliation } from './TransferReconciliation'
 import { ErrorAnalysis } from './ErrorAnalysis'
 import { FeeBreakdown } from './FeeBreakdown'
 import { PerformanceAnalytics } from './PerformanceAnalytics'
+import { useWatchlist } from '@/hooks/useWatchlist'
+import { useSearchHistory } from '@/hooks/useSearchHistory'
+import { useShareTransaction } from '@/hooks/useShareTransaction'
+import { useTransactionStream } from '@/hooks/useLiFiStatus'
 import { 
   RefreshCw, 
   Copy, 
   ExternalLink, 
   AlertCircle,
+  AlertTriangle,
   CheckCircle,
   Clock,
   XCircle,
-  Loader2
+  Loader2,
+  Pin,
+  PinOff,
+  RotateCcw,
+  Share2
 } from 'lucide-react'
 
 interface TransactionDetailsProps {
   txHash: string
+  fromChain?: string
+  toChain?: string
+  bridge?: string
+  // Server-rendered status for permalinks; skips the first client fetch
+  initialStatus?: StatusResponse
 }
 
-export function TransactionDetails({ txHash }: TransactionDetailsProps) {
-  const [status, setStatus] = useState<ParsedStatusResponse | null>(null)
-  const [loading, setLoading] = useState(true)
+export function TransactionDetails({ txHash, fromChain, toChain, bridge, initialStatus }: TransactionDetailsProps) {
+  const [status, setStatus] = useState<ParsedStatusResponse | null>(
+    () => initialStatus ? parseStatusResponse(initialStatus) : null
+  )
+  const [loading, setLoading] = useState(!initialStatus)
   const [error, setError] = useState<Error | null>(null)
   const [isRefreshing, setIsRefreshing] = useState(false)
+  const watchlist = useWatchlist()
+  const { recordStatus } = useSearchHistory()
+  const shareTransaction = useShareTransaction()
 
   const fetchStatus = useCallback(async () => {
     try {
       setError(null)
-      const data = await getTransactionStatus({ txHash })
+      const data = await getTransactionStatus({ txHash, fromChain, toChain, bridge })
       setStatus(data)
+      recordStatus(txHash, data)
     } catch (err) {
       setError(err as Error)
     } finally {
       setLoading(false)
       setIsRefreshing(false)
     }
-  }, [txHash])
+  }, [txHash, fromChain, toChain, bridge, recordStatus])
 
+  const initialStatusRef = useRef(initialStatus)
   useEffect(() => {
+    const serverStatus = initialStatusRef.current
+    initialStatusRef.current = undefined
+    if (serverStatus) {
+      recordStatus(txHash, serverStatus)
+      return
+    }
+
     setLoading(true)
     fetchStatus()
-  }, [txHash, fetchStatus])
+  }, [txHash, fetchStatus, recordStatus])
+
+  // Pending transfers follow the shared SSE stream instead of being re-fetched
+  useTransactionStream(
+    { txHash, fromChain, toChain, bridge },
+    {
+      enabled: status?.status === TransactionStatus.PENDING,
+      onStatusChange: (streamed) => {
+        setStatus(streamed)
+        recordStatus(txHash, streamed)
+      }
+    }
+  )
 
   const handleRefresh = () => {
     setIsRefreshing(true)
@@ -57,7 +100,14 @@ export function TransactionDetails({ txHash }: TransactionDetailsProps) {
     navigator.clipboard.writeText(text)
   }
 
-  const getStatusIcon = (status?: TransactionStatus) => {
+  const getStatusIcon = (status?: TransactionStatus, substatus?: TransactionSubstatus) => {
+    if (status === TransactionStatus.DONE && substatus === TransactionSubstatus.PARTIAL) {
+      return <AlertTriangle className="h-5 w-5" />
+    }
+    if (status === TransactionStatus.DONE && substatus === TransactionSubstatus.REFUNDED) {
+      return <RotateCcw className="h-5 w-5" />
+    }
+
     switch (status) {
       case TransactionStatus.DONE:
         return <CheckCircle className="h-5 w-5" />
@@ -103,9 +153,9 @@ export function TransactionDetails({ txHash }: TransactionDetailsProps) {
       <div className="bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-800 p-6">
         <div className="flex items-center justify-between mb-4">
           <div className="flex items-center gap-3">
-            <div className={cn("p-2 rounded-full", getStatusBgColor(status.status))}>
-              <div className={getStatusTextColor(status.status)}>
-                {getStatusIcon(status.status)}
+            <div className={cn("p-2 rounded-full", getStatusBgColor(status.status, status.substatus))}>
+              <div className={getStatusTextColor(status.status, status.substatus)}>
+                {getStatusIcon(status.status, status.substatus)}
               </div>
             </div>
             <div>
@@ -116,18 +166,51 @@ export function TransactionDetails({ txHash }: TransactionDetailsProps) {
             </div>
           </div>
           
-          <button
-            onClick={handleRefresh}
-            disabled={isRefreshing}
-            className={cn(
-              "p-2 rounded-lg",
-              "hover:bg-gray-100 dark:hover:bg-gray-800",
-              "transition-colors",
-              "disabled:opacity-50"
-            )}
-          >
-            <RefreshCw className={cn("h-4 w-4", isRefreshing && "animate-spin")} />
-          </button>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => watchlist.has(txHash)
+                ? watchlist.remove(txHash)
+                : watchlist.add({
+                  txHash,
+                  fromChain: status.sending.chainId?.toString(),
+                  toChain: status.receiving?.chainId?.toString()
+                })}
+              className={cn(
+                "p-2 rounded-lg",
+                "hover:bg-gray-100 dark:hover:bg-gray-800",
+                "transition-colors",
+                watchlist.has(txHash) && "text-blue-600 dark:text-blue-400"
+              )}
+              title={watchlist.has(txHash) ? 'Stop watching' : 'Watch for status changes'}
+            >
+              {watchlist.has(txHash) ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+            </button>
+
+            <button
+              onClick={() => shareTransaction(txHash, { fromChain, toChain, bridge })}
+              className={cn(
+                "p-2 rounded-lg",
+                "hover:bg-gray-100 dark:hover:bg-gray-800",
+                "transition-colors"
+              )}
+              title="Copy shareable link"
+            >
+              <Share2 className="h-4 w-4" />
+            </button>
+
+            <button
+              onClick={handleRefresh}
+              disabled={isRefreshing}
+              className={cn(
+                "p-2 rounded-lg",
+                "hover:bg-gray-100 dark:hover:bg-gray-800",
+                "transition-colors",
+                "disabled:opacity-50"
+              )}
+            >
+              <RefreshCw className={cn("h-4 w-4", isRefreshing && "animate-spin")} />
+            </button>
+          </div>
         </div>
 
         {status.substatusMessage && (
@@ -139,11 +222,28 @@ export function TransactionDetails({ txHash }: TransactionDetailsProps) {
         )}
       </div>
 
+      {/* Partial / Refunded Reconciliation */}
+      {(status.isPartial || status.isRefunded) && (
+        <TransferReconciliation status={status} />
+      )}
+
+      {/* Transfer Flow; this component already follows the stream */}
+      <TransactionFlowVisualization
+        status={status}
+        onRefresh={handleRefresh}
+        isRefreshing={isRefreshing}
+        live={false}
+      />
+
       {/* Transaction Timeline */}
       <TransactionTimeline status={status} />
 
+      {/* Token Movement Ledger */}
+      <TokenLedger status={status} />
+
       {/* Error Analysis */}
       {(status.status === TransactionStatus.FAILED || 
+        status.isPending ||
         status.substatus || 
         status.substatusMessage?.includes('error') ||
         status.substatusMessage?.includes('failed')) && (
@@ -2,8 +2,17 @@
 
 import { useState, useEffect, useMemo } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
-import { ParsedStatusResponse } from '@/lib/lifi-utils'
-import { TransactionStatus, TransactionSubstatus } from '@/types/lifi'
+import {
+  ParsedStatusResponse,
+  getBridgeToolName,
+  getIncludedSteps,
+  getStepSlippage,
+  isCrossChainStep
+} from '@/lib/lifi-utils'
+import { IncludedStep, TokenInfo, TransactionStatus, TransactionSubstatus } from '@/types/lifi'
+import { useTransactionStream } from '@/hooks/useLiFiStatus'
+import { useChainRegistry } from '@/hooks/useChainRegistry'
+import { useDurationBaseline } from '@/hooks/useDurationBaseline'
 import { FlowStage } from './flow/FlowStage'
 import { FlowConnector } from './flow/FlowConnector'
 import { ProgressTimer } from './flow/ProgressTimer'
@@ -22,6 +31,8 @@ interface TransactionFlowVisualizationProps {
   status: ParsedStatusResponse
   onRefresh?: () => void
   isRefreshing?: boolean
+  // Follow the SSE status stream while the transfer is pending; set false for a static snapshot
+  live?: boolean
 }
 
 export interface FlowStageData {
@@ -32,6 +43,7 @@ export interface FlowStageData {
   progress: number
   details: {
     chain?: string
+    chainId?: number
     amount?: string
     usdValue?: string
     gasUsed?: string
@@ -41,15 +53,48 @@ export interface FlowStageData {
     timestamp?: number
     error?: string
   }
+  // Set on stages built from an included step
+  step?: {
+    tool: string
+    fromToken?: TokenInfo
+    fromAmount?: string
+    toToken?: TokenInfo
+    toAmount?: string
+    bridgedAmount?: string
+    // Percent of USD value gained (positive) or lost across the step
+    slippage?: number
+  }
   estimatedTime?: string
   completedTime?: string
 }
 
 export function TransactionFlowVisualization({
-  status,
+  status: initialStatus,
   onRefresh,
-  isRefreshing = false
+  isRefreshing = false,
+  live = true
 }: TransactionFlowVisualizationProps) {
+  const stream = useTransactionStream(
+    {
+      txHash: initialStatus.sending.txHash,
+      fromChain: initialStatus.sending.chainId?.toString(),
+      toChain: initialStatus.receiving?.chainId?.toString()
+    },
+    { enabled: live && initialStatus.status === TransactionStatus.PENDING }
+  )
+
+  // Prefer the streamed status once it has arrived for this transfer
+  const status = stream.status?.sending.txHash === initialStatus.sending.txHash
+    ? stream.status
+    : initialStatus
+
+  // Names upgrade from the built-in fallback once the LI.FI chain list loads
+  const chains = useChainRegistry()
+  const sourceChainName = status.sending.chainId ? chains.getChainName(status.sending.chainId) : undefined
+  const destinationChainName = status.receiving?.chainId ? chains.getChainName(status.receiving.chainId) : undefined
+
+  const baseline = useDurationBaseline(status.tool, status.sending.chainId, status.receiving?.chainId)
+
   const [expandedStage, setExpandedStage] = useState<string | null>(null)
   const [showConfetti, setShowConfetti] = useState(false)
   const [lastStatus, setLastStatus] = useState<TransactionStatus | null>(null)
@@ -59,10 +104,10 @@ export function TransactionFlowVisualization({
     const stages: FlowStageData[] = []
 
     // Source Chain Stage
-    stages.push({
+    const sourceStage: FlowStageData = {
       id: 'source',
       title: 'Source Chain',
-      subtitle: status.sending.chainId ? `Chain ${status.sending.chainId}` : 'Initiating',
+      subtitle: sourceChainName || 'Initiating',
       status: status.sending.isCompleted ? 'success' :
         status.sending.isPending ? 'processing' :
           status.isFailed ? 'failed' : 'pending',
@@ -70,78 +115,121 @@ export function TransactionFlowVisualization({
         status.sending.isPending ? 75 :
           status.status === TransactionStatus.PENDING ? 50 : 0,
       details: {
-        chain: status.sending.chainId?.toString(),
+        chain: sourceChainName,
+        chainId: status.sending.chainId,
         amount: status.sending.formattedAmount,
         usdValue: status.sending.amountUSD,
         gasUsed: status.sending.gasUsed,
         gasPrice: status.sending.gasPrice,
         txHash: status.sending.txHash,
-        txLink: status.sending.txLink,
+        txLink: status.sending.txLink || status.sending.explorerUrl,
         timestamp: status.sending.timestamp
       },
       estimatedTime: !status.sending.isCompleted ? '1-3 min' : undefined,
       completedTime: status.sending.timestamp ?
         new Date(status.sending.timestamp * 1000).toLocaleTimeString() : undefined
-    })
+    }
+    stages.push(sourceStage)
 
-    // Bridge Processing Stage
-    const bridgeStatus = getBridgeStatus(status)
-    stages.push({
-      id: 'bridge',
-      title: 'Bridge Processing',
-      subtitle: status.tool || 'Cross-chain Bridge',
-      status: bridgeStatus.status,
-      progress: bridgeStatus.progress,
+    // Destination Chain Stage, added after the processing stages
+    const destinationStage: FlowStageData | null = status.receiving || status.status === TransactionStatus.DONE ? {
+      id: 'destination',
+      title: status.isRefunded ? 'Refund' : 'Destination Chain',
+      subtitle: destinationChainName || 'Completing',
+      status: status.receiving?.isCompleted ? 'success' :
+        status.receiving?.isPending ? 'processing' :
+          status.status === TransactionStatus.DONE ? 'success' :
+            status.isFailed ? 'failed' : 'waiting',
+      progress: status.receiving?.isCompleted ? 100 :
+        status.status === TransactionStatus.DONE ? 100 :
+          status.substatus === TransactionSubstatus.WAIT_DESTINATION_TRANSACTION ? 25 : 0,
       details: {
-        amount: status.sending.formattedAmount,
-        usdValue: status.sending.amountUSD,
-        error: bridgeStatus.error
+        chain: destinationChainName,
+        chainId: status.receiving?.chainId,
+        amount: status.receiving?.formattedAmount,
+        usdValue: status.receiving?.amountUSD,
+        gasUsed: status.receiving?.gasUsed,
+        gasPrice: status.receiving?.gasPrice,
+        txHash: status.receiving?.txHash,
+        txLink: status.receiving?.txLink || status.receiving?.explorerUrl,
+        timestamp: status.receiving?.timestamp
       },
-      estimatedTime: bridgeStatus.estimatedTime,
-      completedTime: bridgeStatus.completedTime
-    })
+      estimatedTime: !status.receiving?.isCompleted && status.status !== TransactionStatus.DONE ?
+        '5-15 min' : undefined,
+      completedTime: status.receiving?.timestamp ?
+        new Date(status.receiving.timestamp * 1000).toLocaleTimeString() : undefined
+    } : null
+
+    const bridgeStatus = getBridgeStatus(status)
+    const includedSteps = getIncludedSteps(status)
+
+    if (includedSteps.length > 0) {
+      // One stage per included step. Steps before the cross-chain hop run in the
+      // source transaction and steps after it in the destination transaction.
+      let crossedChains = false
+
+      includedSteps.forEach((step, index) => {
+        const isBridge = isCrossChainStep(step)
+        const parent = isBridge ? null : crossedChains ? destinationStage : sourceStage
+        if (isBridge) crossedChains = true
 
-    // Destination Chain Stage
-    if (status.receiving || status.status === TransactionStatus.DONE) {
+        const stepStatus = parent ? parent.status : bridgeStatus.status
+
+        stages.push({
+          id: `step-${index}`,
+          title: getStepTitle(step),
+          subtitle: step.toolDetails?.name || getBridgeToolName(step.tool),
+          status: stepStatus,
+          progress: parent ? parent.progress : bridgeStatus.progress,
+          details: {
+            error: isBridge ? bridgeStatus.error : undefined
+          },
+          step: {
+            tool: step.tool,
+            fromToken: step.fromToken,
+            fromAmount: step.fromAmount,
+            toToken: step.toToken,
+            toAmount: step.toAmount,
+            bridgedAmount: step.bridgedAmount,
+            slippage: getStepSlippage(step)
+          },
+          estimatedTime: isBridge ? bridgeStatus.estimatedTime : undefined,
+          completedTime: isBridge ? bridgeStatus.completedTime : parent?.completedTime
+        })
+      })
+    } else {
+      // Bridge Processing Stage
       stages.push({
-        id: 'destination',
-        title: 'Destination Chain',
-        subtitle: status.receiving?.chainId ? `Chain ${status.receiving.chainId}` : 'Completing',
-        status: status.receiving?.isCompleted ? 'success' :
-          status.receiving?.isPending ? 'processing' :
-            status.status === TransactionStatus.DONE ? 'success' :
-              status.isFailed ? 'failed' : 'waiting',
-        progress: status.receiving?.isCompleted ? 100 :
-          status.status === TransactionStatus.DONE ? 100 :
-            status.substatus === TransactionSubstatus.WAIT_DESTINATION_TRANSACTION ? 25 : 0,
+        id: 'bridge',
+        title: 'Bridge Processing',
+        subtitle: status.tool || 'Cross-chain Bridge',
+        status: bridgeStatus.status,
+        progress: bridgeStatus.progress,
         details: {
-          chain: status.receiving?.chainId?.toString(),
-          amount: status.receiving?.formattedAmount,
-          usdValue: status.receiving?.amountUSD,
-          gasUsed: status.receiving?.gasUsed,
-          gasPrice: status.receiving?.gasPrice,
-          txHash: status.receiving?.txHash,
-          txLink: status.receiving?.txLink,
-          timestamp: status.receiving?.timestamp
+          amount: status.sending.formattedAmount,
+          usdValue: status.sending.amountUSD,
+          error: bridgeStatus.error
         },
-        estimatedTime: !status.receiving?.isCompleted && status.status !== TransactionStatus.DONE ?
-          '5-15 min' : undefined,
-        completedTime: status.receiving?.timestamp ?
-          new Date(status.receiving.timestamp * 1000).toLocaleTimeString() : undefined
+        estimatedTime: bridgeStatus.estimatedTime,
+        completedTime: bridgeStatus.completedTime
       })
     }
 
+    if (destinationStage) {
+      stages.push(destinationStage)
+    }
+
     return stages
-  }, [status])
+  }, [status, sourceChainName, destinationChainName])
 
-  // Trigger confetti on completion
+  // Trigger confetti on completion, but not for partial or refunded outcomes
   useEffect(() => {
-    if (lastStatus !== TransactionStatus.DONE && status.status === TransactionStatus.DONE) {
+    if (lastStatus !== TransactionStatus.DONE && status.isCompleted) {
       setShowConfetti(true)
       setTimeout(() => setShowConfetti(false), 3000)
     }
     setLastStatus(status.status)
-  }, [status.status, lastStatus])
+  }, [status.status, status.isCompleted, lastStatus])
 
   const overallProgress = Math.round(
     flowStages.reduce((sum, stage) => sum + stage.progress, 0) / flowStages.length
@@ -204,10 +292,19 @@ export function TransactionFlowVisualization({
         </div>
 
         <div className="flex items-center gap-3">
+          {stream.isConnected && (
+            <span className="flex items-center gap-1.5 text-xs font-medium text-green-600 dark:text-green-400">
+              <span className="h-2 w-2 rounded-full bg-green-500 animate-pulse" />
+              Live
+            </span>
+          )}
+
           <ProgressTimer
             status={status.status}
             substatus={status.substatus}
             estimatedTime={status.estimatedTimeRemaining}
+            startTime={status.isPending && status.sending.timestamp ? status.sending.timestamp * 1000 : undefined}
+            baseline={baseline}
           />
 
           {onRefresh && (
@@ -248,7 +345,7 @@ export function TransactionFlowVisualization({
       {/* Flow Visualization */}
       <div className="relative">
         {/* Desktop Layout */}
-        <div className="hidden md:flex items-center justify-between space-x-6">
+        <div className="hidden md:flex items-center justify-between space-x-6 overflow-x-auto pb-2">
           {flowStages.map((stage, index) => (
             <div key={stage.id} className="flex items-center flex-1">
               <div className="flex-1">
@@ -320,6 +417,17 @@ export function TransactionFlowVisualization({
   )
 }
 
+// Helper function to name an included step by what it does
+function getStepTitle(step: IncludedStep): string {
+  if (isCrossChainStep(step)) return 'Bridge'
+  if (step.tool === 'feeCollection') return 'Fee Collection'
+  if (step.fromToken && step.toToken &&
+      step.fromToken.address.toLowerCase() === step.toToken.address.toLowerCase()) {
+    return 'Transfer'
+  }
+  return 'Swap'
+}
+
 // Helper function to determine bridge processing status
 function getBridgeStatus(status: ParsedStatusResponse) {
   const { status: txStatus, substatus, sending, receiving } = status
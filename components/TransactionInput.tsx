@@ -1,16 +1,22 @@
 "use client"
 
 import { useState, useEffect, useRef } from 'react'
-import { Search, Hash, Loader2, Clipboard, CheckCircle2, AlertCircle, Copy, ChevronDown, ChevronUp, Zap, ExternalLink } from 'lucide-react'
+import { Search, Hash, Loader2, Clipboard, CheckCircle2, AlertCircle, Copy, ChevronDown, ChevronUp, Zap, ExternalLink, X } from 'lucide-react'
+import { TransactionStatus } from '@/types/lifi'
 import { cn } from '@/lib/utils'
+import { classifyTxHash, describeInvalidHash, HashKind } from '@/lib/hash-classifier'
+import { filterHistory } from '@/lib/history-store'
+import { getBridgeToolName, getChainName } from '@/lib/lifi-utils'
+import { useSearchHistory } from '@/hooks/useSearchHistory'
 
 interface TransactionInputProps {
   onSelectTransaction: (txHash: string) => void
+  onSelectWallet?: (address: string) => void
 }
 
 interface ValidationResult {
   isValid: boolean
-  type: 'ethereum' | 'lifi' | 'invalid'
+  type: HashKind | 'address' | 'invalid'
   message: string
 }
 
@@ -24,9 +30,28 @@ const EXAMPLE_TRANSACTIONS = [
     hash: '0x5e9bd1e1232bcfb28e660ce116fe910aa058345604334e5f560034f51ef5327c',
     type: 'LI.FI Transaction ID',
     description: 'LI.FI cross-chain transfer ID'
+  },
+  {
+    hash: '5wHu1qwD7q5ifaN5nwdcDqNFo53GJqa7nLp2BeeEpcHCusb4GzARz4GjgzsEHMkBMgCJMGa6GSQ1VG96Exv8kt2W',
+    type: 'Solana Transaction Signature',
+    description: 'Solana leg of a Mayan or Allbridge transfer'
+  },
+  {
+    hash: '0x552008c0f6870c2f77e5cc1d2eb9bdff03e30ea0',
+    type: 'Wallet Address',
+    description: 'List every LI.FI transfer for a wallet'
   }
 ]
 
+const HISTORY_STATUS_FILTERS: Array<TransactionStatus | 'ALL'> = [
+  'ALL',
+  TransactionStatus.PENDING,
+  TransactionStatus.DONE,
+  TransactionStatus.FAILED
+]
+
+const MAX_RECENT_COMMANDS = 8
+
 const PLACEHOLDER_MESSAGES = [
   "$ debug 0x32a4b9d9cdec66b28e660ce116fe910aa058345604334e5f560034f51ef5327c",
   "$ analyze 0xe1ffdcf09d5aa92a2d89b1b39db3f8cadf09428a296cce0d5e387595ac83d08f",
@@ -34,11 +59,13 @@ const PLACEHOLDER_MESSAGES = [
   "$ inspect 0xa7f8b2c3d4e5f6789abcdef012345678901234567890abcdef0123456789abc"
 ]
 
-export function TransactionInput({ onSelectTransaction }: TransactionInputProps) {
+export function TransactionInput({ onSelectTransaction, onSelectWallet }: TransactionInputProps) {
   const [input, setInput] = useState('')
   const [isSearching, setIsSearching] = useState(false)
   const [validation, setValidation] = useState<ValidationResult>({ isValid: false, type: 'invalid', message: '' })
-  const [recentSearches, setRecentSearches] = useState<string[]>([])
+  const history = useSearchHistory()
+  const [historySearch, setHistorySearch] = useState('')
+  const [historyStatus, setHistoryStatus] = useState<TransactionStatus | 'ALL'>('ALL')
   const [showExamples, setShowExamples] = useState(false)
   const [placeholderIndex, setPlaceholderIndex] = useState(0)
   const [pasteSuccess, setPasteSuccess] = useState(false)
@@ -54,18 +81,6 @@ export function TransactionInput({ onSelectTransaction }: TransactionInputProps)
     return () => clearInterval(interval)
   }, [])
 
-  // Load recent searches from localStorage
-  useEffect(() => {
-    const saved = localStorage.getItem('lifi-lens-recent-searches')
-    if (saved) {
-      try {
-        setRecentSearches(JSON.parse(saved))
-      } catch (e) {
-        console.error('Failed to load recent searches:', e)
-      }
-    }
-  }, [])
-
   const validateTransactionInput = (value: string): ValidationResult => {
     if (!value.trim()) {
       return { isValid: false, type: 'invalid', message: '' }
@@ -74,53 +89,31 @@ export function TransactionInput({ onSelectTransaction }: TransactionInputProps)
     // Remove whitespace
     const cleanValue = value.trim()
 
-    // Check for Ethereum transaction hash format (0x + 64 hex characters)
-    const ethHashRegex = /^0x[a-fA-F0-9]{64}$/
-    
-    if (ethHashRegex.test(cleanValue)) {
+    // Wallet addresses (0x + 40 hex characters) open the transfer history view
+    if (onSelectWallet && /^0x[a-fA-F0-9]{40}$/.test(cleanValue)) {
       return {
         isValid: true,
-        type: 'ethereum',
-        message: 'Valid Ethereum transaction hash detected'
+        type: 'address',
+        message: 'Valid wallet address detected - will list its LI.FI transfers'
       }
     }
 
-    // Check if it starts with 0x but has wrong length
-    if (cleanValue.startsWith('0x')) {
-      if (cleanValue.length < 66) {
-        return {
-          isValid: false,
-          type: 'invalid',
-          message: `Too short - need ${66 - cleanValue.length} more characters`
-        }
-      } else if (cleanValue.length > 66) {
-        return {
-          isValid: false,
-          type: 'invalid',
-          message: 'Too long - transaction hashes are 66 characters'
-        }
-      } else if (!/^0x[a-fA-F0-9]+$/.test(cleanValue)) {
-        return {
-          isValid: false,
-          type: 'invalid',
-          message: 'Contains invalid characters - only 0-9 and A-F allowed'
-        }
-      }
-    }
+    const classification = classifyTxHash(cleanValue)
 
-    // If it doesn't start with 0x, check if it's just hex that needs 0x prefix
-    if (/^[a-fA-F0-9]{64}$/.test(cleanValue)) {
+    if (classification) {
       return {
-        isValid: false,
-        type: 'invalid',
-        message: 'Add "0x" prefix to make it a valid transaction hash'
+        isValid: true,
+        type: classification.kind,
+        message: classification.kind === 'bitcoin'
+          ? `Valid ${classification.label} detected (add "0x" if this is an EVM hash)`
+          : `Valid ${classification.label} detected`
       }
     }
 
     return {
       isValid: false,
       type: 'invalid',
-      message: 'Please enter a valid transaction hash (0x + 64 hex characters)'
+      message: describeInvalidHash(cleanValue)
     }
   }
 
@@ -151,12 +144,14 @@ export function TransactionInput({ onSelectTransaction }: TransactionInputProps)
     setError(null)
     
     try {
-      // Save to recent searches
-      const newRecentSearches = [searchValue, ...recentSearches.filter(s => s !== searchValue)].slice(0, 5)
-      setRecentSearches(newRecentSearches)
-      localStorage.setItem('lifi-lens-recent-searches', JSON.stringify(newRecentSearches))
-      
-      onSelectTransaction(searchValue)
+      // Save to the shared search history
+      history.recordLookup(searchValue, validationResult.type === 'address' ? 'wallet' : 'transaction')
+
+      if (validationResult.type === 'address') {
+        onSelectWallet?.(searchValue)
+      } else {
+        onSelectTransaction(searchValue)
+      }
       setInput('')
       setValidation({ isValid: false, type: 'invalid', message: '' })
     } catch (err) {
@@ -295,11 +290,11 @@ export function TransactionInput({ onSelectTransaction }: TransactionInputProps)
             <div className="flex items-center gap-6 text-xs text-gray-500 mb-4">
               <div className="flex items-center gap-2">
                 <div className={cn("w-2 h-2 rounded-full", validation.isValid ? "bg-green-400" : "bg-gray-600")}></div>
-                <span>Hash Format</span>
+                <span>{validation.isValid && validation.type !== 'address' ? classifyTxHash(input)?.label : 'Hash Format'}</span>
               </div>
               <div className="flex items-center gap-2">
                 <div className="w-2 h-2 bg-blue-400 rounded-full"></div>
-                <span>Network: Multi-chain</span>
+                <span>Network: EVM · Solana · Bitcoin · Sui</span>
               </div>
               <div className="flex items-center gap-2">
                 <div className="w-2 h-2 bg-lifi-secondary rounded-full"></div>
@@ -400,25 +395,77 @@ export function TransactionInput({ onSelectTransaction }: TransactionInputProps)
       </div>
 
       {/* Recent Commands */}
-      {recentSearches.length > 0 && (
+      {history.entries.length > 0 && (
         <div className="mt-6">
-          <div className="flex items-center gap-2 mb-3 text-sm text-gray-400">
-            <Hash className="h-4 w-4" />
-            <span className="font-mono">Recent Commands</span>
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+            <div className="flex items-center gap-2 text-sm text-gray-400">
+              <Hash className="h-4 w-4" />
+              <span className="font-mono">Recent Commands</span>
+            </div>
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                value={historySearch}
+                onChange={(e) => setHistorySearch(e.target.value)}
+                placeholder="grep history..."
+                className="w-40 px-2 py-1 text-xs font-mono bg-gray-800 border border-gray-700 rounded text-gray-300 placeholder:text-gray-500 focus:outline-none focus:border-lifi-primary/50"
+              />
+              <div className="flex rounded border border-gray-700 overflow-hidden">
+                {HISTORY_STATUS_FILTERS.map(filter => (
+                  <button
+                    key={filter}
+                    onClick={() => setHistoryStatus(filter)}
+                    className={cn(
+                      "px-2 py-1 text-xs font-mono transition-colors",
+                      historyStatus === filter
+                        ? "bg-lifi-primary text-white"
+                        : "bg-gray-800 text-gray-400 hover:bg-gray-700"
+                    )}
+                  >
+                    {filter.toLowerCase()}
+                  </button>
+                ))}
+              </div>
+            </div>
           </div>
           <div className="flex flex-wrap gap-2">
-            {recentSearches.map((hash) => (
-              <button
-                key={hash}
-                onClick={() => handleSearch(hash)}
-                className="group inline-flex items-center gap-2 px-3 py-2 text-xs font-mono bg-gray-800 border border-gray-700 rounded hover:border-lifi-primary/50 hover:bg-gray-700 transition-all duration-200"
-              >
-                <span className="text-gray-400 group-hover:text-lifi-primary">
-                  $ debug {hash.slice(0, 8)}...{hash.slice(-6)}
-                </span>
-                <ExternalLink className="h-3 w-3 text-gray-500 group-hover:text-lifi-accent" />
-              </button>
-            ))}
+            {filterHistory(history.entries, { search: historySearch, status: historyStatus })
+              .slice(0, MAX_RECENT_COMMANDS)
+              .map((entry) => (
+                <div
+                  key={entry.query}
+                  className="group inline-flex items-center gap-2 px-3 py-2 text-xs font-mono bg-gray-800 border border-gray-700 rounded hover:border-lifi-primary/50 hover:bg-gray-700 transition-all duration-200"
+                >
+                  <button
+                    onClick={() => handleSearch(entry.query)}
+                    className="inline-flex items-center gap-2"
+                    title={entry.fromChainId
+                      ? `${getChainName(entry.fromChainId)} → ${getChainName(entry.toChainId)} via ${getBridgeToolName(entry.tool)}`
+                      : undefined}
+                  >
+                    {entry.status && (
+                      <span className={cn(
+                        "w-2 h-2 rounded-full",
+                        entry.status === TransactionStatus.DONE ? "bg-green-400" :
+                          entry.status === TransactionStatus.FAILED ? "bg-red-400" :
+                            entry.status === TransactionStatus.PENDING ? "bg-yellow-400" : "bg-gray-500"
+                      )} />
+                    )}
+                    <span className="text-gray-400 group-hover:text-lifi-primary">
+                      $ {entry.kind === 'wallet' ? 'wallet' : 'debug'} {entry.query.slice(0, 8)}...{entry.query.slice(-6)}
+                    </span>
+                    {entry.amount && <span className="text-gray-500">{entry.amount}</span>}
+                    <ExternalLink className="h-3 w-3 text-gray-500 group-hover:text-lifi-accent" />
+                  </button>
+                  <button
+                    onClick={() => history.remove(entry.query)}
+                    className="opacity-0 group-hover:opacity-100 text-gray-500 hover:text-red-400 transition-opacity"
+                    title="Remove from history"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </div>
+              ))}
           </div>
         </div>
       )}
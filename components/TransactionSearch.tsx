@@ -2,16 +2,35 @@
 
 import { useState } from 'react'
 import { Search, Hash, Loader2 } from 'lucide-react'
+import { TransactionStatus } from '@/types/lifi'
 import { cn } from '@/lib/utils'
+import { filterHistory } from '@/lib/history-store'
+import { getStatusTextColor } from '@/lib/lifi-utils'
+import { useSearchHistory } from '@/hooks/useSearchHistory'
 
 interface TransactionSearchProps {
   onSelectTransaction: (txHash: string) => void
 }
 
+const STATUS_FILTERS: { value: TransactionStatus | 'ALL'; label: string }[] = [
+  { value: 'ALL', label: 'All' },
+  { value: TransactionStatus.PENDING, label: 'Pending' },
+  { value: TransactionStatus.DONE, label: 'Done' },
+  { value: TransactionStatus.FAILED, label: 'Failed' }
+]
+
 export function TransactionSearch({ onSelectTransaction }: TransactionSearchProps) {
   const [searchInput, setSearchInput] = useState('')
   const [isSearching, setIsSearching] = useState(false)
-  const [recentSearches, setRecentSearches] = useState<string[]>([])
+  const [statusFilter, setStatusFilter] = useState<TransactionStatus | 'ALL'>('ALL')
+  const history = useSearchHistory()
+
+  // The search box doubles as a filter over previous lookups
+  const recentSearches = filterHistory(history.entries, {
+    search: searchInput,
+    status: statusFilter,
+    kind: 'transaction'
+  }).slice(0, 5)
 
   const handleSearch = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -24,11 +43,7 @@ export function TransactionSearch({ onSelectTransaction }: TransactionSearchProp
     try {
       onSelectTransaction(trimmedInput)
       
-      // Add to recent searches
-      setRecentSearches(prev => {
-        const updated = [trimmedInput, ...prev.filter(s => s !== trimmedInput)]
-        return updated.slice(0, 5) // Keep only last 5
-      })
+      history.recordLookup(trimmedInput, 'transaction')
       
       setSearchInput('')
     } finally {
@@ -83,18 +98,37 @@ export function TransactionSearch({ onSelectTransaction }: TransactionSearchProp
         </button>
       </form>
 
-      {recentSearches.length > 0 && (
+      {history.entries.length > 0 && (
         <div className="mt-4">
-          <p className="text-xs font-medium text-gray-600 dark:text-gray-400 mb-2">
-            Recent searches
-          </p>
+          <div className="flex items-center justify-between mb-2">
+            <p className="text-xs font-medium text-gray-600 dark:text-gray-400">
+              Recent searches
+            </p>
+            <div className="flex gap-1">
+              {STATUS_FILTERS.map(filter => (
+                <button
+                  key={filter.value}
+                  onClick={() => setStatusFilter(filter.value)}
+                  className={cn(
+                    "px-2 py-0.5 text-xs rounded",
+                    statusFilter === filter.value
+                      ? "bg-blue-600 text-white"
+                      : "text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800"
+                  )}
+                >
+                  {filter.label}
+                </button>
+              ))}
+            </div>
+          </div>
           <div className="flex flex-wrap gap-2">
-            {recentSearches.map((hash) => (
+            {recentSearches.map((entry) => (
               <button
-                key={hash}
+                key={entry.query}
                 onClick={() => {
-                  setSearchInput(hash)
-                  onSelectTransaction(hash)
+                  setSearchInput(entry.query)
+                  history.recordLookup(entry.query, 'transaction')
+                  onSelectTransaction(entry.query)
                 }}
                 className={cn(
                   "inline-flex items-center gap-1.5",
@@ -107,9 +141,17 @@ export function TransactionSearch({ onSelectTransaction }: TransactionSearchProp
                 )}
               >
                 <Hash className="h-3 w-3" />
-                <span className="font-mono">{hash.slice(0, 8)}...{hash.slice(-6)}</span>
+                <span className="font-mono">{entry.query.slice(0, 8)}...{entry.query.slice(-6)}</span>
+                {entry.status && (
+                  <span className={getStatusTextColor(entry.status, entry.substatus)}>
+                    {entry.status.toLowerCase()}
+                  </span>
+                )}
               </button>
             ))}
+            {recentSearches.length === 0 && (
+              <p className="text-xs text-gray-500 dark:text-gray-400">No matching searches</p>
+            )}
           </div>
         </div>
       )}
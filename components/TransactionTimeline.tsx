@@ -1,8 +1,10 @@
 "use client"
 
 import { StatusResponse, TransactionInfo } from '@/types/lifi'
-import { formatAmount, formatUSD } from '@/lib/utils'
-import { getChainName } from '@/lib/lifi-utils'
+import { TokenAmount } from './TokenAmount'
+import { getChainName, generateExplorerUrl } from '@/lib/lifi-utils'
+import { formatTokenAmount } from '@/lib/token-service'
+import { useChainRegistry } from '@/hooks/useChainRegistry'
 import { ArrowRight, Check, Clock, ExternalLink } from 'lucide-react'
 import { format } from 'date-fns'
 
@@ -10,7 +12,20 @@ interface TransactionTimelineProps {
   status: StatusResponse
 }
 
+// gasUsed × gasPrice in the native token, or undefined if either is not an integer
+function formatGasCost(tx: TransactionInfo, decimals: number, symbol: string): string | undefined {
+  if (!tx.gasUsed || !tx.gasPrice) return undefined
+
+  try {
+    return formatTokenAmount((BigInt(tx.gasUsed) * BigInt(tx.gasPrice)).toString(), decimals, symbol)
+  } catch {
+    return undefined
+  }
+}
+
 export function TransactionTimeline({ status }: TransactionTimelineProps) {
+  const chains = useChainRegistry()
+
   const renderTransactionCard = (
     title: string,
     tx: TransactionInfo | undefined,
@@ -19,6 +34,9 @@ export function TransactionTimeline({ status }: TransactionTimelineProps) {
     if (!tx) return null
 
     const isComplete = tx.txHash && tx.timestamp
+    const txLink = tx.txLink || generateExplorerUrl(tx.txHash, tx.chainId)
+    const nativeToken = chains.getNativeToken(tx.chainId)
+    const gasCost = formatGasCost(tx, nativeToken?.decimals ?? 18, nativeToken?.symbol || 'native')
 
     return (
       <div className="flex-1">
@@ -46,24 +64,22 @@ export function TransactionTimeline({ status }: TransactionTimelineProps) {
               <div className="flex justify-between text-sm">
                 <span className="text-gray-600 dark:text-gray-400">Amount</span>
                 <div className="text-right">
-                  <div className="font-medium">
-                    {formatAmount(tx.amount, tx.token.decimals)} {tx.token.symbol}
-                  </div>
-                  {tx.amountUSD && (
-                    <div className="text-xs text-gray-500 dark:text-gray-400">
-                      {formatUSD(tx.amountUSD)}
-                    </div>
-                  )}
+                  <TokenAmount
+                    amount={tx.amount}
+                    token={tx.token}
+                    amountUSD={tx.amountUSD}
+                    showUSD
+                    className="block font-medium"
+                    usdClassName="text-xs text-gray-500 dark:text-gray-400"
+                  />
                 </div>
               </div>
             )}
 
-            {tx.gasUsed && tx.gasPrice && (
+            {gasCost && (
               <div className="flex justify-between text-sm">
                 <span className="text-gray-600 dark:text-gray-400">Gas Cost</span>
-                <span className="font-mono text-xs">
-                  {(parseFloat(tx.gasUsed) * parseFloat(tx.gasPrice) / 1e18).toFixed(6)} ETH
-                </span>
+                <span className="font-mono text-xs">{gasCost}</span>
               </div>
             )}
 
@@ -76,9 +92,9 @@ export function TransactionTimeline({ status }: TransactionTimelineProps) {
               </div>
             )}
 
-            {tx.txLink && (
+            {txLink && (
               <a
-                href={tx.txLink}
+                href={txLink}
                 target="_blank"
                 rel="noopener noreferrer"
                 className="mt-2 flex items-center justify-center gap-1 text-sm text-blue-600 hover:text-blue-700 py-2 px-3 bg-blue-50 dark:bg-blue-900/20 rounded-md"
@@ -0,0 +1,89 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { ArrowLeft } from "lucide-react"
+import { StatusResponse } from "@/types/lifi"
+import { Header } from "@/components/layout/Header"
+import { Footer } from "@/components/layout/Footer"
+import { CommandPalette } from "@/components/features/CommandPalette"
+import { ExportDialog } from "@/components/features/ExportDialog"
+import { TransactionDetails } from "@/components/TransactionDetails"
+import { ErrorBoundary } from "@/components/ErrorBoundary"
+import { useShareTransaction } from "@/hooks/useShareTransaction"
+import { getTransactionPath } from "@/lib/permalink"
+
+interface TransactionViewProps {
+  txHash: string
+  fromChain?: string
+  toChain?: string
+  bridge?: string
+  initialStatus?: StatusResponse
+}
+
+/**
+ * Standalone view behind /tx/[hash] permalinks
+ */
+export function TransactionView({ txHash, fromChain, toChain, bridge, initialStatus }: TransactionViewProps) {
+  const router = useRouter()
+  const [commandPaletteOpen, setCommandPaletteOpen] = useState(false)
+  const [exportDialogOpen, setExportDialogOpen] = useState(false)
+  const shareTransaction = useShareTransaction()
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header onOpenCommandPalette={() => setCommandPaletteOpen(true)} />
+
+      <main className="flex-1">
+        <div className="container mx-auto px-4 py-8">
+          <div className="max-w-7xl mx-auto">
+            <Link
+              href="/"
+              className="inline-flex items-center gap-2 mb-6 text-sm text-muted-foreground hover:text-foreground transition-colors"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              Back to search
+            </Link>
+
+            <div className="mb-6">
+              <h1 className="text-2xl font-bold">Transaction</h1>
+              <p className="mt-1 font-mono text-sm text-muted-foreground break-all">{txHash}</p>
+            </div>
+
+            <ErrorBoundary>
+              <div data-export-target>
+                <TransactionDetails
+                  txHash={txHash}
+                  fromChain={fromChain}
+                  toChain={toChain}
+                  bridge={bridge}
+                  initialStatus={initialStatus}
+                />
+              </div>
+            </ErrorBoundary>
+          </div>
+        </div>
+      </main>
+
+      <Footer />
+
+      <CommandPalette
+        open={commandPaletteOpen}
+        onOpenChange={setCommandPaletteOpen}
+        onSelectTransaction={(hash) => router.push(getTransactionPath(hash))}
+        onOpenExport={() => setExportDialogOpen(true)}
+        onShare={() => shareTransaction(txHash, { fromChain, toChain, bridge })}
+      />
+
+      <ExportDialog
+        open={exportDialogOpen}
+        onOpenChange={setExportDialogOpen}
+        txHash={txHash}
+        fromChain={fromChain}
+        toChain={toChain}
+        bridge={bridge}
+      />
+    </div>
+  )
+}
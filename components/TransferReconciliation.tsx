@@ -0,0 +1,122 @@
+"use client"
+
+import { useMemo } from 'react'
+import { AlertTriangle, ExternalLink, RotateCcw } from 'lucide-react'
+import { StatusResponse } from '@/types/lifi'
+import { ReconciledAmount, reconcileTransfer } from '@/lib/reconciliation'
+import { useChainRegistry } from '@/hooks/useChainRegistry'
+import { formatAddress, formatUSDAmount } from '@/lib/lifi-utils'
+import { cn } from '@/lib/utils'
+import { TokenAmount } from './TokenAmount'
+
+interface TransferReconciliationProps {
+  status: Pick<StatusResponse, 'substatus' | 'sending' | 'receiving'>
+}
+
+export function TransferReconciliation({ status }: TransferReconciliationProps) {
+  const chains = useChainRegistry()
+  const reconciliation = useMemo(() => reconcileTransfer(status), [status])
+
+  if (!reconciliation) {
+    return null
+  }
+
+  const { outcome, sent, expected, received, valueLostUSD, valueLostPercent, refundTx } = reconciliation
+  const isRefunded = outcome === 'refunded'
+
+  const rows: Array<{ label: string; value?: ReconciledAmount; highlight?: boolean }> = [
+    { label: 'Sent', value: sent },
+    { label: 'Expected', value: expected },
+    {
+      label: isRefunded ? 'Refunded' : 'Received',
+      value: received,
+      highlight: reconciliation.tokenMismatch || reconciliation.chainMismatch
+    }
+  ]
+
+  return (
+    <div className="bg-white dark:bg-gray-900 rounded-lg border border-yellow-300 dark:border-yellow-800 p-6">
+      <div className="flex items-start gap-3 mb-4">
+        <div className="p-2 bg-yellow-100 dark:bg-yellow-900/20 rounded-full">
+          {isRefunded ? (
+            <RotateCcw className="h-5 w-5 text-yellow-600 dark:text-yellow-400" />
+          ) : (
+            <AlertTriangle className="h-5 w-5 text-yellow-600 dark:text-yellow-400" />
+          )}
+        </div>
+        <div>
+          <h3 className="font-semibold">
+            {isRefunded ? 'Transfer Refunded' : 'Partial Transfer'}
+          </h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+            {reconciliation.explanation}
+          </p>
+        </div>
+      </div>
+
+      {/* Expected vs received */}
+      <div className="divide-y divide-gray-200 dark:divide-gray-800 border border-gray-200 dark:border-gray-800 rounded-md mb-4">
+        {rows.map(row => (
+          <div key={row.label} className="grid grid-cols-[6rem_1fr_auto] items-center gap-3 px-3 py-2 text-sm">
+            <span className="text-gray-600 dark:text-gray-400">{row.label}</span>
+            {row.value ? (
+              <>
+                <span className={cn(
+                  "font-medium",
+                  row.highlight && "text-yellow-700 dark:text-yellow-300"
+                )}>
+                  <TokenAmount amount={row.value.amount} token={row.value.token} />
+                  <span className="block text-xs font-normal text-gray-500 dark:text-gray-400">
+                    on {chains.getChainName(row.value.chainId)}
+                  </span>
+                </span>
+                <span className="text-gray-600 dark:text-gray-400 text-right">
+                  {row.value.amountUSD !== undefined ? formatUSDAmount(row.value.amountUSD) : '—'}
+                </span>
+              </>
+            ) : (
+              <span className="col-span-2 text-gray-500 dark:text-gray-400">Not reported</span>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {/* Value lost */}
+      {valueLostUSD !== undefined && (
+        <div className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-800 rounded-md text-sm mb-4">
+          <span className="font-medium">Value lost</span>
+          <span className={cn(
+            "font-medium",
+            valueLostUSD > 0 ? "text-red-600 dark:text-red-400" : "text-green-600 dark:text-green-400"
+          )}>
+            {formatUSDAmount(Math.abs(valueLostUSD))}
+            {valueLostPercent !== undefined && ` (${Math.abs(valueLostPercent).toFixed(2)}%)`}
+            {valueLostUSD < 0 && ' gained'}
+          </span>
+        </div>
+      )}
+
+      {/* Refund transaction */}
+      {refundTx && (
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-gray-600 dark:text-gray-400">
+            Refund transaction{refundTx.chainId && ` on ${chains.getChainName(refundTx.chainId)}`}
+          </span>
+          <span className="flex items-center gap-2 font-mono">
+            {formatAddress(refundTx.txHash)}
+            {refundTx.explorerUrl && (
+              <a
+                href={refundTx.explorerUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300"
+              >
+                <ExternalLink className="h-3 w-3" />
+              </a>
+            )}
+          </span>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,273 @@
+"use client"
+
+import { useEffect, useState, useCallback } from 'react'
+import { TransferStatusFilter } from '@/types/lifi'
+import { getWalletTransfers, ParsedStatusResponse } from '@/lib/api'
+import { useChainRegistry } from '@/hooks/useChainRegistry'
+import { cn } from '@/lib/utils'
+import {
+  formatAddress,
+  getChainName,
+  getBridgeToolName,
+  getStatusBgColor,
+  getStatusTextColor,
+  getTimeElapsed
+} from '@/lib/lifi-utils'
+import {
+  ArrowRight,
+  ChevronLeft,
+  ChevronRight,
+  Copy,
+  Loader2,
+  RefreshCw,
+  Wallet
+} from 'lucide-react'
+
+interface WalletTransfersProps {
+  wallet: string
+  selectedTxHash?: string | null
+  onSelectTransaction: (txHash: string) => void
+}
+
+interface PageCursor {
+  next?: string
+  previous?: string
+}
+
+const PAGE_SIZE = 20
+
+const STATUS_FILTERS: { value: TransferStatusFilter; label: string }[] = [
+  { value: 'ALL', label: 'All' },
+  { value: 'DONE', label: 'Done' },
+  { value: 'PENDING', label: 'Pending' },
+  { value: 'FAILED', label: 'Failed' }
+]
+
+export function WalletTransfers({ wallet, selectedTxHash, onSelectTransaction }: WalletTransfersProps) {
+  // Re-render chain names once the LI.FI chain list has loaded
+  useChainRegistry()
+
+  const [transfers, setTransfers] = useState<ParsedStatusResponse[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<Error | null>(null)
+  const [statusFilter, setStatusFilter] = useState<TransferStatusFilter>('ALL')
+  const [cursor, setCursor] = useState<PageCursor>({})
+  const [page, setPage] = useState(1)
+  const [pagination, setPagination] = useState<{
+    hasNext: boolean
+    hasPrevious: boolean
+    next?: string
+    previous?: string
+  }>({ hasNext: false, hasPrevious: false })
+
+  const fetchTransfers = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+
+    try {
+      const result = await getWalletTransfers({
+        wallet,
+        status: statusFilter,
+        limit: PAGE_SIZE,
+        ...cursor
+      })
+      setTransfers(result.transfers)
+      setPagination({
+        hasNext: result.hasNext,
+        hasPrevious: result.hasPrevious,
+        next: result.next,
+        previous: result.previous
+      })
+    } catch (err) {
+      setError(err as Error)
+    } finally {
+      setLoading(false)
+    }
+  }, [wallet, statusFilter, cursor])
+
+  useEffect(() => {
+    fetchTransfers()
+  }, [fetchTransfers])
+
+  // Start from the first page whenever the filter changes
+  const changeStatusFilter = (filter: TransferStatusFilter) => {
+    setStatusFilter(filter)
+    setCursor({})
+    setPage(1)
+  }
+
+  const goToNextPage = () => {
+    if (!pagination.next) return
+    setCursor({ next: pagination.next })
+    setPage(prev => prev + 1)
+  }
+
+  const goToPreviousPage = () => {
+    if (!pagination.previous) return
+    setCursor({ previous: pagination.previous })
+    setPage(prev => Math.max(1, prev - 1))
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-800 p-6">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <div className="flex items-center gap-3">
+          <div className="p-2 rounded-full bg-blue-100 dark:bg-blue-900/20">
+            <Wallet className="h-5 w-5 text-blue-600 dark:text-blue-400" />
+          </div>
+          <div>
+            <h2 className="text-lg font-semibold">Wallet Transfers</h2>
+            <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+              <span className="font-mono">{formatAddress(wallet)}</span>
+              <button
+                onClick={() => navigator.clipboard.writeText(wallet)}
+                className="p-1 hover:bg-gray-100 dark:hover:bg-gray-800 rounded"
+                title="Copy address"
+              >
+                <Copy className="h-3 w-3" />
+              </button>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <div className="flex rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden">
+            {STATUS_FILTERS.map(filter => (
+              <button
+                key={filter.value}
+                onClick={() => changeStatusFilter(filter.value)}
+                className={cn(
+                  "px-3 py-1.5 text-xs font-medium transition-colors",
+                  statusFilter === filter.value
+                    ? "bg-blue-600 text-white"
+                    : "hover:bg-gray-100 dark:hover:bg-gray-800"
+                )}
+              >
+                {filter.label}
+              </button>
+            ))}
+          </div>
+
+          <button
+            onClick={fetchTransfers}
+            disabled={loading}
+            className={cn(
+              "p-2 rounded-lg",
+              "hover:bg-gray-100 dark:hover:bg-gray-800",
+              "transition-colors",
+              "disabled:opacity-50"
+            )}
+            title="Refresh"
+          >
+            <RefreshCw className={cn("h-4 w-4", loading && "animate-spin")} />
+          </button>
+        </div>
+      </div>
+
+      {error ? (
+        <div className="rounded-lg border border-red-200 bg-red-50 dark:border-red-900 dark:bg-red-900/10 p-6">
+          <p className="text-red-800 dark:text-red-200">Failed to fetch wallet transfers</p>
+          <p className="text-sm text-red-600 dark:text-red-400 mt-1">{error.message}</p>
+          <button
+            onClick={fetchTransfers}
+            className="mt-3 text-sm font-medium text-red-600 dark:text-red-400 hover:underline"
+          >
+            Try again
+          </button>
+        </div>
+      ) : loading && transfers.length === 0 ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+        </div>
+      ) : transfers.length === 0 ? (
+        <p className="py-12 text-center text-sm text-gray-600 dark:text-gray-400">
+          No LI.FI transfers found for this wallet
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className={cn("w-full text-sm", loading && "opacity-50")}>
+            <thead>
+              <tr className="border-b border-gray-200 dark:border-gray-800 text-left text-xs text-gray-600 dark:text-gray-400">
+                <th className="py-2 pr-4 font-medium">Status</th>
+                <th className="py-2 pr-4 font-medium">Route</th>
+                <th className="py-2 pr-4 font-medium">Tool</th>
+                <th className="py-2 pr-4 font-medium text-right">Sent</th>
+                <th className="py-2 pr-4 font-medium text-right">Received</th>
+                <th className="py-2 pr-4 font-medium">Source Tx</th>
+                <th className="py-2 font-medium text-right">Time</th>
+              </tr>
+            </thead>
+            <tbody>
+              {transfers.map(transfer => (
+                <tr
+                  key={transfer.transactionId || transfer.sending.txHash}
+                  onClick={() => onSelectTransaction(transfer.sending.txHash)}
+                  className={cn(
+                    "border-b border-gray-100 dark:border-gray-800 cursor-pointer transition-colors",
+                    "hover:bg-gray-50 dark:hover:bg-gray-800",
+                    selectedTxHash === transfer.sending.txHash && "bg-blue-50 dark:bg-blue-900/10"
+                  )}
+                >
+                  <td className="py-3 pr-4">
+                    <span
+                      className={cn(
+                        "inline-flex px-2 py-0.5 rounded-full text-xs font-medium",
+                        getStatusBgColor(transfer.status, transfer.substatus),
+                        getStatusTextColor(transfer.status, transfer.substatus)
+                      )}
+                      title={transfer.displaySubstatus}
+                    >
+                      {transfer.status}
+                    </span>
+                  </td>
+                  <td className="py-3 pr-4">
+                    <div className="flex items-center gap-1 whitespace-nowrap">
+                      <span>{getChainName(transfer.sending.chainId)}</span>
+                      <ArrowRight className="h-3 w-3 text-gray-400" />
+                      <span>{getChainName(transfer.receiving?.chainId)}</span>
+                    </div>
+                  </td>
+                  <td className="py-3 pr-4">{getBridgeToolName(transfer.tool)}</td>
+                  <td className="py-3 pr-4 text-right whitespace-nowrap">
+                    {transfer.sending.formattedAmount || '-'}
+                  </td>
+                  <td className="py-3 pr-4 text-right whitespace-nowrap">
+                    {transfer.receiving?.formattedAmount || '-'}
+                  </td>
+                  <td className="py-3 pr-4 font-mono text-xs">
+                    {formatAddress(transfer.sending.txHash)}
+                  </td>
+                  <td className="py-3 text-right text-xs text-gray-600 dark:text-gray-400 whitespace-nowrap">
+                    {getTimeElapsed(transfer.sending.timestamp) || '-'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {(pagination.hasNext || pagination.hasPrevious) && (
+        <div className="flex items-center justify-between mt-4">
+          <button
+            onClick={goToPreviousPage}
+            disabled={!pagination.hasPrevious || loading}
+            className="flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg border border-gray-200 dark:border-gray-700 hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-50"
+          >
+            <ChevronLeft className="h-4 w-4" />
+            Previous
+          </button>
+          <span className="text-sm text-gray-600 dark:text-gray-400">Page {page}</span>
+          <button
+            onClick={goToNextPage}
+            disabled={!pagination.hasNext || loading}
+            className="flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg border border-gray-200 dark:border-gray-700 hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-50"
+          >
+            Next
+            <ChevronRight className="h-4 w-4" />
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
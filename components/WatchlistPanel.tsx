@@ -0,0 +1,199 @@
+"use client"
+
+import { useEffect, useMemo, useRef } from 'react'
+import { ArrowRight, Bell, BellOff, Pin, RefreshCw, X } from 'lucide-react'
+import { useWatchlist } from '@/hooks/useWatchlist'
+import { useMultipleStatuses } from '@/hooks/useLiFiStatus'
+import { useChainRegistry } from '@/hooks/useChainRegistry'
+import { invalidateStatuses } from '@/lib/api'
+import { cn } from '@/lib/utils'
+import {
+  formatAddress,
+  getBridgeToolName,
+  getStatusBgColor,
+  getStatusTextColor,
+  getTimeElapsed
+} from '@/lib/lifi-utils'
+
+interface WatchlistPanelProps {
+  selectedTxHash?: string | null
+  onSelectTransaction: (txHash: string) => void
+  className?: string
+}
+
+export function WatchlistPanel({ selectedTxHash, onSelectTransaction, className }: WatchlistPanelProps) {
+  const chains = useChainRegistry()
+  const watchlist = useWatchlist()
+  const entries = watchlist.getEntries()
+
+  const requests = useMemo(
+    () => entries.map(({ txHash, fromChain, toChain }) => ({ txHash, fromChain, toChain })),
+    [entries]
+  )
+  const {
+    statuses,
+    loading,
+    refetch,
+    totalCount,
+    completedCount,
+    failedCount,
+    pendingCount
+  } = useMultipleStatuses(requests)
+
+  // Refresh the full statuses whenever the service worker reports a change,
+  // past the client cache that still holds the old ones
+  const workerStatuses = useMemo(
+    () => new Map(entries.map(entry => [entry.txHash, `${entry.status}:${entry.substatus}`])),
+    [entries]
+  )
+  const previousStatusesRef = useRef(workerStatuses)
+  useEffect(() => {
+    const previous = previousStatusesRef.current
+    previousStatusesRef.current = workerStatuses
+
+    const changed = Array.from(workerStatuses)
+      .filter(([txHash, status]) => previous.has(txHash) && previous.get(txHash) !== status)
+      .map(([txHash]) => txHash)
+    if (changed.length === 0) return
+
+    invalidateStatuses(changed)
+    refetch()
+  }, [workerStatuses, refetch])
+
+  // Notification clicks land here
+  useEffect(() => watchlist.onOpen(onSelectTransaction), [watchlist, onSelectTransaction])
+
+  if (entries.length === 0) {
+    return null
+  }
+
+  const notificationPermission = typeof Notification === 'undefined' ? 'unsupported' : Notification.permission
+
+  const counts = [
+    { label: 'Watched', value: totalCount, className: 'text-gray-900 dark:text-gray-100' },
+    { label: 'Pending', value: pendingCount, className: 'text-yellow-600 dark:text-yellow-400' },
+    { label: 'Completed', value: completedCount, className: 'text-green-600 dark:text-green-400' },
+    { label: 'Failed', value: failedCount, className: 'text-red-600 dark:text-red-400' }
+  ]
+
+  return (
+    <div className={cn("bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-800 p-6", className)}>
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <div className="flex items-center gap-3">
+          <div className="p-2 rounded-full bg-blue-100 dark:bg-blue-900/20">
+            <Pin className="h-5 w-5 text-blue-600 dark:text-blue-400" />
+          </div>
+          <div>
+            <h2 className="text-lg font-semibold">Watchlist</h2>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Monitored in the background while the browser allows
+            </p>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          {notificationPermission === 'default' && (
+            <button
+              onClick={() => watchlist.requestNotifications()}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-lg border border-gray-200 dark:border-gray-700 hover:bg-gray-100 dark:hover:bg-gray-800"
+            >
+              <Bell className="h-3 w-3" />
+              Enable notifications
+            </button>
+          )}
+          {notificationPermission === 'denied' && (
+            <span className="flex items-center gap-1.5 text-xs text-gray-500 dark:text-gray-400">
+              <BellOff className="h-3 w-3" />
+              Notifications blocked
+            </span>
+          )}
+
+          <button
+            onClick={refetch}
+            disabled={loading}
+            className={cn(
+              "p-2 rounded-lg",
+              "hover:bg-gray-100 dark:hover:bg-gray-800",
+              "transition-colors",
+              "disabled:opacity-50"
+            )}
+            title="Refresh"
+          >
+            <RefreshCw className={cn("h-4 w-4", loading && "animate-spin")} />
+          </button>
+        </div>
+      </div>
+
+      {/* Counts */}
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-4">
+        {counts.map(count => (
+          <div key={count.label} className="p-3 bg-gray-50 dark:bg-gray-800 rounded-md">
+            <p className="text-xs text-gray-600 dark:text-gray-400">{count.label}</p>
+            <p className={cn("text-xl font-semibold", count.className)}>{count.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="divide-y divide-gray-100 dark:divide-gray-800">
+        {entries.map((entry, index) => {
+          const status = statuses[index]
+
+          return (
+            <div
+              key={entry.txHash}
+              onClick={() => onSelectTransaction(entry.txHash)}
+              className={cn(
+                "flex items-center gap-3 py-3 px-2 text-sm cursor-pointer transition-colors rounded",
+                "hover:bg-gray-50 dark:hover:bg-gray-800",
+                selectedTxHash === entry.txHash && "bg-blue-50 dark:bg-blue-900/10"
+              )}
+            >
+              {status ? (
+                <span
+                  className={cn(
+                    "inline-flex px-2 py-0.5 rounded-full text-xs font-medium",
+                    getStatusBgColor(status.status, status.substatus),
+                    getStatusTextColor(status.status, status.substatus)
+                  )}
+                  title={status.displaySubstatus}
+                >
+                  {status.status}
+                </span>
+              ) : (
+                <span className="inline-flex px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400">
+                  {loading ? 'LOADING' : 'UNKNOWN'}
+                </span>
+              )}
+
+              <span className="font-mono text-xs">{formatAddress(entry.txHash)}</span>
+
+              {status && (
+                <span className="hidden sm:flex items-center gap-1 text-gray-600 dark:text-gray-400 whitespace-nowrap">
+                  {chains.getChainName(status.sending.chainId)}
+                  <ArrowRight className="h-3 w-3 text-gray-400" />
+                  {chains.getChainName(status.receiving?.chainId)}
+                  <span className="ml-2">{getBridgeToolName(status.tool)}</span>
+                </span>
+              )}
+
+              <span className="ml-auto text-xs text-gray-600 dark:text-gray-400 whitespace-nowrap">
+                {getTimeElapsed(status?.sending.timestamp) || '-'}
+              </span>
+
+              <button
+                onClick={event => {
+                  event.stopPropagation()
+                  watchlist.remove(entry.txHash)
+                }}
+                className="p-1 text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 rounded"
+                title="Stop watching"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -19,12 +19,16 @@ import {
   Activity
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import { getBridgeToolName, getChainName, getStatusTextColor, getTimeElapsed } from '@/lib/lifi-utils'
+import { filterHistory } from '@/lib/history-store'
+import { useSearchHistory } from '@/hooks/useSearchHistory'
 
 interface CommandPaletteProps {
   open: boolean
   onOpenChange: (open: boolean) => void
   onSelectTransaction?: (txHash: string) => void
   onOpenExport?: () => void
+  onShare?: () => void
 }
 
 const commands = [
@@ -50,7 +54,7 @@ const commands = [
       {
         id: 'share-analysis',
         title: 'Share Analysis',
-        description: 'Generate shareable link',
+        description: 'Copy a shareable link to the current transaction',
         icon: Share2,
         shortcut: ['⌘', 'S'],
         action: 'share'
@@ -106,14 +110,15 @@ const commands = [
   }
 ]
 
-const recentTransactions = [
-  '0xe1ffdcf09d5aa92a2d89b1b39db3f8cadf09428a296cce0d5e387595ac83d08f',
-  '0x5e9bd1e1232bcfb28e660ce116fe910aa058345604334e5f560034f51ef5327c'
-]
+const MAX_RECENT_TRANSACTIONS = 10
 
-export function CommandPalette({ open, onOpenChange, onSelectTransaction, onOpenExport }: CommandPaletteProps) {
+export function CommandPalette({ open, onOpenChange, onSelectTransaction, onOpenExport, onShare }: CommandPaletteProps) {
   const [search, setSearch] = useState('')
   const [selectedGroup, setSelectedGroup] = useState('')
+  const history = useSearchHistory()
+  // Only the latest few until the user types; cmdk then matches across the whole history
+  const recentTransactions = filterHistory(history.entries, { kind: 'transaction' })
+    .slice(0, search ? undefined : MAX_RECENT_TRANSACTIONS)
 
   // Handle keyboard shortcuts
   useEffect(() => {
@@ -145,6 +150,11 @@ export function CommandPalette({ open, onOpenChange, onSelectTransaction, onOpen
       if (onOpenExport) {
         onOpenExport()
       }
+    } else if (command.action === 'share') {
+      onOpenChange(false)
+      if (onShare) {
+        onShare()
+      }
     } else if (command.href) {
       if (command.external) {
         window.open(command.href, '_blank')
@@ -156,6 +166,7 @@ export function CommandPalette({ open, onOpenChange, onSelectTransaction, onOpen
   }
 
   const handleRecentTransaction = (txHash: string) => {
+    history.recordLookup(txHash, 'transaction')
     if (onSelectTransaction) {
       onSelectTransaction(txHash)
     }
@@ -234,13 +245,21 @@ export function CommandPalette({ open, onOpenChange, onSelectTransaction, onOpen
                     </Command.Group>
                   )}
 
-                  {/* Recent Transactions */}
-                  {recentTransactions.length > 0 && search.length === 0 && (
+                  {/* Recent Transactions, matched by hash, status, chain or tool */}
+                  {recentTransactions.length > 0 && (
                     <Command.Group heading="Recent Transactions">
-                      {recentTransactions.map((txHash) => (
+                      {recentTransactions.map((entry) => (
                         <Command.Item
-                          key={txHash}
-                          onSelect={() => handleRecentTransaction(txHash)}
+                          key={entry.query}
+                          value={`recent ${entry.query}`}
+                          keywords={[
+                            entry.status,
+                            entry.substatus,
+                            entry.tool,
+                            entry.fromChainId ? getChainName(entry.fromChainId) : undefined,
+                            entry.toChainId ? getChainName(entry.toChainId) : undefined
+                          ].filter((keyword): keyword is string => !!keyword)}
+                          onSelect={() => handleRecentTransaction(entry.query)}
                           className="flex items-center gap-3 p-3 hover:bg-gray-100 dark:hover:bg-gray-800 cursor-pointer transition-colors"
                         >
                           <div className="p-2 bg-blue-100 dark:bg-blue-900/20 rounded-lg">
@@ -248,10 +267,22 @@ export function CommandPalette({ open, onOpenChange, onSelectTransaction, onOpen
                           </div>
                           <div className="flex-1 min-w-0">
                             <div className="font-medium text-gray-900 dark:text-gray-100 font-mono text-sm truncate">
-                              {txHash}
+                              {entry.query}
                             </div>
-                            <div className="text-xs text-gray-500 dark:text-gray-400">
-                              Recently analyzed
+                            <div className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+                              {entry.status && (
+                                <span className={getStatusTextColor(entry.status, entry.substatus)}>
+                                  {entry.status}
+                                </span>
+                              )}
+                              {entry.fromChainId && (
+                                <span>
+                                  {getChainName(entry.fromChainId)} → {getChainName(entry.toChainId)}
+                                </span>
+                              )}
+                              {entry.tool && <span>{getBridgeToolName(entry.tool)}</span>}
+                              {entry.amount && <span>{entry.amount}</span>}
+                              <span>{getTimeElapsed(Math.floor(entry.lookedUpAt / 1000))}</span>
                             </div>
                           </div>
                         </Command.Item>
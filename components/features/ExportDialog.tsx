@@ -5,6 +5,8 @@ import { motion, AnimatePresence } from 'framer-motion'
 import {
     Download,
     FileText,
+    FileCode,
+    FileSpreadsheet,
     Image,
     Copy,
     Check,
@@ -13,21 +15,38 @@ import {
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { toast } from 'sonner'
-import jsPDF from 'jspdf'
 import html2canvas from 'html2canvas'
+import { buildDebugReport, buildDebugReports } from '@/lib/debug-report'
+import { renderPdfReport } from '@/lib/pdf-report'
+import { renderMarkdownReport } from '@/lib/markdown-report'
+import { renderCsvReport } from '@/lib/csv-report'
+import { useWatchlist } from '@/hooks/useWatchlist'
 
 interface ExportDialogProps {
     open: boolean
     onOpenChange: (open: boolean) => void
     txHash?: string
+    // Lookup hints for the transfer, as in the /tx/[hash] query string
+    fromChain?: string
+    toChain?: string
+    bridge?: string
 }
 
-type ExportFormat = 'json' | 'pdf' | 'png'
+type ExportFormat = 'json' | 'pdf' | 'markdown' | 'csv' | 'png'
+type CsvScope = 'transfer' | 'watchlist'
 
-export function ExportDialog({ open, onOpenChange, txHash }: ExportDialogProps) {
+export function ExportDialog({ open, onOpenChange, txHash, fromChain, toChain, bridge }: ExportDialogProps) {
     const [selectedFormat, setSelectedFormat] = useState<ExportFormat>('json')
     const [isExporting, setIsExporting] = useState(false)
     const [exported, setExported] = useState(false)
+    const [redactAddresses, setRedactAddresses] = useState(false)
+    const [csvScope, setCsvScope] = useState<CsvScope>('transfer')
+    const watchlist = useWatchlist()
+    const watchedEntries = watchlist.getEntries()
+
+    // A watchlist CSV does not need a selected transaction
+    const isBatchExport = selectedFormat === 'csv' && csvScope === 'watchlist' && watchedEntries.length > 0
+    const canExport = !!txHash || isBatchExport
 
     useEffect(() => {
         const handleExport = () => {
@@ -42,17 +61,31 @@ export function ExportDialog({ open, onOpenChange, txHash }: ExportDialogProps)
         {
             id: 'json' as ExportFormat,
             name: 'JSON Report',
-            description: 'Detailed debugging data in JSON format',
+            description: 'Versioned debug report for support tickets',
             icon: FileText,
             size: '~15KB'
         },
         {
             id: 'pdf' as ExportFormat,
             name: 'PDF Report',
-            description: 'Professional report with charts and analysis',
+            description: 'Multi-page report with timeline, fees, errors and alternative routes',
             icon: FileText,
             size: '~250KB'
         },
+        {
+            id: 'markdown' as ExportFormat,
+            name: 'Markdown',
+            description: 'Paste into GitHub or Zendesk, with the raw payload collapsed',
+            icon: FileCode,
+            size: '~10KB'
+        },
+        {
+            id: 'csv' as ExportFormat,
+            name: 'CSV',
+            description: 'One row per transfer for spreadsheets',
+            icon: FileSpreadsheet,
+            size: '~1KB'
+        },
         {
             id: 'png' as ExportFormat,
             name: 'PNG Image',
@@ -63,7 +96,7 @@ export function ExportDialog({ open, onOpenChange, txHash }: ExportDialogProps)
     ]
 
     const handleExport = async () => {
-        if (!txHash) {
+        if (!canExport) {
             toast.error('No transaction selected for export')
             return
         }
@@ -78,6 +111,12 @@ export function ExportDialog({ open, onOpenChange, txHash }: ExportDialogProps)
                 case 'pdf':
                     await exportPDF()
                     break
+                case 'markdown':
+                    await exportMarkdown()
+                    break
+                case 'csv':
+                    await exportCSV()
+                    break
                 case 'png':
                     await exportPNG()
                     break
@@ -99,53 +138,54 @@ export function ExportDialog({ open, onOpenChange, txHash }: ExportDialogProps)
         }
     }
 
-    const exportJSON = async () => {
-        // Generate comprehensive debug report
-        const report = {
-            timestamp: new Date().toISOString(),
-            txHash,
-            analysis: {
-                // This would contain actual transaction analysis data
-                summary: 'Transaction analysis data would go here',
-                errors: [],
-                performance: {},
-                routes: []
-            },
-            metadata: {
-                tool: 'LiFi Lens',
-                version: '1.0.0',
-                exported_by: 'user'
-            }
-        }
+    const fileName = (extension: string, prefix = txHash?.slice(0, 8)) =>
+        `lifi-lens-${prefix}-${Date.now()}.${extension}`
 
-        const blob = new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' })
+    const downloadFile = (content: string, type: string, name: string) => {
+        const blob = new Blob([content], { type })
         const url = URL.createObjectURL(blob)
         const a = document.createElement('a')
         a.href = url
-        a.download = `lifi-lens-${txHash?.slice(0, 8)}-${Date.now()}.json`
+        a.download = name
         document.body.appendChild(a)
         a.click()
         document.body.removeChild(a)
         URL.revokeObjectURL(url)
     }
 
-    const exportPDF = async () => {
-        const pdf = new jsPDF('p', 'mm', 'a4')
+    const exportJSON = async () => {
+        const report = await buildDebugReport(txHash!, { fromChain, toChain, bridge, redactAddresses })
+        downloadFile(JSON.stringify(report, null, 2), 'application/json', fileName('json'))
+    }
 
-        // Add header
-        pdf.setFontSize(20)
-        pdf.text('LiFi Lens Analysis Report', 20, 20)
+    const exportMarkdown = async () => {
+        const report = await buildDebugReport(txHash!, { fromChain, toChain, bridge, redactAddresses })
+        downloadFile(renderMarkdownReport(report), 'text/markdown', fileName('md'))
+    }
 
-        pdf.setFontSize(12)
-        pdf.text(`Transaction: ${txHash}`, 20, 35)
-        pdf.text(`Generated: ${new Date().toLocaleString()}`, 20, 45)
+    const exportCSV = async () => {
+        if (isBatchExport) {
+            const { reports, failed } = await buildDebugReports(
+                watchedEntries.map(({ txHash, fromChain, toChain }) => ({ txHash, fromChain, toChain })),
+                { redactAddresses }
+            )
+            downloadFile(renderCsvReport(reports), 'text/csv', fileName('csv', 'watchlist'))
 
-        // Add content (this would include actual analysis data)
-        pdf.text('Analysis Summary:', 20, 65)
-        pdf.text('This is a sample PDF export. In a real implementation,', 20, 75)
-        pdf.text('this would contain detailed transaction analysis.', 20, 85)
+            if (failed.length > 0) {
+                console.warn('Watchlist transfers missing from the CSV:', failed)
+                toast.warning(`${failed.length} of ${watchedEntries.length} watched transfers could not be looked up and are not in the CSV`)
+            }
+            return
+        }
 
-        pdf.save(`lifi-lens-${txHash?.slice(0, 8)}-${Date.now()}.pdf`)
+        // Alternative routes are not part of the CSV columns
+        const report = await buildDebugReport(txHash!, { fromChain, toChain, bridge, redactAddresses, includeAlternatives: false })
+        downloadFile(renderCsvReport([report]), 'text/csv', fileName('csv'))
+    }
+
+    const exportPDF = async () => {
+        const report = await buildDebugReport(txHash!, { fromChain, toChain, bridge, redactAddresses })
+        renderPdfReport(report).save(fileName('pdf'))
     }
 
     const exportPNG = async () => {
@@ -162,7 +202,7 @@ export function ExportDialog({ open, onOpenChange, txHash }: ExportDialogProps)
         })
 
         const link = document.createElement('a')
-        link.download = `lifi-lens-${txHash?.slice(0, 8)}-${Date.now()}.png`
+        link.download = fileName('png')
         link.href = canvas.toDataURL('image/png')
         link.click()
     }
@@ -201,7 +241,7 @@ export function ExportDialog({ open, onOpenChange, txHash }: ExportDialogProps)
                             </button>
                         </div>
 
-                        <div className="p-6 space-y-4">
+                        <div className="p-6 space-y-4 max-h-[60vh] overflow-y-auto">
                             <div className="space-y-3">
                                 {formatOptions.map((format) => {
                                     const Icon = format.icon
@@ -245,6 +285,48 @@ export function ExportDialog({ open, onOpenChange, txHash }: ExportDialogProps)
                                     )
                                 })}
                             </div>
+
+                            {selectedFormat === 'csv' && watchedEntries.length > 0 && (
+                                <div className="grid grid-cols-2 gap-2">
+                                    {([
+                                        { id: 'transfer', label: 'This transfer', disabled: !txHash },
+                                        { id: 'watchlist', label: `Watched transfers (${watchedEntries.length})`, disabled: false }
+                                    ] as const).map((scope) => (
+                                        <button
+                                            key={scope.id}
+                                            onClick={() => setCsvScope(scope.id)}
+                                            disabled={scope.disabled}
+                                            className={cn(
+                                                "px-3 py-2 text-sm rounded-lg border transition-colors disabled:opacity-50",
+                                                csvScope === scope.id
+                                                    ? "border-blue-500 bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-300"
+                                                    : "border-gray-200 dark:border-gray-700 hover:border-gray-300 dark:hover:border-gray-600"
+                                            )}
+                                        >
+                                            {scope.label}
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
+
+                            {selectedFormat !== 'png' && (
+                                <label className="flex items-start gap-3 p-3 rounded-lg bg-gray-50 dark:bg-gray-800/50 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={redactAddresses}
+                                        onChange={(e) => setRedactAddresses(e.target.checked)}
+                                        className="mt-0.5 h-4 w-4 rounded border-gray-300 dark:border-gray-600"
+                                    />
+                                    <div>
+                                        <p className="text-sm font-medium text-gray-900 dark:text-gray-100">
+                                            Redact wallet addresses
+                                        </p>
+                                        <p className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+                                            Replace sender and recipient with placeholders before sharing
+                                        </p>
+                                    </div>
+                                </label>
+                            )}
                         </div>
 
                         <div className="flex items-center justify-between p-6 bg-gray-50 dark:bg-gray-800/50 border-t border-gray-200 dark:border-gray-700">
@@ -258,12 +340,12 @@ export function ExportDialog({ open, onOpenChange, txHash }: ExportDialogProps)
 
                             <motion.button
                                 onClick={handleExport}
-                                disabled={isExporting || !txHash}
+                                disabled={isExporting || !canExport}
                                 className={cn(
                                     "flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-lg transition-all duration-200",
                                     exported
                                         ? "bg-green-500 text-white"
-                                        : isExporting || !txHash
+                                        : isExporting || !canExport
                                             ? "bg-gray-300 dark:bg-gray-600 text-gray-500 dark:text-gray-400 cursor-not-allowed"
                                             : "bg-blue-500 hover:bg-blue-600 text-white"
                                 )}
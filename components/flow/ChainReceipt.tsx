@@ -0,0 +1,142 @@
+"use client"
+
+import { motion } from 'framer-motion'
+import { CheckCircle2, AlertTriangle, Loader2, XCircle } from 'lucide-react'
+import { useTransactionReceipt } from '@/hooks/useTransactionReceipt'
+import { formatTokenAmount } from '@/lib/token-service'
+import { cn } from '@/lib/utils'
+
+interface ChainReceiptProps {
+  chainId: number
+  txHash: string
+  // Figures LI.FI reported for the same transaction, in gas units and wei
+  lifiGasUsed?: string
+  lifiGasPrice?: string
+}
+
+// A reverted transaction that used this share of its limit most likely ran out of gas
+const OUT_OF_GAS_RATIO = 0.98
+const MAX_LOGS_SHOWN = 5
+
+function formatGas(value: string): string {
+  return formatTokenAmount(value, 0)
+}
+
+function formatGwei(wei: string): string {
+  return `${formatTokenAmount(wei, 9, undefined, 4)} gwei`
+}
+
+function matches(lifiValue: string | undefined, chainValue: string | undefined): boolean | undefined {
+  if (!lifiValue || !chainValue) return undefined
+  try {
+    return BigInt(lifiValue) === BigInt(chainValue)
+  } catch {
+    return undefined
+  }
+}
+
+export function ChainReceipt({ chainId, txHash, lifiGasUsed, lifiGasPrice }: ChainReceiptProps) {
+  const { receipt, isLoading, error } = useTransactionReceipt(chainId, txHash)
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Fetching receipt from the chain...
+      </div>
+    )
+  }
+
+  if (error || !receipt) {
+    return error ? (
+      <div className="text-sm text-gray-600 dark:text-gray-400">
+        Receipt unavailable: {error}
+      </div>
+    ) : null
+  }
+
+  const gasUsedRatio = Number(receipt.gasUsed) / Number(receipt.gasLimit)
+  const likelyOutOfGas = receipt.status === 'reverted' && gasUsedRatio >= OUT_OF_GAS_RATIO
+
+  const rows = [
+    {
+      label: 'Gas Used',
+      lifi: lifiGasUsed ? formatGas(lifiGasUsed) : undefined,
+      chain: `${formatGas(receipt.gasUsed)} / ${formatGas(receipt.gasLimit)} (${(gasUsedRatio * 100).toFixed(1)}%)`,
+      agrees: matches(lifiGasUsed, receipt.gasUsed)
+    },
+    {
+      label: 'Gas Price',
+      lifi: lifiGasPrice ? formatGwei(lifiGasPrice) : undefined,
+      chain: receipt.effectiveGasPrice ? formatGwei(receipt.effectiveGasPrice) : undefined,
+      agrees: matches(lifiGasPrice, receipt.effectiveGasPrice)
+    }
+  ]
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="space-y-3"
+    >
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className={cn(
+          "inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium",
+          receipt.status === 'success'
+            ? "bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300"
+            : "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300"
+        )}>
+          {receipt.status === 'success' ? <CheckCircle2 className="h-3 w-3" /> : <XCircle className="h-3 w-3" />}
+          {receipt.status === 'success' ? 'Succeeded on-chain' : 'Reverted on-chain'}
+        </span>
+        <span className="text-gray-600 dark:text-gray-400">
+          Block #{receipt.blockNumber.toLocaleString()} · {receipt.confirmations.toLocaleString()} confirmations
+        </span>
+      </div>
+
+      {likelyOutOfGas && (
+        <div className="flex items-start gap-2 p-2 rounded-lg bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 text-sm text-amber-800 dark:text-amber-200">
+          <AlertTriangle className="h-4 w-4 flex-shrink-0 mt-0.5" />
+          Reverted after using {(gasUsedRatio * 100).toFixed(1)}% of its gas limit, most likely out of gas
+        </div>
+      )}
+
+      <div className="rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 overflow-hidden">
+        <div className="grid grid-cols-3 gap-2 px-3 py-2 text-xs font-medium text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+          <span></span>
+          <span>LI.FI</span>
+          <span>Chain</span>
+        </div>
+        {rows.map(row => (
+          <div key={row.label} className="grid grid-cols-3 gap-2 px-3 py-2 text-sm">
+            <span className="font-medium text-gray-900 dark:text-white">{row.label}</span>
+            <span className="text-gray-600 dark:text-gray-400 truncate">{row.lifi ?? '—'}</span>
+            <span className={cn(
+              "truncate",
+              row.agrees === false ? "text-amber-600 dark:text-amber-400" : "text-gray-600 dark:text-gray-400"
+            )}>
+              {row.chain ?? '—'}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-1">
+        <div className="text-xs font-medium text-gray-500 dark:text-gray-400">
+          {receipt.logs.length} event {receipt.logs.length === 1 ? 'log' : 'logs'}
+        </div>
+        {receipt.logs.slice(0, MAX_LOGS_SHOWN).map(log => (
+          <div key={log.logIndex} className="text-xs font-mono text-gray-600 dark:text-gray-400 truncate">
+            #{log.logIndex} {log.address.slice(0, 10)}...{log.address.slice(-6)}
+            {log.topics[0] && ` · ${log.topics[0].slice(0, 10)}...`}
+          </div>
+        ))}
+        {receipt.logs.length > MAX_LOGS_SHOWN && (
+          <div className="text-xs text-gray-500 dark:text-gray-400">
+            +{receipt.logs.length - MAX_LOGS_SHOWN} more
+          </div>
+        )}
+      </div>
+    </motion.div>
+  )
+}
@@ -14,6 +14,7 @@ import {
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { FlowStageData } from '../TransactionFlowVisualization'
+import { TokenAmount } from '../TokenAmount'
 
 interface FlowStageProps {
   stage: FlowStageData
@@ -187,6 +188,57 @@ export function FlowStage({
 
         {/* Key Information */}
         <div className="space-y-2">
+          {stage.step && (
+            <>
+              {stage.step.fromToken && stage.step.fromAmount && (
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-gray-600 dark:text-gray-400">In</span>
+                  <TokenAmount
+                    amount={stage.step.fromAmount}
+                    token={stage.step.fromToken}
+                    className="font-medium text-gray-900 dark:text-white"
+                  />
+                </div>
+              )}
+
+              {stage.step.toToken && stage.step.toAmount && (
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-gray-600 dark:text-gray-400">Out</span>
+                  <TokenAmount
+                    amount={stage.step.toAmount}
+                    token={stage.step.toToken}
+                    className="font-medium text-gray-900 dark:text-white"
+                  />
+                </div>
+              )}
+
+              {stage.step.bridgedAmount && stage.step.fromToken && (
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-gray-600 dark:text-gray-400">Bridged</span>
+                  <TokenAmount
+                    amount={stage.step.bridgedAmount}
+                    token={stage.step.fromToken}
+                    className="font-medium text-gray-900 dark:text-white"
+                  />
+                </div>
+              )}
+
+              {stage.step.slippage !== undefined && (
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-gray-600 dark:text-gray-400">Slippage</span>
+                  <span className={cn(
+                    "font-medium",
+                    stage.step.slippage < -1 ? "text-red-600 dark:text-red-400" :
+                      stage.step.slippage < 0 ? "text-yellow-600 dark:text-yellow-400" :
+                        "text-green-600 dark:text-green-400"
+                  )}>
+                    {stage.step.slippage > 0 ? '+' : ''}{stage.step.slippage.toFixed(2)}%
+                  </span>
+                </div>
+              )}
+            </>
+          )}
+
           {stage.details.amount && (
             <div className="flex items-center justify-between text-sm">
               <span className="text-gray-600 dark:text-gray-400">Amount</span>
@@ -4,6 +4,12 @@ import { useState, useEffect } from 'react'
 import { motion } from 'framer-motion'
 import { TransactionStatus, TransactionSubstatus } from '@/types/lifi'
 import { Clock, AlertTriangle, CheckCircle2 } from 'lucide-react'
+import {
+  DurationBaseline,
+  assessDuration,
+  formatDuration,
+  shouldEscalate
+} from '@/lib/duration-baselines'
 import { cn } from '@/lib/utils'
 
 interface ProgressTimerProps {
@@ -11,29 +17,35 @@ interface ProgressTimerProps {
   substatus?: TransactionSubstatus
   estimatedTime?: string
   startTime?: number
+  // Expected duration for the bridge and chain pair; replaces the fixed 10 minute threshold
+  baseline?: DurationBaseline
 }
 
 export function ProgressTimer({ 
   status, 
   substatus, 
   estimatedTime,
-  startTime = Date.now() 
+  startTime = Date.now(),
+  baseline
 }: ProgressTimerProps) {
   const [elapsedTime, setElapsedTime] = useState(0)
-  const [isLongRunning, setIsLongRunning] = useState(false)
 
   useEffect(() => {
-    const interval = setInterval(() => {
-      const now = Date.now()
-      const elapsed = Math.floor((now - startTime) / 1000)
-      setElapsedTime(elapsed)
-      
-      // Mark as long running if over 10 minutes for pending transactions
-      setIsLongRunning(status === TransactionStatus.PENDING && elapsed > 600)
-    }, 1000)
+    const updateElapsed = () => {
+      setElapsedTime(Math.max(0, Math.floor((Date.now() - startTime) / 1000)))
+    }
+
+    updateElapsed()
+    const interval = setInterval(updateElapsed, 1000)
 
     return () => clearInterval(interval)
-  }, [startTime, status])
+  }, [startTime])
+
+  const assessment = status !== TransactionStatus.PENDING ? 'on-track' :
+    baseline ? assessDuration(elapsedTime, baseline) :
+    elapsedTime > 600 ? 'slow' : 'on-track'
+  const isLongRunning = assessment !== 'on-track'
+  const isLikelyStuck = assessment === 'likely-stuck'
 
   const formatTime = (seconds: number) => {
     if (seconds < 60) {
@@ -70,6 +82,16 @@ export function ProgressTimer({
           showElapsed: true
         }
       case TransactionStatus.PENDING:
+        if (isLikelyStuck) {
+          return {
+            icon: AlertTriangle,
+            color: 'text-red-500',
+            bgColor: 'bg-red-50 dark:bg-red-900/20',
+            borderColor: 'border-red-200 dark:border-red-800',
+            label: 'Likely stuck',
+            showElapsed: true
+          }
+        }
         return {
           icon: Clock,
           color: isLongRunning ? 'text-orange-500' : 'text-blue-500',
@@ -94,7 +116,18 @@ export function ProgressTimer({
   const Icon = config.icon
 
   const getEstimatedRemaining = () => {
-    if (!estimatedTime || status === TransactionStatus.DONE || status === TransactionStatus.FAILED) {
+    if (status === TransactionStatus.DONE || status === TransactionStatus.FAILED) {
+      return null
+    }
+
+    // Count down to the typical (p50) duration for this bridge and chain pair
+    if (baseline) {
+      if (isLikelyStuck) return null
+      const remaining = baseline.p50Seconds - elapsedTime
+      return remaining > 0 ? formatTime(remaining) : 'Any moment now...'
+    }
+
+    if (!estimatedTime) {
       return null
     }
 
@@ -123,8 +156,8 @@ export function ProgressTimer({
       )}
     >
       <motion.div
-        animate={status === TransactionStatus.PENDING ? { rotate: 360 } : {}}
-        transition={status === TransactionStatus.PENDING ? { 
+        animate={status === TransactionStatus.PENDING && !isLikelyStuck ? { rotate: 360 } : {}}
+        transition={status === TransactionStatus.PENDING && !isLikelyStuck ? { 
           repeat: Infinity, 
           duration: 2, 
           ease: "linear" 
@@ -155,13 +188,31 @@ export function ProgressTimer({
           </div>
         )}
         
-        {isLongRunning && (
+        {isLongRunning && !isLikelyStuck && (
           <motion.div
             initial={{ opacity: 0 }}
             animate={{ opacity: 1 }}
             className="text-xs text-orange-600 dark:text-orange-400 font-medium mt-1"
           >
             ⚠️ This is taking longer than usual
+            {baseline && ` (typically ${formatDuration(baseline.p50Seconds)})`}
+          </motion.div>
+        )}
+
+        {isLikelyStuck && baseline && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            className="text-xs text-red-600 dark:text-red-400 mt-1 max-w-xs"
+          >
+            <p className="font-medium">
+              95% of these transfers finish within {formatDuration(baseline.p95Seconds)}
+            </p>
+            <p>
+              {shouldEscalate(elapsedTime, baseline)
+                ? 'Contact LI.FI support with the transaction hash. Do not resend the funds.'
+                : 'Check the bridge explorer for the transfer. Do not resend the funds.'}
+            </p>
           </motion.div>
         )}
       </div>
@@ -2,6 +2,7 @@
 
 import { motion } from 'framer-motion'
 import { FlowStageData } from '../TransactionFlowVisualization'
+import { ChainReceipt } from './ChainReceipt'
 import { 
   Copy, 
   ExternalLink, 
@@ -11,9 +12,14 @@ import {
   Hash,
   AlertCircle,
   CheckCircle2,
-  X
+  X,
+  Wrench,
+  ArrowRightLeft,
+  TrendingDown
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import { classifyTxHash } from '@/lib/hash-classifier'
+import { formatTokenAmount } from '@/lib/token-service'
 import { useState } from 'react'
 
 interface StageDetailsProps {
@@ -68,6 +74,11 @@ export function StageDetails({ stage, onClose }: StageDetailsProps) {
   }
 
   const config = getStatusConfig()
+  const step = stage.step
+  const formatStepAmount = (amount?: string, token?: { decimals: number; symbol: string }) =>
+    amount && token ? formatTokenAmount(amount, token.decimals, token.symbol) : undefined
+
+  const hasEvmReceipt = !!stage.details.chainId && classifyTxHash(stage.details.txHash)?.kind === 'evm'
   const StatusIcon = config.icon
 
   const DetailItem = ({ 
@@ -211,70 +222,131 @@ export function StageDetails({ stage, onClose }: StageDetailsProps) {
         </motion.div>
       )}
 
-      {/* Stage Details */}
-      <div className="space-y-3">
-        <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 border-b border-gray-200 dark:border-gray-600 pb-2">
-          Transaction Details
-        </h4>
+      {/* Included Step */}
+      {step && (
+        <div className="space-y-3">
+          <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 border-b border-gray-200 dark:border-gray-600 pb-2">
+            Step Details
+          </h4>
+
+          <div className="grid gap-3">
+            <DetailItem
+              icon={Wrench}
+              label="Tool"
+              value={stage.subtitle === step.tool ? step.tool : `${stage.subtitle} (${step.tool})`}
+            />
+
+            <DetailItem
+              icon={ArrowRightLeft}
+              label="From"
+              value={formatStepAmount(step.fromAmount, step.fromToken)}
+            />
+
+            <DetailItem
+              icon={ArrowRightLeft}
+              label="To"
+              value={formatStepAmount(step.toAmount, step.toToken)}
+            />
+
+            <DetailItem
+              icon={DollarSign}
+              label="Bridged Amount"
+              value={formatStepAmount(step.bridgedAmount, step.fromToken)}
+            />
+
+            <DetailItem
+              icon={TrendingDown}
+              label="Slippage (USD value in vs out)"
+              value={step.slippage !== undefined
+                ? `${step.slippage > 0 ? '+' : ''}${step.slippage.toFixed(2)}%`
+                : undefined}
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Stage Details, for stages backed by a transaction */}
+      {!step && (
+        <div className="space-y-3">
+          <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 border-b border-gray-200 dark:border-gray-600 pb-2">
+            Transaction Details
+          </h4>
         
-        <div className="grid gap-3">
-          <DetailItem
-            icon={DollarSign}
-            label="Amount"
-            value={stage.details.amount}
-          />
-          
-          <DetailItem
-            icon={DollarSign}
-            label="USD Value"
-            value={stage.details.usdValue}
-          />
+          <div className="grid gap-3">
+            <DetailItem
+              icon={DollarSign}
+              label="Amount"
+              value={stage.details.amount}
+            />
           
-          <DetailItem
-            icon={Hash}
-            label="Chain ID"
-            value={stage.details.chain}
-          />
+            <DetailItem
+              icon={DollarSign}
+              label="USD Value"
+              value={stage.details.usdValue}
+            />
           
-          {stage.details.txHash && (
             <DetailItem
               icon={Hash}
-              label="Transaction Hash"
-              value={`${stage.details.txHash.slice(0, 10)}...${stage.details.txHash.slice(-8)}`}
-              copyable
-              link={stage.details.txLink}
+              label="Chain"
+              value={stage.details.chain}
             />
-          )}
           
-          <DetailItem
-            icon={Fuel}
-            label="Gas Used"
-            value={stage.details.gasUsed}
-          />
-          
-          <DetailItem
-            icon={Fuel}
-            label="Gas Price"
-            value={stage.details.gasPrice}
-          />
+            {stage.details.txHash && (
+              <DetailItem
+                icon={Hash}
+                label="Transaction Hash"
+                value={`${stage.details.txHash.slice(0, 10)}...${stage.details.txHash.slice(-8)}`}
+                copyable
+                link={stage.details.txLink}
+              />
+            )}
           
-          {stage.completedTime && (
             <DetailItem
-              icon={Clock}
-              label="Completed At"
-              value={stage.completedTime}
+              icon={Fuel}
+              label="Gas Used"
+              value={stage.details.gasUsed}
             />
-          )}
           
-          {stage.estimatedTime && !stage.completedTime && (
             <DetailItem
-              icon={Clock}
-              label="Estimated Time"
-              value={stage.estimatedTime}
+              icon={Fuel}
+              label="Gas Price"
+              value={stage.details.gasPrice}
             />
-          )}
+          
+            {stage.completedTime && (
+              <DetailItem
+                icon={Clock}
+                label="Completed At"
+                value={stage.completedTime}
+              />
+            )}
+          
+            {stage.estimatedTime && !stage.completedTime && (
+              <DetailItem
+                icon={Clock}
+                label="Estimated Time"
+                value={stage.estimatedTime}
+              />
+            )}
+          </div>
         </div>
-      </div>
+      )}
+
+      {/* On-chain receipt, compared with the LI.FI-reported gas figures */}
+      {hasEvmReceipt && (
+        <div className="space-y-3">
+          <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 border-b border-gray-200 dark:border-gray-600 pb-2">
+            Chain Receipt
+          </h4>
+
+          <ChainReceipt
+            chainId={stage.details.chainId!}
+            txHash={stage.details.txHash!}
+            lifiGasUsed={stage.details.gasUsed}
+            lifiGasPrice={stage.details.gasPrice}
+          />
+        </div>
+      )}
 
       {/* Status Timeline */}
       {(stage.status === 'success' || stage.status === 'failed') && (
@@ -14,10 +14,12 @@ import {
   Command,
   Activity,
   FileText,
-  Settings
+  Settings,
+  AlertTriangle
 } from 'lucide-react'
 import { useTheme } from 'next-themes'
 import { cn } from '@/lib/utils'
+import { useUpstreamHealth } from '@/hooks/useUpstreamHealth'
 
 interface HeaderProps {
   onOpenCommandPalette?: () => void
@@ -55,6 +57,7 @@ export function Header({ onOpenCommandPalette }: HeaderProps) {
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false)
   const { theme, setTheme } = useTheme()
   const [networkStatus, setNetworkStatus] = useState<'online' | 'offline'>('online')
+  const upstreamHealth = useUpstreamHealth()
 
   const toggleMobileMenu = () => setIsMobileMenuOpen(!isMobileMenuOpen)
 
@@ -83,6 +86,18 @@ export function Header({ onOpenCommandPalette }: HeaderProps) {
                 </h1>
                 <div className="flex items-center gap-3 text-xs text-muted-foreground">
                   <span>v2.1.0</span>
+                  {upstreamHealth.status !== 'healthy' && (
+                    <span
+                      className={cn(
+                        "flex items-center gap-1 font-medium",
+                        upstreamHealth.status === 'down' ? "text-red-600 dark:text-red-400" : "text-yellow-600 dark:text-yellow-400"
+                      )}
+                      title="Requests to affected LI.FI endpoints are paused after repeated failures"
+                    >
+                      <AlertTriangle className="h-3 w-3" />
+                      {upstreamHealth.status === 'down' ? 'LI.FI API down' : 'LI.FI API degraded'}
+                    </span>
+                  )}
                 </div>
               </div>
             </div>
@@ -0,0 +1,21 @@
+'use client'
+
+import { useEffect, useSyncExternalStore } from 'react'
+import { chainRegistry, ChainRegistry } from '@/lib/chain-registry'
+
+const subscribe = (listener: () => void) => chainRegistry.subscribe(listener)
+const getVersion = () => chainRegistry.getVersion()
+
+/**
+ * Load the LI.FI chain list and re-render when it arrives, so chain names,
+ * logos and explorer links upgrade from the built-in fallback
+ */
+export function useChainRegistry(): ChainRegistry {
+  useSyncExternalStore(subscribe, getVersion, getVersion)
+
+  useEffect(() => {
+    chainRegistry.load()
+  }, [])
+
+  return chainRegistry
+}
@@ -0,0 +1,38 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { DurationBaseline, getDefaultBaseline } from '@/lib/duration-baselines'
+
+/**
+ * Expected completion time for a tool and chain pair. Starts from the seeded
+ * default and switches to the server's learned baseline once it loads.
+ */
+export function useDurationBaseline(tool?: string, fromChainId?: number, toChainId?: number): DurationBaseline {
+  const [baseline, setBaseline] = useState(() => getDefaultBaseline(tool, fromChainId, toChainId))
+
+  useEffect(() => {
+    setBaseline(getDefaultBaseline(tool, fromChainId, toChainId))
+    if (!tool) return
+
+    const controller = new AbortController()
+    const params = new URLSearchParams({ tool })
+    if (fromChainId) params.set('fromChain', fromChainId.toString())
+    if (toChainId) params.set('toChain', toChainId.toString())
+
+    fetch(`/api/lifi/baselines?${params}`, { signal: controller.signal })
+      .then(async response => {
+        if (!response.ok) return
+        setBaseline(await response.json())
+      })
+      .catch(error => {
+        // Keep the seeded default
+        if (!controller.signal.aborted) {
+          console.warn('Failed to load duration baseline:', error)
+        }
+      })
+
+    return () => controller.abort()
+  }, [tool, fromChainId, toChainId])
+
+  return baseline
+}
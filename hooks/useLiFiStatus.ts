@@ -1,18 +1,20 @@
 'use client'
 
-import { useState, useEffect, useCallback, useRef } from 'react'
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
 import { 
   getTransactionStatus, 
   getMultipleStatuses,
   pollTransactionStatus,
+  parseStatusResponse,
   ParsedStatusResponse
 } from '@/lib/api'
-import { ApiError } from '@/types/lifi'
+import { ApiError, StatusResponse } from '@/types/lifi'
 import { StatusRequest } from '@/types/lifi'
+import { useSearchHistory } from './useSearchHistory'
 
 interface UseTransactionStatusOptions {
+  // Follow the status stream while the transfer is pending
   autoRefresh?: boolean
-  refreshInterval?: number
   maxRetries?: number
   onStatusChange?: (status: ParsedStatusResponse) => void
   onError?: (error: ApiError) => void
@@ -42,15 +44,35 @@ export function useTransactionStatus(
   
   const {
     autoRefresh = false,
-    refreshInterval = 10000,
     maxRetries = 3,
     onStatusChange,
     onError
   } = options
 
-  const pollingRef = useRef<NodeJS.Timeout | null>(null)
   const retryCountRef = useRef(0)
 
+  // Live updates come from the shared SSE stream rather than a per-tab interval
+  const stream = useTransactionStream(request, {
+    enabled: isPolling,
+    onStatusChange: (result) => {
+      setStatus(result)
+      onStatusChange?.(result)
+    },
+    onError: (apiError) => {
+      setError(apiError)
+      onError?.(apiError)
+    }
+  })
+
+  const stopPolling = useCallback(() => {
+    setIsPolling(false)
+  }, [])
+
+  // The stream ends once the transfer is DONE or FAILED
+  useEffect(() => {
+    if (stream.isComplete) stopPolling()
+  }, [stream.isComplete, stopPolling])
+
   const fetchStatus = useCallback(async (showLoading = true) => {
     if (!request?.txHash) return
 
@@ -65,7 +87,7 @@ export function useTransactionStatus(
       retryCountRef.current = 0
       onStatusChange?.(result)
 
-      // Stop polling if transaction is completed or failed
+      // Nothing left to stream once the transaction is completed or failed
       if (result.isCompleted || result.isFailed) {
         stopPolling()
       }
@@ -82,27 +104,12 @@ export function useTransactionStatus(
     } finally {
       setLoading(false)
     }
-  }, [request, maxRetries, onStatusChange, onError])
+  }, [request, maxRetries, onStatusChange, onError, stopPolling])
 
   const refetch = useCallback(() => fetchStatus(true), [fetchStatus])
 
   const startPolling = useCallback(() => {
-    if (isPolling) return
-
     setIsPolling(true)
-    fetchStatus(false)
-    
-    pollingRef.current = setInterval(() => {
-      fetchStatus(false)
-    }, refreshInterval)
-  }, [fetchStatus, refreshInterval, isPolling])
-
-  const stopPolling = useCallback(() => {
-    setIsPolling(false)
-    if (pollingRef.current) {
-      clearInterval(pollingRef.current)
-      pollingRef.current = null
-    }
   }, [])
 
   // Initial fetch
@@ -151,10 +158,11 @@ interface UseMultipleStatusesReturn {
 }
 
 /**
- * Hook for fetching multiple transaction statuses
+ * Hook for fetching multiple transaction statuses; each request is a hash or
+ * a hash with its own fromChain/toChain/bridge
  */
 export function useMultipleStatuses(
-  txHashes: string[],
+  requests: Array<string | StatusRequest>,
   options: UseMultipleStatusesOptions = {}
 ): UseMultipleStatusesReturn {
   const [statuses, setStatuses] = useState<(ParsedStatusResponse | null)[]>([])
@@ -163,8 +171,12 @@ export function useMultipleStatuses(
 
   const { onUpdate, onError } = options
 
+  // Callers usually build a new array each render; only different lookups refetch
+  const requestsKey = JSON.stringify(requests)
+  const stableRequests = useMemo(() => JSON.parse(requestsKey) as Array<string | StatusRequest>, [requestsKey])
+
   const fetchStatuses = useCallback(async () => {
-    if (txHashes.length === 0) {
+    if (stableRequests.length === 0) {
       setStatuses([])
       return
     }
@@ -173,7 +185,7 @@ export function useMultipleStatuses(
     setError(null)
 
     try {
-      const results = await getMultipleStatuses(txHashes, options)
+      const results = await getMultipleStatuses(stableRequests, options)
       setStatuses(results)
       onUpdate?.(results)
     } catch (err) {
@@ -183,7 +195,7 @@ export function useMultipleStatuses(
     } finally {
       setLoading(false)
     }
-  }, [txHashes.join(','), options.fromChain, options.toChain, options.bridge, onUpdate, onError])
+  }, [stableRequests, options.fromChain, options.toChain, options.bridge, onUpdate, onError])
 
   const refetch = useCallback(() => fetchStatuses(), [fetchStatuses])
 
@@ -311,48 +323,124 @@ export function usePollTransaction(
   }
 }
 
+interface UseTransactionStreamOptions {
+  enabled?: boolean
+  onStatusChange?: (status: ParsedStatusResponse) => void
+  onError?: (error: ApiError) => void
+}
+
+interface UseTransactionStreamReturn {
+  status: ParsedStatusResponse | null
+  error: ApiError | null
+  isConnected: boolean
+  isComplete: boolean
+}
+
 /**
- * Hook for managing transaction search history
+ * Hook for live status updates over the /api/lifi/status/stream SSE endpoint.
+ * The server shares one upstream poll per hash and only pushes transitions.
  */
-export function useTransactionHistory() {
-  const [history, setHistory] = useState<string[]>([])
+export function useTransactionStream(
+  request: StatusRequest | null,
+  options: UseTransactionStreamOptions = {}
+): UseTransactionStreamReturn {
+  const [status, setStatus] = useState<ParsedStatusResponse | null>(null)
+  const [error, setError] = useState<ApiError | null>(null)
+  const [isConnected, setIsConnected] = useState(false)
+  const [isComplete, setIsComplete] = useState(false)
+
+  const { enabled = true } = options
+
+  // Keep the latest callbacks without reopening the stream when they change
+  const callbacksRef = useRef(options)
+  callbacksRef.current = options
 
   useEffect(() => {
-    const saved = localStorage.getItem('lifi-search-history')
-    if (saved) {
-      try {
-        setHistory(JSON.parse(saved))
-      } catch {
-        // Ignore invalid JSON
-      }
+    if (!enabled || !request?.txHash || typeof EventSource === 'undefined') return
+
+    const searchParams = new URLSearchParams({ txHash: request.txHash })
+    if (request.fromChain) searchParams.append('fromChain', request.fromChain)
+    if (request.toChain) searchParams.append('toChain', request.toChain)
+    if (request.bridge) searchParams.append('bridge', request.bridge)
+
+    const source = new EventSource(`/api/lifi/status/stream?${searchParams.toString()}`)
+    setIsComplete(false)
+    setError(null)
+
+    const handleStatus = (data: StatusResponse) => {
+      const parsed = parseStatusResponse(data)
+      setStatus(parsed)
+      callbacksRef.current.onStatusChange?.(parsed)
     }
-  }, [])
 
-  const addToHistory = useCallback((txHash: string) => {
-    setHistory(prev => {
-      const updated = [txHash, ...prev.filter(h => h !== txHash)].slice(0, 10)
-      localStorage.setItem('lifi-search-history', JSON.stringify(updated))
-      return updated
+    source.onopen = () => setIsConnected(true)
+
+    source.addEventListener('status', (event) => {
+      handleStatus(JSON.parse((event as MessageEvent).data))
     })
-  }, [])
 
-  const removeFromHistory = useCallback((txHash: string) => {
-    setHistory(prev => {
-      const updated = prev.filter(h => h !== txHash)
-      localStorage.setItem('lifi-search-history', JSON.stringify(updated))
-      return updated
+    source.addEventListener('upstream_error', (event) => {
+      const apiError = JSON.parse((event as MessageEvent).data) as ApiError
+      setError(apiError)
+      callbacksRef.current.onError?.(apiError)
     })
-  }, [])
 
-  const clearHistory = useCallback(() => {
-    setHistory([])
-    localStorage.removeItem('lifi-search-history')
-  }, [])
+    source.addEventListener('end', (event) => {
+      const data = JSON.parse((event as MessageEvent).data) as StatusResponse | null
+      if (data) handleStatus(data)
+      setIsComplete(true)
+      setIsConnected(false)
+      source.close()
+    })
+
+    source.onerror = () => {
+      // EventSource reconnects on its own unless the connection was refused outright
+      setIsConnected(false)
+      if (source.readyState === EventSource.CLOSED) {
+        const apiError: ApiError = {
+          code: 'NETWORK_ERROR',
+          message: 'Live status stream disconnected',
+          isRetryable: true,
+          isNetworkError: true
+        }
+        setError(apiError)
+        callbacksRef.current.onError?.(apiError)
+      }
+    }
+
+    return () => {
+      source.close()
+      setIsConnected(false)
+    }
+  }, [enabled, request?.txHash, request?.fromChain, request?.toChain, request?.bridge])
+
+  return {
+    status,
+    error,
+    isConnected,
+    isComplete
+  }
+}
+
+/**
+ * Hook for managing transaction search history, backed by the shared history store
+ */
+export function useTransactionHistory() {
+  const { entries, recordLookup, remove, clear } = useSearchHistory()
+
+  const history = useMemo(
+    () => entries.filter(entry => entry.kind === 'transaction').map(entry => entry.query),
+    [entries]
+  )
+
+  const addToHistory = useCallback((txHash: string) => {
+    recordLookup(txHash, 'transaction')
+  }, [recordLookup])
 
   return {
     history,
     addToHistory,
-    removeFromHistory,
-    clearHistory
+    removeFromHistory: remove,
+    clearHistory: clear
   }
 }
@@ -0,0 +1,20 @@
+'use client'
+
+import { useEffect } from 'react'
+import { useHistoryStore } from '@/lib/history-store'
+
+/**
+ * Shared search history, loaded from localStorage (and migrated from the legacy
+ * keys) after the first render
+ */
+export function useSearchHistory() {
+  const history = useHistoryStore()
+
+  useEffect(() => {
+    if (!useHistoryStore.persist.hasHydrated()) {
+      useHistoryStore.persist.rehydrate()
+    }
+  }, [])
+
+  return history
+}
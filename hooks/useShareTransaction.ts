@@ -0,0 +1,25 @@
+'use client'
+
+import { useCallback } from 'react'
+import { toast } from 'sonner'
+import { copyTransactionLink, PermalinkParams } from '@/lib/permalink'
+
+/**
+ * Copies a transaction's permalink to the clipboard and confirms with a toast
+ */
+export function useShareTransaction() {
+  return useCallback(async (txHash?: string | null, params: PermalinkParams = {}) => {
+    if (!txHash) {
+      toast.error('Select a transaction to share')
+      return
+    }
+
+    try {
+      await copyTransactionLink(txHash, params)
+      toast.success('Link copied to clipboard')
+    } catch (error) {
+      console.error('Failed to copy link:', error)
+      toast.error('Could not copy the link')
+    }
+  }, [])
+}
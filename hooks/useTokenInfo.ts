@@ -0,0 +1,32 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { tokenService, TokenReference } from '@/lib/token-service'
+
+/**
+ * Token metadata with missing decimals, symbol, logo and price filled in by the
+ * token service. Returns the given token until the lookup resolves.
+ */
+export function useTokenInfo<T extends TokenReference>(token?: T): TokenReference | undefined {
+  const [enriched, setEnriched] = useState<TokenReference | undefined>(token)
+
+  // Callers pass a new object each render; only a different token warrants a new lookup
+  const tokenKey = token ? JSON.stringify(token) : undefined
+  const stableToken = useMemo(() => tokenKey ? JSON.parse(tokenKey) as T : undefined, [tokenKey])
+
+  useEffect(() => {
+    setEnriched(stableToken)
+    if (!stableToken) return
+
+    let cancelled = false
+    tokenService.enrichToken(stableToken).then(result => {
+      if (!cancelled) setEnriched(result)
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [stableToken])
+
+  return enriched
+}
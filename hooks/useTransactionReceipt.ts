@@ -0,0 +1,66 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { RevertAnalysis, TransactionReceiptInfo } from '@/types/lifi'
+
+interface ChainLookupState<T> {
+  data: T | null
+  isLoading: boolean
+  error: string | null
+}
+
+/**
+ * GET one of the /api/chain routes for a transaction. Does nothing until both a
+ * chain ID and a hash are given.
+ */
+function useChainLookup<T>(endpoint: string, chainId?: number, txHash?: string): ChainLookupState<T> {
+  const [state, setState] = useState<ChainLookupState<T>>({
+    data: null,
+    isLoading: false,
+    error: null
+  })
+
+  useEffect(() => {
+    if (!chainId || !txHash) {
+      setState({ data: null, isLoading: false, error: null })
+      return
+    }
+
+    const controller = new AbortController()
+    setState({ data: null, isLoading: true, error: null })
+
+    const params = new URLSearchParams({ chainId: chainId.toString(), txHash })
+    fetch(`/api/chain/${endpoint}?${params}`, { signal: controller.signal })
+      .then(async response => {
+        const data = await response.json()
+        if (!response.ok) {
+          throw new Error(data?.error?.message || `Request failed with status ${response.status}`)
+        }
+        setState({ data, isLoading: false, error: null })
+      })
+      .catch(error => {
+        if (controller.signal.aborted) return
+        setState({ data: null, isLoading: false, error: error.message || 'Request failed' })
+      })
+
+    return () => controller.abort()
+  }, [endpoint, chainId, txHash])
+
+  return state
+}
+
+/**
+ * On-chain receipt for an EVM transaction, fetched through /api/chain/receipt
+ */
+export function useTransactionReceipt(chainId?: number, txHash?: string) {
+  const { data, ...state } = useChainLookup<TransactionReceiptInfo>('receipt', chainId, txHash)
+  return { receipt: data, ...state }
+}
+
+/**
+ * Decoded revert reason for a failed EVM transaction, replayed through /api/chain/revert
+ */
+export function useRevertAnalysis(chainId?: number, txHash?: string) {
+  const { data, ...state } = useChainLookup<RevertAnalysis>('revert', chainId, txHash)
+  return { analysis: data, ...state }
+}
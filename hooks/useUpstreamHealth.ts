@@ -0,0 +1,14 @@
+'use client'
+
+import { useSyncExternalStore } from 'react'
+import { lifiClient, UpstreamHealth } from '@/lib/lifi-client'
+
+const subscribe = (listener: () => void) => lifiClient.subscribeToHealth(listener)
+const getHealth = () => lifiClient.getHealth()
+
+/**
+ * LI.FI upstream health from the client's circuit breakers
+ */
+export function useUpstreamHealth(): UpstreamHealth {
+  return useSyncExternalStore(subscribe, getHealth, getHealth)
+}
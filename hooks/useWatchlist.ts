@@ -0,0 +1,21 @@
+'use client'
+
+import { useEffect, useSyncExternalStore } from 'react'
+import { watchlist, Watchlist } from '@/lib/watchlist'
+
+const subscribe = (listener: () => void) => watchlist.subscribe(listener)
+const getVersion = () => watchlist.getVersion()
+
+/**
+ * Pinned transfers, re-rendering on changes and on status updates from the
+ * watchlist service worker
+ */
+export function useWatchlist(): Watchlist {
+  useSyncExternalStore(subscribe, getVersion, getVersion)
+
+  useEffect(() => {
+    watchlist.load()
+  }, [])
+
+  return watchlist
+}
@@ -0,0 +1,85 @@
+/**
+ * Minimal ABI decoding for flat parameter lists (static types, string and bytes),
+ * shared by the revert and event log decoders.
+ */
+
+export interface AbiParam {
+  name?: string
+  type: string
+}
+
+export interface DecodedParam extends AbiParam {
+  value: string
+}
+
+/**
+ * Parameters of a human-readable signature, e.g.
+ * "InsufficientBalance(uint256 required, uint256 balance)"
+ */
+export function parseParams(signature: string): AbiParam[] {
+  const inner = signature.slice(signature.indexOf('(') + 1, signature.lastIndexOf(')')).trim()
+  if (!inner) return []
+
+  return inner.split(',').map(param => {
+    const [type, name] = param.trim().split(/\s+/)
+    return { type, name }
+  })
+}
+
+/**
+ * 32-byte word at the given index of hex data (without 0x)
+ */
+export function readWord(data: string, index: number): string {
+  const word = data.slice(index * 64, (index + 1) * 64)
+  if (word.length !== 64) {
+    throw new Error('ABI data is shorter than its parameter list')
+  }
+  return word
+}
+
+function decodeDynamic(data: string, offsetWord: string, type: string): string {
+  const start = Number(BigInt(`0x${offsetWord}`)) * 2
+  const length = Number(BigInt(`0x${data.slice(start, start + 64)}`)) * 2
+  const bytes = data.slice(start + 64, start + 64 + length)
+
+  if (type === 'bytes') return `0x${bytes}`
+
+  const buffer = new Uint8Array(bytes.length / 2)
+  for (let i = 0; i < buffer.length; i++) {
+    buffer[i] = parseInt(bytes.slice(i * 2, i * 2 + 2), 16)
+  }
+  return new TextDecoder().decode(buffer)
+}
+
+/**
+ * Decode a single static word (e.g. an indexed event topic)
+ */
+export function decodeWord(word: string, type: string): string {
+  if (type === 'address') return `0x${word.slice(24)}`
+  if (type === 'bool') return BigInt(`0x${word}`) === BigInt(0) ? 'false' : 'true'
+  if (type.startsWith('bytes')) return `0x${word.slice(0, parseInt(type.slice(5), 10) * 2)}`
+
+  const value = BigInt(`0x${word}`)
+  if (type.startsWith('int') && word[0] >= '8') {
+    // Two's complement for negative signed integers
+    return (value - BigInt(`0x1${'0'.repeat(64)}`)).toString()
+  }
+  return value.toString()
+}
+
+/**
+ * Decode ABI-encoded parameters from hex data (with or without 0x). Dynamic
+ * offsets are relative to the start of the data.
+ */
+export function decodeParameters(data: string, params: AbiParam[]): DecodedParam[] {
+  const body = data.startsWith('0x') ? data.slice(2) : data
+
+  return params.map((param, index) => {
+    const word = readWord(body, index)
+    const value = param.type === 'string' || param.type === 'bytes'
+      ? decodeDynamic(body, word, param.type)
+      : decodeWord(word, param.type)
+
+    return { ...param, value }
+  })
+}
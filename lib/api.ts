@@ -3,13 +3,16 @@ import {
   StatusResponse, 
   BatchStatusRequest,
   BatchStatusResponse,
+  TransfersRequest,
+  RequestOptions,
   ApiError 
 } from '@/types/lifi'
 import { lifiClient } from './lifi-client'
 import { 
   parseStatusResponse, 
   ParsedStatusResponse,
-  isValidTxHash 
+  isValidTxHash,
+  isValidWalletAddress
 } from './lifi-utils'
 
 /**
@@ -20,7 +23,8 @@ import {
  * Get transaction status with enhanced parsing and error handling
  */
 export async function getTransactionStatus(
-  params: StatusRequest
+  params: StatusRequest,
+  options?: RequestOptions
 ): Promise<ParsedStatusResponse> {
   // Validate transaction hash format
   if (!isValidTxHash(params.txHash)) {
@@ -28,10 +32,12 @@ export async function getTransactionStatus(
   }
 
   try {
-    const response = await lifiClient.getStatus(params)
+    const response = await lifiClient.getStatus(params, options)
     return parseStatusResponse(response)
   } catch (error) {
     const apiError = error as ApiError
+    if (apiError.code === 'ABORTED') throw error
+
     console.error('Error fetching transaction status:', {
       txHash: params.txHash,
       error: apiError.message,
@@ -46,40 +52,48 @@ export async function getTransactionStatus(
  * Get raw transaction status without parsing (for compatibility)
  */
 export async function getTransactionStatusRaw(
-  params: StatusRequest
+  params: StatusRequest,
+  options?: RequestOptions
 ): Promise<StatusResponse> {
-  return lifiClient.getStatus(params)
+  return lifiClient.getStatus(params, options)
 }
 
 /**
- * Get multiple transaction statuses efficiently with batch processing
+ * Get multiple transaction statuses efficiently with batch processing. Each
+ * request is a hash or a hash with its own fromChain/toChain/bridge, which take
+ * precedence over the ones in options.
  */
 export async function getMultipleStatuses(
-  txHashes: string[],
+  requests: Array<string | StatusRequest>,
   options?: {
     fromChain?: string
     toChain?: string
     bridge?: string
     parsed?: boolean
+    signal?: AbortSignal
   }
 ): Promise<(ParsedStatusResponse | null)[]> {
-  if (txHashes.length === 0) return []
+  if (requests.length === 0) return []
+
+  const items = requests.map(request => typeof request === 'string' ? { txHash: request } : request)
 
   // Validate all transaction hashes
-  const invalidHashes = txHashes.filter(hash => !isValidTxHash(hash))
+  const invalidHashes = items.filter(item => !isValidTxHash(item.txHash)).map(item => item.txHash)
   if (invalidHashes.length > 0) {
     throw new Error(`Invalid transaction hash formats: ${invalidHashes.join(', ')}`)
   }
 
+  // Results come back in item order
   const batchRequest: BatchStatusRequest = {
-    txHashes,
+    txHashes: [],
+    items,
     fromChain: options?.fromChain,
     toChain: options?.toChain,
     bridge: options?.bridge
   }
 
   try {
-    const batchResponse = await lifiClient.getBatchStatus(batchRequest)
+    const batchResponse = await lifiClient.getBatchStatus(batchRequest, { signal: options?.signal })
     
     return batchResponse.results.map(result => {
       if (result.error) {
@@ -100,24 +114,61 @@ export async function getMultipleStatuses(
 }
 
 /**
- * Get multiple transaction statuses raw (without parsing)
+ * Get multiple transaction statuses raw (without parsing). Requests take the
+ * same forms as in getMultipleStatuses.
  */
 export async function getMultipleStatusesRaw(
-  txHashes: string[],
+  requests: Array<string | StatusRequest>,
   options?: {
     fromChain?: string
     toChain?: string
     bridge?: string
+    signal?: AbortSignal
   }
 ): Promise<BatchStatusResponse> {
   const batchRequest: BatchStatusRequest = {
-    txHashes,
+    txHashes: [],
+    items: requests.map(request => typeof request === 'string' ? { txHash: request } : request),
     fromChain: options?.fromChain,
     toChain: options?.toChain,
     bridge: options?.bridge
   }
 
-  return lifiClient.getBatchStatus(batchRequest)
+  return lifiClient.getBatchStatus(batchRequest, { signal: options?.signal })
+}
+
+/**
+ * Get a page of LI.FI transfers for a wallet address, parsed for display
+ */
+export async function getWalletTransfers(
+  params: TransfersRequest,
+  options?: RequestOptions
+): Promise<{
+  transfers: ParsedStatusResponse[]
+  hasNext: boolean
+  hasPrevious: boolean
+  next?: string
+  previous?: string
+}> {
+  if (!isValidWalletAddress(params.wallet)) {
+    throw new Error(`Invalid wallet address format: ${params.wallet}`)
+  }
+
+  try {
+    const response = await lifiClient.getTransfers(params, options)
+    return {
+      ...response,
+      transfers: response.transfers.map(parseStatusResponse)
+    }
+  } catch (error) {
+    const apiError = error as ApiError
+    console.error('Error fetching wallet transfers:', {
+      wallet: params.wallet,
+      error: apiError.message,
+      code: apiError.code
+    })
+    throw error
+  }
 }
 
 /**
@@ -176,6 +227,13 @@ export function clearCache(): void {
   lifiClient.clearCache()
 }
 
+/**
+ * Drop cached statuses so the next lookup of these transactions reaches the server
+ */
+export function invalidateStatuses(txHashes: string[]): void {
+  txHashes.forEach(txHash => lifiClient.invalidateStatus(txHash))
+}
+
 /**
  * Clear expired cache entries
  */
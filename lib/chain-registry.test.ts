@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest'
+import { ChainRegistry } from './chain-registry'
+import { SUI_CHAIN_ID } from './hash-classifier'
+
+const SUI_DIGEST = 'GzFC3mhx7Kzb8vXYzq2eYAbSKwtpBznmqpeyRAL3Xp3q'
+const EVM_TX_HASH = '0x9f3a7c2e1b5d8f4a6c0e2b4d6f8a0c2e4b6d8f0a2c4e6b8d0f2a4c6e8b0d2f4a'
+
+describe('ChainRegistry.register', () => {
+  it('keeps the built-in explorer link of non-EVM chains', () => {
+    const registry = new ChainRegistry()
+    registry.register([{
+      id: SUI_CHAIN_ID,
+      key: 'sui',
+      name: 'Sui',
+      chainType: 'MVM',
+      coin: 'SUI',
+      explorerTxUrlTemplate: 'https://suivision.xyz/tx/{txHash}'
+    }])
+
+    expect(registry.getExplorerTxUrl(SUI_DIGEST, SUI_CHAIN_ID)).toBe(`https://suivision.xyz/txblock/${SUI_DIGEST}`)
+  })
+
+  it('prefers the LI.FI explorer for EVM chains', () => {
+    const registry = new ChainRegistry()
+    registry.register([{
+      id: 1,
+      key: 'eth',
+      name: 'Ethereum',
+      chainType: 'EVM',
+      coin: 'ETH',
+      explorerTxUrlTemplate: 'https://eth.blockscout.com/tx/{txHash}'
+    }])
+
+    expect(registry.getExplorerTxUrl(EVM_TX_HASH, 1)).toBe(`https://eth.blockscout.com/tx/${EVM_TX_HASH}`)
+  })
+
+  it('keeps the built-in explorer when LI.FI lists none', () => {
+    const registry = new ChainRegistry()
+    registry.register([{ id: 10, key: 'opt', name: 'OP Mainnet', chainType: 'EVM', coin: 'ETH' }])
+
+    expect(registry.getChainName(10)).toBe('OP Mainnet')
+    expect(registry.getExplorerTxUrl(EVM_TX_HASH, 10)).toBe(`https://optimistic.etherscan.io/tx/${EVM_TX_HASH}`)
+  })
+})
@@ -0,0 +1,208 @@
+import { ChainInfo, ChainType, TokenInfo } from '@/types/lifi'
+import {
+  classifyTxHash,
+  SOLANA_CHAIN_ID,
+  BITCOIN_CHAIN_ID,
+  SUI_CHAIN_ID
+} from './hash-classifier'
+
+/**
+ * Chain metadata backed by LI.FI /chains.
+ *
+ * The registry starts from a built-in list of the chains LI.FI Lens has always known
+ * about, so names and explorer links still work offline, and merges in the full
+ * LI.FI chain list once /api/lifi/chains has been loaded.
+ */
+
+type Listener = () => void
+
+export const EVM_NATIVE_ADDRESS = '0x0000000000000000000000000000000000000000'
+
+function nativeToken(
+  chainId: number,
+  symbol: string,
+  name: string,
+  decimals = 18,
+  address = EVM_NATIVE_ADDRESS
+): TokenInfo {
+  return { address, chainId, symbol, decimals, name, coinKey: symbol }
+}
+
+function fallbackChain(
+  id: number,
+  key: string,
+  name: string,
+  explorerTxUrlTemplate: string,
+  token: TokenInfo,
+  chainType: ChainType = 'EVM'
+): ChainInfo {
+  return { id, key, name, chainType, coin: token.symbol, nativeToken: token, explorerTxUrlTemplate }
+}
+
+// Offline fallback, used until (or if) the LI.FI chain list can be loaded
+const FALLBACK_CHAINS: ChainInfo[] = [
+  fallbackChain(1, 'eth', 'Ethereum', 'https://etherscan.io/tx/{txHash}', nativeToken(1, 'ETH', 'Ethereum')),
+  fallbackChain(137, 'pol', 'Polygon', 'https://polygonscan.com/tx/{txHash}', nativeToken(137, 'POL', 'Polygon Ecosystem Token')),
+  fallbackChain(42161, 'arb', 'Arbitrum', 'https://arbiscan.io/tx/{txHash}', nativeToken(42161, 'ETH', 'Ethereum')),
+  fallbackChain(10, 'opt', 'Optimism', 'https://optimistic.etherscan.io/tx/{txHash}', nativeToken(10, 'ETH', 'Ethereum')),
+  fallbackChain(56, 'bsc', 'BNB Smart Chain', 'https://bscscan.com/tx/{txHash}', nativeToken(56, 'BNB', 'BNB')),
+  fallbackChain(43114, 'ava', 'Avalanche', 'https://snowtrace.io/tx/{txHash}', nativeToken(43114, 'AVAX', 'Avalanche')),
+  fallbackChain(250, 'ftm', 'Fantom', 'https://ftmscan.com/tx/{txHash}', nativeToken(250, 'FTM', 'Fantom')),
+  fallbackChain(100, 'dai', 'Gnosis', 'https://gnosisscan.io/tx/{txHash}', nativeToken(100, 'xDAI', 'xDAI')),
+  fallbackChain(8453, 'bas', 'Base', 'https://basescan.org/tx/{txHash}', nativeToken(8453, 'ETH', 'Ethereum')),
+  fallbackChain(324, 'era', 'zkSync Era', 'https://explorer.zksync.io/tx/{txHash}', nativeToken(324, 'ETH', 'Ethereum')),
+  fallbackChain(167000, 'tai', 'Taiko', 'https://taikoscan.io/tx/{txHash}', nativeToken(167000, 'ETH', 'Ethereum')),
+  fallbackChain(59144, 'lna', 'Linea', 'https://lineascan.build/tx/{txHash}', nativeToken(59144, 'ETH', 'Ethereum')),
+  fallbackChain(
+    SOLANA_CHAIN_ID,
+    'sol',
+    'Solana',
+    'https://solscan.io/tx/{txHash}',
+    nativeToken(SOLANA_CHAIN_ID, 'SOL', 'Solana', 9, '11111111111111111111111111111111'),
+    'SVM'
+  ),
+  fallbackChain(
+    BITCOIN_CHAIN_ID,
+    'btc',
+    'Bitcoin',
+    'https://mempool.space/tx/{txHash}',
+    nativeToken(BITCOIN_CHAIN_ID, 'BTC', 'Bitcoin', 8, 'bitcoin'),
+    'UTXO'
+  ),
+  fallbackChain(
+    SUI_CHAIN_ID,
+    'sui',
+    'Sui',
+    'https://suivision.xyz/txblock/{txHash}',
+    nativeToken(SUI_CHAIN_ID, 'SUI', 'Sui', 9, '0x2::sui::SUI'),
+    'MVM'
+  )
+]
+
+export class ChainRegistry {
+  private chains = new Map<number, ChainInfo>()
+  private listeners = new Set<Listener>()
+  private loadPromise: Promise<void> | null = null
+  private loaded = false
+  private version = 0
+
+  constructor(fallback: ChainInfo[] = FALLBACK_CHAINS) {
+    fallback.forEach(chain => this.chains.set(chain.id, chain))
+  }
+
+  /**
+   * Load the LI.FI chain list once per page. Failures keep the fallback data.
+   */
+  load(): Promise<void> {
+    // Relative API URLs only resolve in the browser; the server uses the fallback
+    if (typeof window === 'undefined') return Promise.resolve()
+
+    if (!this.loadPromise) {
+      this.loadPromise = fetch('/api/lifi/chains')
+        .then(async response => {
+          if (!response.ok) {
+            throw new Error(`Chain list request failed with status ${response.status}`)
+          }
+          const data = await response.json()
+          this.register(Array.isArray(data?.chains) ? data.chains : [])
+          this.loaded = true
+        })
+        .catch(error => {
+          console.warn('Failed to load LI.FI chain list, using built-in chains:', error)
+          // Allow a later retry
+          this.loadPromise = null
+        })
+    }
+
+    return this.loadPromise ?? Promise.resolve()
+  }
+
+  /**
+   * Merge chains into the registry, keeping fallback fields LI.FI did not provide
+   */
+  register(chains: ChainInfo[]) {
+    chains.forEach(chain => {
+      if (!chain || typeof chain.id !== 'number') return
+
+      const existing = this.chains.get(chain.id)
+      // Non-EVM explorers use their own paths, so the built-in links win there
+      const explorerTxUrlTemplate = chain.chainType === 'EVM'
+        ? chain.explorerTxUrlTemplate || existing?.explorerTxUrlTemplate
+        : existing?.explorerTxUrlTemplate || chain.explorerTxUrlTemplate
+
+      this.chains.set(chain.id, {
+        ...existing,
+        ...chain,
+        explorerTxUrlTemplate
+      })
+    })
+
+    this.version++
+    this.listeners.forEach(listener => listener())
+  }
+
+  /**
+   * Subscribe to registry updates. Returns an unsubscribe function.
+   */
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Incremented on every update, for useSyncExternalStore snapshots
+   */
+  getVersion(): number {
+    return this.version
+  }
+
+  isLoaded(): boolean {
+    return this.loaded
+  }
+
+  getChain(chainId?: number): ChainInfo | undefined {
+    return chainId ? this.chains.get(chainId) : undefined
+  }
+
+  getChains(): ChainInfo[] {
+    return Array.from(this.chains.values())
+  }
+
+  getChainName(chainId?: number): string {
+    if (!chainId) return 'Unknown'
+    return this.chains.get(chainId)?.name || `Chain ${chainId}`
+  }
+
+  getChainType(chainId?: number): ChainType | undefined {
+    return this.getChain(chainId)?.chainType
+  }
+
+  getNativeToken(chainId?: number): TokenInfo | undefined {
+    return this.getChain(chainId)?.nativeToken
+  }
+
+  getNativeSymbol(chainId?: number): string | undefined {
+    const chain = this.getChain(chainId)
+    return chain?.nativeToken?.symbol || chain?.coin
+  }
+
+  getLogoURI(chainId?: number): string | undefined {
+    return this.getChain(chainId)?.logoURI
+  }
+
+  /**
+   * Explorer URL for a transaction. Without a chain ID, non-EVM hashes are
+   * resolved by their format alone.
+   */
+  getExplorerTxUrl(txHash?: string, chainId?: number): string | undefined {
+    if (!txHash) return undefined
+
+    const resolvedChainId = chainId || classifyTxHash(txHash)?.chainId
+    const template = this.getChain(resolvedChainId)?.explorerTxUrlTemplate
+    return template ? template.replace('{txHash}', txHash) : undefined
+  }
+}
+
+export const chainRegistry = new ChainRegistry()
@@ -0,0 +1,154 @@
+/**
+ * Circuit breaker for upstream endpoints.
+ *
+ * Tracks the outcome of recent requests. Once the failure rate crosses the threshold
+ * the circuit opens and requests fail fast; after a cool-down a single probe request
+ * is let through (half-open), and its outcome decides whether the circuit closes
+ * again or stays open for another cool-down.
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half-open'
+
+export interface CircuitBreakerOptions {
+  // Fraction of failed requests in the window that opens the circuit
+  failureRateThreshold?: number
+  // Requests needed in the window before the failure rate is trusted
+  minimumRequests?: number
+  // Number of most recent outcomes considered
+  windowSize?: number
+  // How long the circuit stays open before allowing a probe
+  openDuration?: number
+}
+
+export interface CircuitSnapshot {
+  name: string
+  state: CircuitState
+  failureRate: number
+  recentRequests: number
+  // When an open circuit will let the next probe through
+  nextAttemptAt?: number
+}
+
+type Listener = (snapshot: CircuitSnapshot) => void
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed'
+  private outcomes: boolean[] = []
+  private openedAt = 0
+  private probeInFlight = false
+  private listeners = new Set<Listener>()
+  private options: Required<CircuitBreakerOptions>
+
+  constructor(readonly name: string, options: CircuitBreakerOptions = {}) {
+    this.options = {
+      failureRateThreshold: options.failureRateThreshold ?? 0.5,
+      minimumRequests: options.minimumRequests ?? 5,
+      windowSize: options.windowSize ?? 20,
+      openDuration: options.openDuration ?? 30000
+    }
+  }
+
+  /**
+   * Whether a request may go out now. In half-open state only one probe is allowed.
+   */
+  canRequest(): boolean {
+    if (this.state === 'open') {
+      if (Date.now() - this.openedAt < this.options.openDuration) return false
+      this.transition('half-open')
+    }
+
+    if (this.state === 'half-open') {
+      if (this.probeInFlight) return false
+      this.probeInFlight = true
+    }
+
+    return true
+  }
+
+  recordSuccess() {
+    if (this.state === 'half-open') {
+      this.probeInFlight = false
+      this.outcomes = []
+      this.transition('closed')
+      return
+    }
+
+    this.recordOutcome(true)
+  }
+
+  recordFailure() {
+    if (this.state === 'half-open') {
+      this.probeInFlight = false
+      this.open()
+      return
+    }
+
+    this.recordOutcome(false)
+
+    if (this.outcomes.length >= this.options.minimumRequests &&
+        this.getFailureRate() >= this.options.failureRateThreshold) {
+      this.open()
+    }
+  }
+
+  /**
+   * Release a half-open probe that ended without an upstream verdict (e.g. cancelled)
+   */
+  releaseProbe() {
+    this.probeInFlight = false
+  }
+
+  /**
+   * Milliseconds until an open circuit allows a probe
+   */
+  getRetryAfter(): number {
+    if (this.state !== 'open') return 0
+    return Math.max(0, this.openedAt + this.options.openDuration - Date.now())
+  }
+
+  getSnapshot(): CircuitSnapshot {
+    return {
+      name: this.name,
+      state: this.state,
+      failureRate: this.getFailureRate(),
+      recentRequests: this.outcomes.length,
+      ...(this.state === 'open' && { nextAttemptAt: this.openedAt + this.options.openDuration })
+    }
+  }
+
+  /**
+   * Subscribe to state changes. Returns an unsubscribe function.
+   */
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private getFailureRate(): number {
+    if (this.outcomes.length === 0) return 0
+    return this.outcomes.filter(success => !success).length / this.outcomes.length
+  }
+
+  private recordOutcome(success: boolean) {
+    this.outcomes.push(success)
+    if (this.outcomes.length > this.options.windowSize) {
+      this.outcomes.shift()
+    }
+  }
+
+  private open() {
+    this.openedAt = Date.now()
+    this.transition('open')
+  }
+
+  private transition(state: CircuitState) {
+    // Re-opening from half-open still notifies so the new retry time is published
+    if (this.state === state && state !== 'open') return
+
+    this.state = state
+    const snapshot = this.getSnapshot()
+    this.listeners.forEach(listener => listener(snapshot))
+  }
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest'
+import { StatusResponse, TokenInfo, TransactionStatus, TransactionSubstatus } from '@/types/lifi'
+import { createDebugReport } from './debug-report'
+import { renderCsvReport } from './csv-report'
+
+const NOW = Date.UTC(2024, 4, 1, 12, 0, 0)
+const TX_HASH = '0x9f3a7c2e1b5d8f4a6c0e2b4d6f8a0c2e4b6d8f0a2c4e6b8d0f2a4c6e8b0d2f4a'
+
+const WETH: TokenInfo = {
+  address: '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2',
+  chainId: 1,
+  symbol: 'WETH',
+  decimals: 18,
+  name: 'Wrapped Ether',
+  priceUSD: '3000'
+}
+
+function transfer(overrides: Partial<StatusResponse> = {}): StatusResponse {
+  return {
+    status: TransactionStatus.DONE,
+    substatus: TransactionSubstatus.COMPLETED,
+    tool: 'stargate',
+    sending: {
+      txHash: TX_HASH,
+      amount: '1234567123456789012345678',
+      token: WETH,
+      chainId: 1,
+      gasToken: WETH,
+      gasAmount: '21000000000001'
+    },
+    ...overrides
+  }
+}
+
+// Cells of the first data row, keyed by header
+function csvRow(status: StatusResponse): Record<string, string> {
+  const [header, row] = renderCsvReport([createDebugReport({ txHash: TX_HASH, status, now: NOW })])
+    .split('\r\n')
+    .map(line => line.split(','))
+  return Object.fromEntries(header.map((name, index) => [name, row[index]]))
+}
+
+describe('renderCsvReport', () => {
+  it('writes exact amounts without grouping or truncation', () => {
+    const row = csvRow(transfer())
+
+    expect(row.from_amount).toBe('1234567.123456789012345678')
+    expect(row.from_gas).toBe('0.000021000000000001')
+  })
+
+  it.each(['=HYPERLINK("x")', '+1+1', '-1+cmd|x', '@SUM(A1)'])('prefixes the formula %s', tool => {
+    expect(csvRow(transfer({ tool })).tool).toMatch(/^"?'/)
+  })
+
+  it('keeps negative amounts numeric', () => {
+    const row = csvRow(transfer({ sending: { ...transfer().sending, amount: '-1500000000000000000' } }))
+    expect(row.from_amount).toBe('-1.5')
+  })
+})
@@ -0,0 +1,75 @@
+import { DebugReport, DebugReportLeg, DebugReportToken } from './debug-report'
+import { formatTokenAmount } from './token-service'
+
+/**
+ * Spreadsheet export: one row per transfer. Amounts are exact decimal token
+ * amounts without separators or symbols, USD values are plain numbers and
+ * timestamps are ISO 8601, so the columns import as numbers and dates.
+ */
+
+interface CsvColumn {
+  header: string
+  value: (report: DebugReport) => string | number | boolean | undefined
+}
+
+/**
+ * Exact decimal form of a raw base-unit amount, e.g. ("1500000", 6) -> "1.5"
+ */
+function toDecimalAmount(amount?: string, token?: DebugReportToken): string | undefined {
+  return amount && token ? formatTokenAmount(amount, token.decimals, undefined, { unformatted: true }) : undefined
+}
+
+function legColumns(prefix: string, leg: (report: DebugReport) => DebugReportLeg | undefined): CsvColumn[] {
+  return [
+    { header: `${prefix}_chain_id`, value: report => leg(report)?.chainId },
+    { header: `${prefix}_chain`, value: report => leg(report)?.chainName },
+    { header: `${prefix}_token`, value: report => leg(report)?.token?.symbol },
+    { header: `${prefix}_token_address`, value: report => leg(report)?.token?.address },
+    { header: `${prefix}_amount`, value: report => toDecimalAmount(leg(report)?.amount, leg(report)?.token) },
+    { header: `${prefix}_amount_usd`, value: report => leg(report)?.amountUSD },
+    { header: `${prefix}_gas`, value: report => toDecimalAmount(leg(report)?.gasAmount, leg(report)?.gasToken) },
+    { header: `${prefix}_gas_token`, value: report => leg(report)?.gasToken?.symbol },
+    { header: `${prefix}_gas_usd`, value: report => leg(report)?.gasAmountUSD },
+    { header: `${prefix}_tx_hash`, value: report => leg(report)?.txHash },
+    { header: `${prefix}_timestamp`, value: report => leg(report)?.timestamp }
+  ]
+}
+
+const COLUMNS: CsvColumn[] = [
+  { header: 'tx_hash', value: report => report.txHash },
+  { header: 'transfer_id', value: report => report.status.transactionId },
+  { header: 'status', value: report => report.status.status },
+  { header: 'substatus', value: report => report.status.substatus },
+  { header: 'tool', value: report => report.status.tool },
+  ...legColumns('from', report => report.sending),
+  ...legColumns('to', report => report.receiving),
+  { header: 'fees_usd', value: report => report.fees.totalFeeUSD },
+  { header: 'gas_usd', value: report => report.fees.totalGasUSD },
+  { header: 'duration_seconds', value: report => report.timing.durationSeconds },
+  { header: 'from_address', value: report => report.status.fromAddress },
+  { header: 'to_address', value: report => report.status.toAddress },
+  { header: 'generated_at', value: report => report.generatedAt }
+]
+
+function escapeCell(value: string | number | boolean | undefined): string {
+  if (value === undefined) return ''
+
+  let text = String(value)
+  // Keep spreadsheets from evaluating API-provided text as a formula; negative
+  // decimal amounts stay numbers
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text) && !/^-\d+(\.\d+)?$/.test(text)) {
+    text = `'${text}`
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * CSV for one or more transfers, with a header row and CRLF line endings
+ */
+export function renderCsvReport(reports: DebugReport[]): string {
+  const rows = [
+    COLUMNS.map(column => column.header),
+    ...reports.map(report => COLUMNS.map(column => escapeCell(column.value(report))))
+  ]
+  return rows.map(row => row.join(',')).join('\r\n') + '\r\n'
+}
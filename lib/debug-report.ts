@@ -0,0 +1,507 @@
+import {
+  FeeCost,
+  RequestOptions,
+  RouteComparison,
+  StatusRequest,
+  StatusResponse,
+  TokenInfo,
+  TransactionInfo,
+  TransactionStatus,
+  TransactionSubstatus
+} from '@/types/lifi'
+import { getMultipleStatusesRaw, getTransactionStatusRaw } from './api'
+import {
+  analyzeErrors,
+  ErrorContext,
+  ErrorSummary,
+  extractErrors,
+  getRelevantDocs,
+  suggestAlternatives,
+  ToolError
+} from './error-utils'
+import { fetchAlternativeRoutes } from './route-analysis'
+import {
+  DurationAssessment,
+  DurationBaseline,
+  assessDuration,
+  getDefaultBaseline,
+  getElapsedSeconds,
+  getTransferDuration,
+  shouldEscalate
+} from './duration-baselines'
+import { getBridgeToolName, getChainName, parseStatusResponse } from './lifi-utils'
+import { formatTokenAmount } from './token-service'
+import { formatUSD } from './utils'
+
+/**
+ * Self-contained debug report for a single transfer, meant to be attached to
+ * support tickets. Every export format is rendered from this model.
+ *
+ * The schema is versioned: bump DEBUG_REPORT_SCHEMA_VERSION whenever a field
+ * is removed, renamed or changes meaning. Adding optional fields does not
+ * require a bump.
+ */
+
+export const DEBUG_REPORT_SCHEMA_VERSION = 1
+
+const GENERATOR = { name: 'LiFi Lens', version: '0.1.0' }
+
+export interface DebugReportToken {
+  symbol: string
+  address: string
+  chainId: number
+  decimals: number
+}
+
+export interface DebugReportLeg {
+  txHash?: string
+  txLink?: string
+  chainId?: number
+  chainName: string
+  token?: DebugReportToken
+  // Raw base-unit amount and its human readable form
+  amount?: string
+  formattedAmount?: string
+  amountUSD?: string
+  gasAmount?: string
+  gasAmountUSD?: string
+  gasPrice?: string
+  gasUsed?: string
+  gasToken?: DebugReportToken
+  // ISO 8601, when the transaction was mined
+  timestamp?: string
+}
+
+export interface DebugReportFee {
+  name: string
+  description?: string
+  percentage?: string
+  token: DebugReportToken
+  amount?: string
+  formattedAmount?: string
+  amountUSD?: string
+  // Already deducted from the sent amount
+  included: boolean
+}
+
+export interface DebugReportRoute {
+  id: string
+  tools: string[]
+  recommendation: string
+  successProbability: number
+  riskLevel: 'LOW' | 'MEDIUM' | 'HIGH'
+  toAmount: string
+  formattedToAmount: string
+  toAmountUSD: string
+  totalFeesUSD: number
+  totalGasUSD: number
+  estimatedTimeSeconds: number
+  priceImpact: number
+  pros: string[]
+  cons: string[]
+}
+
+export interface DebugReport {
+  schemaVersion: typeof DEBUG_REPORT_SCHEMA_VERSION
+  // ISO 8601
+  generatedAt: string
+  generator: { name: string; version: string }
+  // Wallet addresses replaced by placeholders throughout, including the raw payload
+  redacted: boolean
+  txHash: string
+
+  /** Computed status fields, as shown in the UI */
+  status: {
+    status: TransactionStatus
+    substatus?: TransactionSubstatus
+    substatusMessage?: string
+    displayStatus: string
+    displaySubstatus?: string
+    statusColor: 'success' | 'warning' | 'error' | 'info'
+    isCompleted: boolean
+    isPartial: boolean
+    isRefunded: boolean
+    isPending: boolean
+    isFailed: boolean
+    canRetry: boolean
+    progress: number
+    estimatedTimeRemaining?: string
+    transactionId?: string
+    tool?: string
+    toolName: string
+    fromAddress?: string
+    toAddress?: string
+    lifiExplorerLink?: string
+    bridgeExplorerLink?: string
+  }
+
+  sending: DebugReportLeg
+  receiving?: DebugReportLeg
+
+  /** Error analysis: the raw extracted errors and the summary derived from them */
+  errors: {
+    apiError?: { code: string; message: string }
+    toolErrors: ToolError[]
+    substatus?: TransactionSubstatus
+    substatusMessage?: string
+    summary: ErrorSummary
+    suggestions: string[]
+    docs: Array<{ text: string; url: string }>
+  }
+
+  fees: {
+    items: DebugReportFee[]
+    totalFeeUSD?: number
+    // Gas paid on the source and destination chains
+    totalGasUSD?: number
+  }
+
+  /** All durations are in seconds */
+  timing: {
+    sentAt?: string
+    receivedAt?: string
+    // Source to destination, once both legs are mined
+    durationSeconds?: number
+    // Since the source transaction, for transfers still pending
+    elapsedSeconds?: number
+    baseline: DurationBaseline
+    assessment?: DurationAssessment
+    shouldEscalate: boolean
+  }
+
+  /** Alternative routes for the same transfer, best first; null when they could not be fetched */
+  alternatives: {
+    failureReasons: string[]
+    routes: DebugReportRoute[]
+  } | null
+
+  /** Unmodified LI.FI /status response (unless redacted) */
+  raw: StatusResponse
+}
+
+export interface DebugReportInput {
+  txHash: string
+  status: StatusResponse
+  alternatives?: RouteComparison | null
+  baseline?: DurationBaseline
+  redactAddresses?: boolean
+  // Defaults to the current time; fixed in snapshots
+  now?: number
+}
+
+export interface BuildDebugReportOptions extends RequestOptions {
+  fromChain?: string
+  toChain?: string
+  bridge?: string
+  redactAddresses?: boolean
+  // Skip the extra /routes requests
+  includeAlternatives?: boolean
+}
+
+function toReportToken(token: TokenInfo): DebugReportToken {
+  return {
+    symbol: token.symbol,
+    address: token.address,
+    chainId: token.chainId,
+    decimals: token.decimals
+  }
+}
+
+function formatAmount(amount?: string, token?: TokenInfo): string | undefined {
+  return amount && token ? formatTokenAmount(amount, token.decimals, token.symbol) : undefined
+}
+
+function toIsoTimestamp(seconds?: number): string | undefined {
+  return seconds ? new Date(seconds * 1000).toISOString() : undefined
+}
+
+function sumUSD(values: Array<string | undefined>): number | undefined {
+  const known = values.filter((value): value is string => !!value && !isNaN(parseFloat(value)))
+  return known.length > 0 ? known.reduce((sum, value) => sum + parseFloat(value), 0) : undefined
+}
+
+function toReportLeg(info: TransactionInfo): DebugReportLeg {
+  return {
+    txHash: info.txHash || undefined,
+    txLink: info.txLink,
+    chainId: info.chainId,
+    chainName: getChainName(info.chainId),
+    token: info.token ? toReportToken(info.token) : undefined,
+    amount: info.amount,
+    formattedAmount: formatAmount(info.amount, info.token),
+    amountUSD: info.amountUSD,
+    gasAmount: info.gasAmount,
+    gasAmountUSD: info.gasAmountUSD,
+    gasPrice: info.gasPrice,
+    gasUsed: info.gasUsed,
+    gasToken: info.gasToken ? toReportToken(info.gasToken) : undefined,
+    timestamp: toIsoTimestamp(info.timestamp)
+  }
+}
+
+function toReportFee(fee: FeeCost): DebugReportFee {
+  return {
+    name: fee.name,
+    description: fee.description,
+    percentage: fee.percentage,
+    token: toReportToken(fee.token),
+    amount: fee.amount,
+    formattedAmount: formatAmount(fee.amount, fee.token),
+    amountUSD: fee.amountUSD,
+    included: !!fee.included
+  }
+}
+
+function toReportAlternatives(comparison: RouteComparison): DebugReport['alternatives'] {
+  return {
+    failureReasons: comparison.failureReasons,
+    routes: comparison.alternativeRoutes.map(alternative => ({
+      id: alternative.route.id,
+      tools: alternative.route.steps.map(step => step.tool),
+      recommendation: alternative.recommendation,
+      successProbability: alternative.successProbability,
+      riskLevel: alternative.riskLevel,
+      toAmount: alternative.route.toAmount,
+      formattedToAmount: formatTokenAmount(
+        alternative.route.toAmount,
+        alternative.route.toToken.decimals,
+        alternative.route.toToken.symbol
+      ),
+      toAmountUSD: alternative.route.toAmountUSD,
+      totalFeesUSD: alternative.metrics.totalFeesUSD,
+      totalGasUSD: alternative.metrics.totalGasUSD,
+      estimatedTimeSeconds: alternative.metrics.estimatedTime,
+      priceImpact: alternative.metrics.priceImpact,
+      pros: alternative.pros,
+      cons: alternative.cons
+    }))
+  }
+}
+
+/**
+ * Replaces every occurrence of the given addresses (case-insensitive, also
+ * inside explorer URLs) with their placeholder
+ */
+function redactValue<T>(value: T, replacements: Array<[RegExp, string]>): T {
+  if (typeof value === 'string') {
+    return replacements.reduce((text, [pattern, placeholder]) => text.replace(pattern, placeholder), value as string) as T
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redactValue(item, replacements)) as T
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, redactValue(item, replacements)])
+    ) as T
+  }
+  return value
+}
+
+function redactAddresses(report: DebugReport): DebugReport {
+  const placeholders = new Map<string, string>()
+  const { fromAddress, toAddress } = report.raw
+  if (fromAddress) placeholders.set(fromAddress.toLowerCase(), '<sender>')
+  if (toAddress && !placeholders.has(toAddress.toLowerCase())) {
+    placeholders.set(toAddress.toLowerCase(), '<recipient>')
+  }
+
+  const replacements: Array<[RegExp, string]> = Array.from(placeholders, ([address, placeholder]) => [
+    new RegExp(address, 'gi'),
+    placeholder
+  ])
+
+  return { ...redactValue(report, replacements), redacted: true }
+}
+
+/**
+ * Assembles the report from data that has already been fetched
+ */
+export function createDebugReport({
+  txHash,
+  status,
+  alternatives,
+  baseline,
+  redactAddresses: redact = false,
+  now = Date.now()
+}: DebugReportInput): DebugReport {
+  const parsed = parseStatusResponse(status)
+  const { sending, receiving } = status
+
+  const extracted = extractErrors(status)
+  const context: ErrorContext = {
+    transactionHash: txHash,
+    fromChain: getChainName(sending.chainId),
+    toChain: receiving?.chainId ? getChainName(receiving.chainId) : undefined,
+    fromToken: sending.token?.symbol,
+    toToken: receiving?.token?.symbol,
+    amount: formatAmount(sending.amount, sending.token),
+    bridge: status.tool,
+    timestamp: sending.timestamp
+  }
+  const toolErrors = Array.isArray(extracted.toolErrors) ? extracted.toolErrors : []
+  // A COMPLETED substatus is not an error
+  const errorSubstatus = parsed.isCompleted ? undefined : extracted.substatus
+
+  const durationBaseline = baseline ?? getDefaultBaseline(status.tool, sending.chainId, receiving?.chainId)
+  const elapsedSeconds = parsed.isPending ? getElapsedSeconds(status, now) : undefined
+
+  const report: DebugReport = {
+    schemaVersion: DEBUG_REPORT_SCHEMA_VERSION,
+    generatedAt: new Date(now).toISOString(),
+    generator: GENERATOR,
+    redacted: false,
+    txHash,
+
+    status: {
+      status: parsed.status,
+      substatus: parsed.substatus,
+      substatusMessage: parsed.substatusMessage,
+      displayStatus: parsed.displayStatus,
+      displaySubstatus: parsed.displaySubstatus,
+      statusColor: parsed.statusColor,
+      isCompleted: parsed.isCompleted,
+      isPartial: parsed.isPartial,
+      isRefunded: parsed.isRefunded,
+      isPending: parsed.isPending,
+      isFailed: parsed.isFailed,
+      canRetry: parsed.canRetry,
+      progress: parsed.progress,
+      estimatedTimeRemaining: parsed.estimatedTimeRemaining,
+      transactionId: parsed.transactionId,
+      tool: parsed.tool,
+      toolName: getBridgeToolName(parsed.tool),
+      fromAddress: parsed.fromAddress,
+      toAddress: parsed.toAddress,
+      lifiExplorerLink: parsed.lifiExplorerLink,
+      bridgeExplorerLink: parsed.bridgeExplorerLink
+    },
+
+    sending: toReportLeg(sending),
+    receiving: receiving ? toReportLeg(receiving) : undefined,
+
+    errors: {
+      apiError: extracted.apiError,
+      toolErrors,
+      substatus: extracted.substatus,
+      substatusMessage: extracted.substatusMessage,
+      summary: analyzeErrors(extracted.apiError, toolErrors, errorSubstatus, context),
+      suggestions: suggestAlternatives(toolErrors, context),
+      docs: getRelevantDocs(extracted.apiError, toolErrors)
+    },
+
+    fees: {
+      items: (status.feeCosts || []).map(toReportFee),
+      totalFeeUSD: parsed.totalFeeUSD,
+      totalGasUSD: sumUSD([sending.gasAmountUSD, receiving?.gasAmountUSD])
+    },
+
+    timing: {
+      sentAt: toIsoTimestamp(sending.timestamp),
+      receivedAt: toIsoTimestamp(receiving?.timestamp),
+      durationSeconds: getTransferDuration(status),
+      elapsedSeconds,
+      baseline: durationBaseline,
+      assessment: elapsedSeconds !== undefined ? assessDuration(elapsedSeconds, durationBaseline) : undefined,
+      shouldEscalate: elapsedSeconds !== undefined && shouldEscalate(elapsedSeconds, durationBaseline)
+    },
+
+    alternatives: alternatives ? toReportAlternatives(alternatives) : null,
+
+    raw: status
+  }
+
+  return redact ? redactAddresses(report) : report
+}
+
+// Text helpers shared by the report renderers
+
+/**
+ * ISO timestamp as "YYYY-MM-DD HH:mm:ss UTC", independent of the viewer's timezone
+ */
+export function formatReportTime(iso?: string): string | undefined {
+  return iso ? `${iso.replace('T', ' ').replace(/(\.\d+)?Z$/, '')} UTC` : undefined
+}
+
+export function formatLegAmount(leg?: DebugReportLeg): string | undefined {
+  if (!leg?.formattedAmount) return undefined
+  return leg.amountUSD ? `${leg.formattedAmount} (${formatUSD(leg.amountUSD)})` : leg.formattedAmount
+}
+
+export function formatLegGas(leg?: DebugReportLeg): string {
+  if (!leg) return '-'
+  if (leg.gasAmountUSD) return formatUSD(leg.gasAmountUSD)
+  return leg.gasUsed ? `${leg.gasUsed} gas` : '-'
+}
+
+export function formatPercent(value: number): string {
+  return `${(value * 100).toFixed(2)}%`
+}
+
+async function fetchBaseline(status: StatusResponse, options?: RequestOptions): Promise<DurationBaseline | undefined> {
+  if (!status.tool) return undefined
+
+  const params = new URLSearchParams({ tool: status.tool })
+  if (status.sending.chainId) params.set('fromChain', status.sending.chainId.toString())
+  if (status.receiving?.chainId) params.set('toChain', status.receiving.chainId.toString())
+
+  try {
+    const response = await fetch(`/api/lifi/baselines?${params}`, { signal: options?.signal })
+    return response.ok ? await response.json() : undefined
+  } catch (error) {
+    // The seeded default is used instead
+    console.warn('Failed to load duration baseline:', error)
+    return undefined
+  }
+}
+
+/**
+ * Fetches the transfer status, learned duration baseline and alternative
+ * routes, and assembles the debug report
+ */
+export async function buildDebugReport(
+  txHash: string,
+  options: BuildDebugReportOptions = {}
+): Promise<DebugReport> {
+  const { fromChain, toChain, bridge, redactAddresses, includeAlternatives = true, ...requestOptions } = options
+
+  const status = await getTransactionStatusRaw({ txHash, fromChain, toChain, bridge }, requestOptions)
+
+  const [baseline, alternatives] = await Promise.all([
+    fetchBaseline(status, requestOptions),
+    includeAlternatives ? fetchAlternativeRoutes(status, requestOptions) : Promise.resolve(null)
+  ])
+
+  return createDebugReport({ txHash, status, alternatives, baseline, redactAddresses })
+}
+
+export interface DebugReportBatch {
+  reports: DebugReport[]
+  // Transfers LI.FI could not resolve, which have no report
+  failed: Array<{ txHash: string; error: string }>
+}
+
+/**
+ * Reports for many transfers from one batch status request. Alternative routes
+ * and learned baselines are skipped to keep large batches to a single request.
+ */
+export async function buildDebugReports(
+  requests: Array<string | StatusRequest>,
+  options: Pick<BuildDebugReportOptions, 'redactAddresses'> = {}
+): Promise<DebugReportBatch> {
+  const { results } = await getMultipleStatusesRaw(requests)
+  const batch: DebugReportBatch = { reports: [], failed: [] }
+
+  results.forEach(result => {
+    if (result.data) {
+      batch.reports.push(createDebugReport({
+        txHash: result.txHash,
+        status: result.data,
+        redactAddresses: options.redactAddresses
+      }))
+    } else {
+      batch.failed.push({ txHash: result.txHash, error: result.error?.message ?? 'Status not found' })
+    }
+  })
+
+  return batch
+}
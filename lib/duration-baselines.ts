@@ -0,0 +1,198 @@
+import { StatusResponse, TransactionStatus, TransactionSubstatus } from '@/types/lifi'
+
+/**
+ * Expected completion time per bridge tool and chain pair.
+ *
+ * Seeded with rough per-tool defaults and refined from completed transfers the
+ * server has fetched (sending to receiving timestamp). A chain pair only uses
+ * its own samples once it has enough of them; until then it falls back to the
+ * tool's samples across all pairs, then to the seed.
+ */
+
+export interface DurationBaseline {
+  tool?: string
+  fromChainId?: number
+  toChainId?: number
+  p50Seconds: number
+  p95Seconds: number
+  sampleCount: number
+  source: 'pair' | 'tool' | 'default'
+}
+
+export type DurationAssessment = 'on-track' | 'slow' | 'likely-stuck'
+
+const MIN_SAMPLES = 20
+// Past this multiple of the p95 a transfer should be escalated to support
+const ESCALATION_FACTOR = 2
+const MAX_SAMPLES_PER_KEY = 200
+const MAX_KEYS = 2000
+const MAX_RECORDED_TRANSFERS = 10000
+
+// Seed percentiles in seconds, for tools without enough learned samples
+const DEFAULT_BASELINE = { p50Seconds: 5 * 60, p95Seconds: 30 * 60 }
+const TOOL_DEFAULTS: Record<string, { p50Seconds: number; p95Seconds: number }> = {
+  across: { p50Seconds: 60, p95Seconds: 5 * 60 },
+  relay: { p50Seconds: 30, p95Seconds: 3 * 60 },
+  stargate: { p50Seconds: 2 * 60, p95Seconds: 15 * 60 },
+  stargateV2: { p50Seconds: 2 * 60, p95Seconds: 15 * 60 },
+  debridge: { p50Seconds: 60, p95Seconds: 10 * 60 },
+  mayan: { p50Seconds: 5 * 60, p95Seconds: 20 * 60 },
+  squid: { p50Seconds: 2 * 60, p95Seconds: 15 * 60 },
+  symbiosis: { p50Seconds: 3 * 60, p95Seconds: 20 * 60 },
+  hop: { p50Seconds: 5 * 60, p95Seconds: 30 * 60 },
+  cbridge: { p50Seconds: 10 * 60, p95Seconds: 60 * 60 },
+  celercircle: { p50Seconds: 15 * 60, p95Seconds: 45 * 60 },
+  allbridge: { p50Seconds: 5 * 60, p95Seconds: 20 * 60 },
+  chainflip: { p50Seconds: 5 * 60, p95Seconds: 20 * 60 },
+  thorswap: { p50Seconds: 10 * 60, p95Seconds: 40 * 60 },
+  polygon: { p50Seconds: 25 * 60, p95Seconds: 60 * 60 },
+  arbitrum: { p50Seconds: 15 * 60, p95Seconds: 30 * 60 },
+  optimism: { p50Seconds: 5 * 60, p95Seconds: 30 * 60 },
+  gnosis: { p50Seconds: 20 * 60, p95Seconds: 60 * 60 }
+}
+
+function percentile(sorted: number[], p: number): number {
+  const index = Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)
+  return sorted[Math.max(0, index)]
+}
+
+function pairKey(tool: string, fromChainId?: number, toChainId?: number): string {
+  return `${tool}:${fromChainId ?? '*'}:${toChainId ?? '*'}`
+}
+
+/**
+ * Seeded baseline for a tool, without learned samples
+ */
+export function getDefaultBaseline(tool?: string, fromChainId?: number, toChainId?: number): DurationBaseline {
+  const seed = (tool && TOOL_DEFAULTS[tool]) || DEFAULT_BASELINE
+  return { tool, fromChainId, toChainId, ...seed, sampleCount: 0, source: 'default' }
+}
+
+/**
+ * Completion time of a finished transfer in seconds, if both timestamps are known
+ */
+export function getTransferDuration(status: StatusResponse): number | undefined {
+  const start = status.sending.timestamp
+  const end = status.receiving?.timestamp
+  if (!start || !end || end < start) return undefined
+  return end - start
+}
+
+/**
+ * Seconds since the source transaction was mined
+ */
+export function getElapsedSeconds(status: Pick<StatusResponse, 'sending'>, now = Date.now()): number | undefined {
+  const start = status.sending.timestamp
+  return start ? Math.max(0, Math.floor(now / 1000) - start) : undefined
+}
+
+/**
+ * How a pending transfer's elapsed time compares with its baseline
+ */
+export function assessDuration(elapsedSeconds: number, baseline: DurationBaseline): DurationAssessment {
+  if (elapsedSeconds > baseline.p95Seconds) return 'likely-stuck'
+  if (elapsedSeconds > baseline.p50Seconds) return 'slow'
+  return 'on-track'
+}
+
+export function shouldEscalate(elapsedSeconds: number, baseline: DurationBaseline): boolean {
+  return elapsedSeconds > baseline.p95Seconds * ESCALATION_FACTOR
+}
+
+/**
+ * Human readable duration, e.g. "45 seconds", "12 minutes", "1h 30m"
+ */
+export function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${Math.round(seconds)} seconds`
+  if (seconds < 3600) return `${Math.round(seconds / 60)} minutes`
+
+  const hours = Math.floor(seconds / 3600)
+  const minutes = Math.round((seconds % 3600) / 60)
+  return minutes > 0 ? `${hours}h ${minutes}m` : `${hours}h`
+}
+
+/**
+ * Typical-to-worst-case range for a baseline, e.g. "2-15 minutes"
+ */
+export function formatBaselineRange(baseline: DurationBaseline): string {
+  const { p50Seconds, p95Seconds } = baseline
+  if (p50Seconds >= 60 && p95Seconds < 3600) {
+    return `${Math.round(p50Seconds / 60)}-${Math.round(p95Seconds / 60)} minutes`
+  }
+  return `${formatDuration(p50Seconds)} - ${formatDuration(p95Seconds)}`
+}
+
+export class DurationBaselines {
+  // Samples per tool + chain pair and per tool (chain pair "*:*"), oldest first
+  private samples = new Map<string, number[]>()
+  private recorded = new Set<string>()
+
+  private addSample(key: string, seconds: number) {
+    const samples = this.samples.get(key) ?? []
+    samples.push(seconds)
+    if (samples.length > MAX_SAMPLES_PER_KEY) samples.shift()
+
+    // Re-insert so Map order tracks recency for eviction
+    this.samples.delete(key)
+    this.samples.set(key, samples)
+    if (this.samples.size > MAX_KEYS) {
+      const oldestKey = this.samples.keys().next().value
+      if (oldestKey) this.samples.delete(oldestKey)
+    }
+  }
+
+  /**
+   * Learn from a status response. Only DONE + COMPLETED transfers count, and
+   * each transfer is counted once.
+   */
+  record(status: StatusResponse) {
+    if (status.status !== TransactionStatus.DONE || status.substatus !== TransactionSubstatus.COMPLETED) return
+    if (!status.tool) return
+
+    const duration = getTransferDuration(status)
+    if (duration === undefined) return
+
+    const id = status.transactionId || status.sending.txHash
+    if (this.recorded.has(id)) return
+    this.recorded.add(id)
+    if (this.recorded.size > MAX_RECORDED_TRANSFERS) {
+      const oldestId = this.recorded.values().next().value
+      if (oldestId) this.recorded.delete(oldestId)
+    }
+
+    this.addSample(pairKey(status.tool, status.sending.chainId, status.receiving?.chainId), duration)
+    this.addSample(pairKey(status.tool), duration)
+  }
+
+  /**
+   * Best available baseline: learned for the chain pair, learned for the tool, or seeded
+   */
+  get(tool?: string, fromChainId?: number, toChainId?: number): DurationBaseline {
+    if (!tool) return getDefaultBaseline(tool, fromChainId, toChainId)
+
+    const candidates: Array<[string, DurationBaseline['source']]> = [
+      [pairKey(tool, fromChainId, toChainId), 'pair'],
+      [pairKey(tool), 'tool']
+    ]
+
+    for (const [key, source] of candidates) {
+      const samples = this.samples.get(key)
+      if (samples && samples.length >= MIN_SAMPLES) {
+        const sorted = [...samples].sort((a, b) => a - b)
+        return {
+          tool,
+          fromChainId,
+          toChainId,
+          p50Seconds: percentile(sorted, 50),
+          p95Seconds: percentile(sorted, 95),
+          sampleCount: samples.length,
+          source
+        }
+      }
+    }
+
+    return getDefaultBaseline(tool, fromChainId, toChainId)
+  }
+}
+
+export const durationBaselines = new DurationBaselines()
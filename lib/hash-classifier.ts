@@ -0,0 +1,130 @@
+/**
+ * Shared transaction hash classifier.
+ *
+ * LI.FI routes through non-EVM chains (Solana via Mayan/Allbridge, Bitcoin via
+ * Thorswap/Chainflip, Sui), so a hash is not always 0x + 64 hex. Every validation,
+ * explorer and UI hint call site should go through classifyTxHash.
+ */
+
+import { ChainType } from '@/types/lifi'
+
+export type HashKind = 'evm' | 'solana' | 'bitcoin' | 'sui'
+
+export interface HashClassification {
+  kind: HashKind
+  chainType: ChainType
+  // Hash in the form LI.FI and explorers expect
+  normalized: string
+  label: string
+  // LI.FI chain ID when the hash format pins down a single chain
+  chainId?: number
+}
+
+// LI.FI chain IDs for the non-EVM chains it supports
+export const SOLANA_CHAIN_ID = 1151111081099710
+export const BITCOIN_CHAIN_ID = 20000000000001
+export const SUI_CHAIN_ID = 9270000000000000
+
+const BASE58_CHARS = '1-9A-HJ-NP-Za-km-z'
+
+const EVM_HASH_REGEX = /^0x[a-fA-F0-9]{64}$/
+const BITCOIN_TXID_REGEX = /^[a-fA-F0-9]{64}$/
+// 64-byte ed25519 signatures encode to 86-88 base58 characters
+const SOLANA_SIGNATURE_REGEX = new RegExp(`^[${BASE58_CHARS}]{86,88}$`)
+// 32-byte digests encode to 43-44 base58 characters
+const SUI_DIGEST_REGEX = new RegExp(`^[${BASE58_CHARS}]{43,44}$`)
+
+const HASH_KIND_DETAILS: Record<HashKind, {
+  chainType: ChainType
+  label: string
+  chainId?: number
+}> = {
+  evm: {
+    chainType: 'EVM',
+    label: 'EVM transaction hash'
+  },
+  solana: {
+    chainType: 'SVM',
+    label: 'Solana transaction signature',
+    chainId: SOLANA_CHAIN_ID
+  },
+  bitcoin: {
+    chainType: 'UTXO',
+    label: 'Bitcoin transaction ID',
+    chainId: BITCOIN_CHAIN_ID
+  },
+  sui: {
+    chainType: 'MVM',
+    label: 'Sui transaction digest',
+    chainId: SUI_CHAIN_ID
+  }
+}
+
+/**
+ * Classify a transaction hash by format. Returns null if it matches no supported chain.
+ */
+export function classifyTxHash(input?: string | null): HashClassification | null {
+  if (!input || typeof input !== 'string') return null
+
+  const value = input.trim()
+  let kind: HashKind
+  let normalized = value
+
+  if (EVM_HASH_REGEX.test(value)) {
+    kind = 'evm'
+    normalized = value.toLowerCase()
+  } else if (BITCOIN_TXID_REGEX.test(value)) {
+    kind = 'bitcoin'
+    normalized = value.toLowerCase()
+  } else if (SOLANA_SIGNATURE_REGEX.test(value)) {
+    kind = 'solana'
+  } else if (SUI_DIGEST_REGEX.test(value)) {
+    kind = 'sui'
+  } else {
+    return null
+  }
+
+  const { chainType, label, chainId } = HASH_KIND_DETAILS[kind]
+
+  return {
+    kind,
+    chainType,
+    normalized,
+    label,
+    ...(chainId && { chainId })
+  }
+}
+
+/**
+ * Check whether a hash is in any supported chain's format
+ */
+export function isSupportedTxHash(input?: string | null): boolean {
+  return classifyTxHash(input) !== null
+}
+
+/**
+ * Human-readable hint for partially typed or malformed input, for form validation
+ */
+export function describeInvalidHash(input: string): string {
+  const value = input.trim()
+
+  if (value.startsWith('0x')) {
+    if (!/^0x[a-fA-F0-9]*$/.test(value)) {
+      return 'Contains invalid characters - only 0-9 and A-F allowed after 0x'
+    }
+    if (value.length < 66) {
+      return `Too short - need ${66 - value.length} more characters`
+    }
+    return 'Too long - EVM transaction hashes are 66 characters'
+  }
+
+  if (/^[a-fA-F0-9]+$/.test(value) && value.length < 64) {
+    return `Too short for a Bitcoin txid - need ${64 - value.length} more hex characters`
+  }
+
+  if (new RegExp(`^[${BASE58_CHARS}]+$`).test(value)) {
+    return 'Base58 input must be a Solana signature (86-88 chars) or Sui digest (43-44 chars)'
+  }
+
+  return 'Enter an EVM hash (0x + 64 hex), Bitcoin txid, Solana signature or Sui digest'
+}
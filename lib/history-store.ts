@@ -0,0 +1,196 @@
+import { create } from 'zustand'
+import { persist, PersistStorage, StorageValue } from 'zustand/middleware'
+import { StatusResponse, TransactionStatus, TransactionSubstatus } from '@/types/lifi'
+import { getChainName } from './lifi-utils'
+import { formatTokenAmount } from './token-service'
+
+/**
+ * Search history shared by every search UI: each looked-up hash or wallet with
+ * the last status seen for it. Persisted to localStorage under a versioned
+ * schema; version 0 is the two plain hash lists earlier releases kept.
+ */
+
+export type HistoryEntryKind = 'transaction' | 'wallet'
+
+export interface HistoryEntry {
+  // Hash, transfer ID or wallet address exactly as looked up
+  query: string
+  kind: HistoryEntryKind
+  lookedUpAt: number
+  // Filled in once the transfer status has been fetched
+  status?: TransactionStatus
+  substatus?: TransactionSubstatus
+  fromChainId?: number
+  toChainId?: number
+  tool?: string
+  amount?: string
+  amountUSD?: string
+}
+
+export interface HistoryFilter {
+  search?: string
+  status?: TransactionStatus | 'ALL'
+  kind?: HistoryEntryKind
+}
+
+interface PersistedHistory {
+  entries: HistoryEntry[]
+}
+
+interface HistoryState extends PersistedHistory {
+  recordLookup: (query: string, kind: HistoryEntryKind) => void
+  recordStatus: (query: string, status: StatusResponse) => void
+  remove: (query: string) => void
+  clear: () => void
+}
+
+const STORAGE_KEY = 'lifi-lens-history'
+const SCHEMA_VERSION = 1
+const MAX_ENTRIES = 100
+
+// Written by TransactionInput and useTransactionHistory before the shared store
+const LEGACY_KEYS = ['lifi-lens-recent-searches', 'lifi-search-history']
+
+const WALLET_ADDRESS_PATTERN = /^0x[a-fA-F0-9]{40}$/
+
+function readLegacyQueries(): string[] {
+  const queries: string[] = []
+
+  LEGACY_KEYS.forEach(key => {
+    try {
+      const saved = JSON.parse(localStorage.getItem(key) || '[]')
+      if (Array.isArray(saved)) {
+        saved.forEach(query => {
+          if (typeof query === 'string' && !queries.includes(query)) queries.push(query)
+        })
+      }
+    } catch {
+      // Ignore invalid JSON
+    }
+  })
+
+  return queries
+}
+
+// Falls back to the legacy keys, as a version 0 state, until the store has saved once
+const historyStorage: PersistStorage<PersistedHistory | { queries: string[] }> = {
+  getItem: name => {
+    const saved = localStorage.getItem(name)
+    if (saved) {
+      try {
+        return JSON.parse(saved) as StorageValue<PersistedHistory>
+      } catch {
+        return null
+      }
+    }
+
+    const queries = readLegacyQueries()
+    return queries.length > 0 ? { state: { queries }, version: 0 } : null
+  },
+  setItem: (name, value) => {
+    try {
+      localStorage.setItem(name, JSON.stringify(value))
+    } catch (error) {
+      console.warn('Failed to save search history:', error)
+    }
+  },
+  removeItem: name => localStorage.removeItem(name)
+}
+
+function migrateHistory(persisted: unknown, version: number): PersistedHistory {
+  if (version === 0) {
+    const { queries = [] } = (persisted ?? {}) as { queries?: string[] }
+    const now = Date.now()
+
+    LEGACY_KEYS.forEach(key => localStorage.removeItem(key))
+
+    // The legacy lists are newest first and have no timestamps
+    return {
+      entries: queries.slice(0, MAX_ENTRIES).map((query, index) => ({
+        query,
+        kind: WALLET_ADDRESS_PATTERN.test(query) ? 'wallet' : 'transaction',
+        lookedUpAt: now - index
+      }))
+    }
+  }
+
+  return persisted as PersistedHistory
+}
+
+function upsert(entries: HistoryEntry[], entry: HistoryEntry): HistoryEntry[] {
+  return [entry, ...entries.filter(existing => existing.query !== entry.query)].slice(0, MAX_ENTRIES)
+}
+
+export const useHistoryStore = create<HistoryState>()(
+  persist(
+    (set) => ({
+      entries: [],
+
+      recordLookup: (query, kind) => set(state => {
+        const existing = state.entries.find(entry => entry.query === query)
+        return { entries: upsert(state.entries, { ...existing, query, kind, lookedUpAt: Date.now() }) }
+      }),
+
+      recordStatus: (query, status) => set(state => {
+        const existing = state.entries.find(entry => entry.query === query)
+        const { sending, receiving } = status
+
+        return {
+          entries: upsert(state.entries, {
+            ...existing,
+            query,
+            kind: 'transaction',
+            lookedUpAt: Date.now(),
+            status: status.status,
+            substatus: status.substatus,
+            fromChainId: sending.chainId,
+            toChainId: receiving?.chainId,
+            tool: status.tool,
+            amount: sending.token && sending.amount
+              ? formatTokenAmount(sending.amount, sending.token.decimals, sending.token.symbol)
+              : undefined,
+            amountUSD: sending.amountUSD
+          })
+        }
+      }),
+
+      remove: (query) => set(state => ({
+        entries: state.entries.filter(entry => entry.query !== query)
+      })),
+
+      clear: () => set({ entries: [] })
+    }),
+    {
+      name: STORAGE_KEY,
+      version: SCHEMA_VERSION,
+      storage: historyStorage as PersistStorage<PersistedHistory>,
+      partialize: state => ({ entries: state.entries }),
+      migrate: migrateHistory,
+      // Hydrated from useSearchHistory so the server render matches the first client render
+      skipHydration: true
+    }
+  )
+)
+
+/**
+ * Entries matching a free-text search (hash, tool, chain name, status) and filters
+ */
+export function filterHistory(entries: HistoryEntry[], filter: HistoryFilter = {}): HistoryEntry[] {
+  const search = filter.search?.trim().toLowerCase()
+
+  return entries.filter(entry => {
+    if (filter.kind && entry.kind !== filter.kind) return false
+    if (filter.status && filter.status !== 'ALL' && entry.status !== filter.status) return false
+    if (!search) return true
+
+    const haystack = [
+      entry.query,
+      entry.tool,
+      entry.status,
+      entry.substatus,
+      entry.fromChainId ? getChainName(entry.fromChainId) : undefined,
+      entry.toChainId ? getChainName(entry.toChainId) : undefined
+    ]
+    return haystack.some(value => value?.toLowerCase().includes(search))
+  })
+}
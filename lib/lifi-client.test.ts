@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { StatusRequest, StatusResponse, TransactionStatus } from '@/types/lifi'
+import { LiFiClient } from './lifi-client'
+
+const TX_HASH = '0x9f3a7c2e1b5d8f4a6c0e2b4d6f8a0c2e4b6d8f0a2c4e6b8d0f2a4c6e8b0d2f4a'
+const OTHER_TX_HASH = '0x4b1d9e7a3c5f2b8d6e0a4c8f2b6d0e4a8c2f6b0d4e8a2c6f0b4d8e2a6c0f4b8d'
+
+let upstreamStatus: TransactionStatus
+const fetchMock = vi.fn()
+
+function statusFor(txHash: string): StatusResponse {
+  return { status: upstreamStatus, sending: { txHash, chainId: 1 } }
+}
+
+function jsonResponse(body: unknown): Response {
+  return new Response(JSON.stringify(body), { status: 200, headers: { 'Content-Type': 'application/json' } })
+}
+
+beforeEach(() => {
+  upstreamStatus = TransactionStatus.PENDING
+  fetchMock.mockReset()
+  fetchMock.mockImplementation(async (url: string, init?: RequestInit) => {
+    if (url.endsWith('/status/batch')) {
+      const { items } = JSON.parse(String(init?.body)) as { items: StatusRequest[] }
+      const results = items.map(item => ({ txHash: item.txHash, data: statusFor(item.txHash), error: null }))
+      return jsonResponse({ results, totalProcessed: results.length, totalSuccessful: results.length, totalErrors: 0 })
+    }
+    return jsonResponse(statusFor(new URL(url, 'http://localhost').searchParams.get('txHash') ?? ''))
+  })
+  vi.stubGlobal('fetch', fetchMock)
+})
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('LiFiClient.invalidateStatus', () => {
+  it('makes the next batch lookup of that transaction reach the server', async () => {
+    const client = new LiFiClient()
+    const request = { txHashes: [], items: [{ txHash: TX_HASH, fromChain: '1', toChain: '10' }, { txHash: OTHER_TX_HASH }] }
+
+    await client.getBatchStatus(request)
+    upstreamStatus = TransactionStatus.DONE
+
+    // Both answered from the client cache
+    let response = await client.getBatchStatus(request)
+    expect(response.results.map(result => result.data?.status)).toEqual(['PENDING', 'PENDING'])
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+
+    client.invalidateStatus(TX_HASH)
+    response = await client.getBatchStatus(request)
+    expect(response.results.map(result => result.data?.status)).toEqual(['DONE', 'PENDING'])
+    expect(JSON.parse(fetchMock.mock.calls[1][1].body).items).toEqual([{ txHash: TX_HASH, fromChain: '1', toChain: '10' }])
+  })
+
+  it('drops single status lookups of the transaction too', async () => {
+    const client = new LiFiClient()
+
+    await client.getStatus({ txHash: TX_HASH, fromChain: '1' })
+    client.invalidateStatus(TX_HASH)
+    upstreamStatus = TransactionStatus.DONE
+
+    expect((await client.getStatus({ txHash: TX_HASH, fromChain: '1' })).status).toBe('DONE')
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+  })
+})
+
+describe('LiFiClient endpoint isolation', () => {
+  it('counts batch failures against their own circuit', async () => {
+    const client = new LiFiClient({ maxRetries: 1 })
+    fetchMock.mockImplementation(async () =>
+      new Response(JSON.stringify({ error: { code: 'UPSTREAM_ERROR', message: 'Bad gateway' } }), { status: 502 })
+    )
+
+    for (let i = 0; i < 5; i++) {
+      const response = await client.getBatchStatus({ txHashes: [TX_HASH] })
+      expect(response.results[0].error?.status).toBe(502)
+    }
+
+    const { endpoints } = client.getHealth()
+    expect(endpoints.batchStatus.state).toBe('open')
+    expect(endpoints.status.state).toBe('closed')
+    expect((await client.getBatchStatus({ txHashes: [TX_HASH] })).results[0].error?.code).toBe('CIRCUIT_OPEN')
+  })
+
+  it('aborts a wallet transfers lookup with the caller signal', async () => {
+    const client = new LiFiClient()
+    fetchMock.mockImplementation((_url: string, init?: RequestInit) => new Promise((_resolve, reject) => {
+      init?.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')))
+    }))
+
+    const controller = new AbortController()
+    const transfers = client.getTransfers({ wallet: '0x1111111111111111111111111111111111111111' }, { signal: controller.signal })
+    controller.abort()
+
+    await expect(transfers).rejects.toMatchObject({ code: 'ABORTED' })
+    expect(fetchMock.mock.calls[0][1].signal.aborted).toBe(true)
+    expect(client.getHealth().endpoints.transfers.recentRequests).toBe(0)
+  })
+
+  it('ends a batch on abort instead of failing each hash', async () => {
+    const client = new LiFiClient()
+    const controller = new AbortController()
+    controller.abort()
+
+    await expect(client.getBatchStatus({ txHashes: [TX_HASH, OTHER_TX_HASH] }, { signal: controller.signal }))
+      .rejects.toMatchObject({ code: 'ABORTED' })
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+})
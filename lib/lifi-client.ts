@@ -9,7 +9,27 @@ import {
   Route,
   QuoteRequest,
   Quote,
+  MAX_BATCH_STATUS_SIZE,
+  TransfersRequest,
+  TransfersResponse,
+  RequestOptions,
 } from "@/types/lifi";
+import { CircuitBreaker, CircuitSnapshot } from "./circuit-breaker";
+import {
+  validateStatusResponse,
+  validateBatchStatusResponse,
+  validateRoutesResponse,
+  validateQuote,
+  validateTransfersResponse,
+} from "./lifi-schemas";
+
+export type LiFiEndpoint = "status" | "batchStatus" | "routes" | "quote" | "transfers";
+
+export interface UpstreamHealth {
+  // healthy: all circuits closed; degraded: some open or probing; down: all open
+  status: "healthy" | "degraded" | "down";
+  endpoints: Record<LiFiEndpoint, CircuitSnapshot>;
+}
 
 interface CacheEntry<T> {
   data: T;
@@ -17,10 +37,26 @@ interface CacheEntry<T> {
   ttl: number;
 }
 
+interface InFlightRequest<T> {
+  promise: Promise<T>;
+  controller: AbortController;
+  subscribers: number;
+}
+
 export class LiFiClient {
   private baseUrl: string;
   private config: Required<ApiClientConfig>;
   private cache = new Map<string, CacheEntry<any>>();
+  private inFlight = new Map<string, InFlightRequest<any>>();
+  private breakers: Record<LiFiEndpoint, CircuitBreaker> = {
+    status: new CircuitBreaker("status"),
+    batchStatus: new CircuitBreaker("batch status"),
+    routes: new CircuitBreaker("routes"),
+    quote: new CircuitBreaker("quote"),
+    transfers: new CircuitBreaker("transfers"),
+  };
+  private health: UpstreamHealth;
+  private healthListeners = new Set<(health: UpstreamHealth) => void>();
 
   constructor(config?: ApiClientConfig) {
     this.baseUrl = "/api/lifi";
@@ -31,13 +67,43 @@ export class LiFiClient {
       timeout: config?.timeout ?? 30000,
       cacheEnabled: config?.cacheEnabled ?? true,
       cacheTTL: config?.cacheTTL ?? 30000, // 30 seconds
+      schemaMode: config?.schemaMode ?? "tolerant",
+    };
+
+    this.health = this.computeHealth();
+    Object.values(this.breakers).forEach((breaker) => {
+      breaker.subscribe(() => {
+        this.health = this.computeHealth();
+        this.healthListeners.forEach((listener) => listener(this.health));
+      });
+    });
+  }
+
+  /**
+   * Current upstream health derived from the per-endpoint circuit breakers.
+   * The object is only replaced when a circuit changes state.
+   */
+  getHealth(): UpstreamHealth {
+    return this.health;
+  }
+
+  /**
+   * Subscribe to upstream health changes. Returns an unsubscribe function.
+   */
+  subscribeToHealth(listener: (health: UpstreamHealth) => void): () => void {
+    this.healthListeners.add(listener);
+    return () => {
+      this.healthListeners.delete(listener);
     };
   }
 
   /**
    * Get transaction status with retry logic and caching
    */
-  async getStatus(request: StatusRequest): Promise<StatusResponse> {
+  async getStatus(
+    request: StatusRequest,
+    options: RequestOptions = {}
+  ): Promise<StatusResponse> {
     const cacheKey = this.createCacheKey("status", request);
 
     // Check cache first
@@ -46,79 +112,141 @@ export class LiFiClient {
       if (cached) return cached;
     }
 
-    const response = await this.executeWithRetry(async () => {
-      const searchParams = new URLSearchParams();
-      searchParams.append("txHash", request.txHash);
-      if (request.fromChain)
-        searchParams.append("fromChain", request.fromChain);
-      if (request.toChain) searchParams.append("toChain", request.toChain);
-      if (request.bridge) searchParams.append("bridge", request.bridge);
-
-      const controller = new AbortController();
-      const timeoutId = setTimeout(
-        () => controller.abort(),
-        this.config.timeout
-      );
-
-      try {
-        const res = await fetch(
-          `${this.baseUrl}/status?${searchParams.toString()}`,
-          {
-            signal: controller.signal,
-            headers: {
-              "Content-Type": "application/json",
-            },
+    return this.coalesce(cacheKey, options.signal, async (signal) => {
+      const response = await this.executeWithRetry(async () => {
+        const searchParams = new URLSearchParams();
+        searchParams.append("txHash", request.txHash);
+        if (request.fromChain)
+          searchParams.append("fromChain", request.fromChain);
+        if (request.toChain) searchParams.append("toChain", request.toChain);
+        if (request.bridge) searchParams.append("bridge", request.bridge);
+
+        const attempt = this.createAttemptSignal(signal);
+
+        try {
+          const res = await fetch(
+            `${this.baseUrl}/status?${searchParams.toString()}`,
+            {
+              signal: attempt.signal,
+              headers: {
+                "Content-Type": "application/json",
+              },
+            }
+          );
+
+          if (!res.ok) {
+            throw await this.createApiError(res);
           }
-        );
-
-        clearTimeout(timeoutId);
 
-        if (!res.ok) {
-          throw await this.createApiError(res);
+          const data = await res.json();
+          return this.parseStatusResponse(data);
+        } finally {
+          attempt.cleanup();
         }
+      }, { signal, endpoint: "status" });
 
-        const data = await res.json();
-        return this.parseStatusResponse(data);
-      } finally {
-        clearTimeout(timeoutId);
+      // Cache successful responses
+      if (this.config.cacheEnabled && response) {
+        this.setCache(cacheKey, response);
       }
-    });
 
-    // Cache successful responses
-    if (this.config.cacheEnabled && response) {
-      this.setCache(cacheKey, response);
-    }
-
-    return response;
+      return response;
+    });
   }
 
   /**
-   * Get multiple transaction statuses efficiently
+   * Get multiple transaction statuses efficiently via the server-side batch endpoint
    */
   async getBatchStatus(
-    request: BatchStatusRequest
+    request: BatchStatusRequest,
+    options: RequestOptions = {}
   ): Promise<BatchStatusResponse> {
-    // For now, implement as parallel requests
-    // In the future, could implement actual batch endpoint
-    const promises = request.txHashes.map(async (txHash) => {
+    const items: StatusRequest[] = [
+      ...request.txHashes.map((txHash) => ({
+        txHash,
+        fromChain: request.fromChain,
+        toChain: request.toChain,
+        bridge: request.bridge,
+      })),
+      ...(request.items || []).map((item) => ({
+        txHash: item.txHash,
+        fromChain: item.fromChain ?? request.fromChain,
+        toChain: item.toChain ?? request.toChain,
+        bridge: item.bridge ?? request.bridge,
+      })),
+    ];
+
+    const results: BatchStatusResponse["results"] = new Array(items.length);
+    const uncached: number[] = [];
+
+    // Serve what we can from cache and only send the rest upstream
+    items.forEach((item, index) => {
+      const cached = this.config.cacheEnabled
+        ? this.getFromCache<StatusResponse>(this.createCacheKey("status", item))
+        : null;
+
+      if (cached) {
+        results[index] = { txHash: item.txHash, data: cached, error: null };
+      } else {
+        uncached.push(index);
+      }
+    });
+
+    for (let i = 0; i < uncached.length; i += MAX_BATCH_STATUS_SIZE) {
+      const chunk = uncached.slice(i, i + MAX_BATCH_STATUS_SIZE);
+
+      const chunkItems = chunk.map((index) => items[index]);
+
       try {
-        const data = await this.getStatus({
-          txHash,
-          fromChain: request.fromChain,
-          toChain: request.toChain,
-          bridge: request.bridge,
+        const cacheKey = this.createCacheKey("batchStatus", chunkItems);
+        const response = await this.coalesce(cacheKey, options.signal, (signal) =>
+          this.executeWithRetry(async () => {
+            const attempt = this.createAttemptSignal(signal);
+
+            try {
+              const res = await fetch(`${this.baseUrl}/status/batch`, {
+                method: "POST",
+                signal: attempt.signal,
+                headers: {
+                  "Content-Type": "application/json",
+                },
+                body: JSON.stringify({ txHashes: [], items: chunkItems }),
+              });
+
+              if (!res.ok) {
+                throw await this.createApiError(res);
+              }
+
+              const data = await res.json();
+              return this.parseBatchStatusResponse(data);
+            } finally {
+              attempt.cleanup();
+            }
+          }, { signal, endpoint: "batchStatus" })
+        );
+
+        response.results.forEach((result, position) => {
+          const index = chunk[position];
+          results[index] = result;
+
+          if (this.config.cacheEnabled && result.data) {
+            this.setCache(this.createCacheKey("status", items[index]), result.data);
+          }
         });
-        return { txHash, data, error: null };
       } catch (error) {
-        return {
-          txHash,
-          data: null,
-          error: error as ApiError,
-        };
+        // An abort ends the whole batch rather than failing each hash
+        if (options.signal?.aborted) throw error;
+
+        // The whole chunk failed; report the same error against each hash
+        chunk.forEach((index) => {
+          results[index] = {
+            txHash: items[index].txHash,
+            data: null,
+            error: error as ApiError,
+          };
+        });
       }
-    });
-
-    const results = await Promise.all(promises);
+    }
 
     return {
       results,
@@ -131,7 +259,10 @@ export class LiFiClient {
   /**
    * Get available routes for a cross-chain transaction
    */
-  async getRoutes(request: RoutesRequest): Promise<{ routes: Route[] }> {
+  async getRoutes(
+    request: RoutesRequest,
+    options: RequestOptions = {}
+  ): Promise<{ routes: Route[] }> {
     const cacheKey = this.createCacheKey("routes", request);
 
     // Check cache first (shorter TTL for routes due to price volatility)
@@ -140,48 +271,47 @@ export class LiFiClient {
       if (cached) return cached;
     }
 
-    const response = await this.executeWithRetry(async () => {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(
-        () => controller.abort(),
-        this.config.timeout
-      );
+    return this.coalesce(cacheKey, options.signal, async (signal) => {
+      const response = await this.executeWithRetry(async () => {
+        const attempt = this.createAttemptSignal(signal);
 
-      try {
-        const res = await fetch(`${this.baseUrl}/routes`, {
-          method: "POST",
-          signal: controller.signal,
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify(request),
-        });
+        try {
+          const res = await fetch(`${this.baseUrl}/routes`, {
+            method: "POST",
+            signal: attempt.signal,
+            headers: {
+              "Content-Type": "application/json",
+            },
+            body: JSON.stringify(request),
+          });
 
-        clearTimeout(timeoutId);
+          if (!res.ok) {
+            throw await this.createApiError(res);
+          }
 
-        if (!res.ok) {
-          throw await this.createApiError(res);
+          const data = await res.json();
+          return this.parseRoutesResponse(data);
+        } finally {
+          attempt.cleanup();
         }
+      }, { signal, endpoint: "routes" });
 
-        const data = await res.json();
-        return this.parseRoutesResponse(data);
-      } finally {
-        clearTimeout(timeoutId);
+      // Cache successful responses with shorter TTL
+      if (this.config.cacheEnabled && response) {
+        this.setCache(cacheKey, response, this.config.cacheTTL / 2); // Half TTL for routes
       }
-    });
 
-    // Cache successful responses with shorter TTL
-    if (this.config.cacheEnabled && response) {
-      this.setCache(cacheKey, response, this.config.cacheTTL / 2); // Half TTL for routes
-    }
-
-    return response;
+      return response;
+    });
   }
 
   /**
    * Get a single quote for a cross-chain transaction
    */
-  async getQuote(request: QuoteRequest): Promise<Quote> {
+  async getQuote(
+    request: QuoteRequest,
+    options: RequestOptions = {}
+  ): Promise<Quote> {
     const cacheKey = this.createCacheKey("quote", request);
 
     // Check cache first (shorter TTL for quotes due to price volatility)
@@ -190,42 +320,97 @@ export class LiFiClient {
       if (cached) return cached;
     }
 
-    const response = await this.executeWithRetry(async () => {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(
-        () => controller.abort(),
-        this.config.timeout
-      );
+    return this.coalesce(cacheKey, options.signal, async (signal) => {
+      const response = await this.executeWithRetry(async () => {
+        const attempt = this.createAttemptSignal(signal);
 
-      try {
-        const res = await fetch(`${this.baseUrl}/quote`, {
-          method: "POST",
-          signal: controller.signal,
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify(request),
-        });
+        try {
+          const res = await fetch(`${this.baseUrl}/quote`, {
+            method: "POST",
+            signal: attempt.signal,
+            headers: {
+              "Content-Type": "application/json",
+            },
+            body: JSON.stringify(request),
+          });
 
-        clearTimeout(timeoutId);
+          if (!res.ok) {
+            throw await this.createApiError(res);
+          }
 
-        if (!res.ok) {
-          throw await this.createApiError(res);
+          const data = await res.json();
+          return this.parseQuoteResponse(data);
+        } finally {
+          attempt.cleanup();
         }
+      }, { signal, endpoint: "quote" });
 
-        const data = await res.json();
-        return this.parseQuoteResponse(data);
-      } finally {
-        clearTimeout(timeoutId);
+      // Cache successful responses with shorter TTL
+      if (this.config.cacheEnabled && response) {
+        this.setCache(cacheKey, response, this.config.cacheTTL / 2); // Half TTL for quotes
       }
+
+      return response;
     });
+  }
 
-    // Cache successful responses with shorter TTL
-    if (this.config.cacheEnabled && response) {
-      this.setCache(cacheKey, response, this.config.cacheTTL / 2); // Half TTL for quotes
+  /**
+   * Get a page of LI.FI transfers sent from or to a wallet address
+   */
+  async getTransfers(
+    request: TransfersRequest,
+    options: RequestOptions = {}
+  ): Promise<TransfersResponse> {
+    const cacheKey = this.createCacheKey("transfers", request);
+
+    if (this.config.cacheEnabled) {
+      const cached = this.getFromCache<TransfersResponse>(cacheKey);
+      if (cached) return cached;
     }
 
-    return response;
+    return this.coalesce(cacheKey, options.signal, async (signal) => {
+      const response = await this.executeWithRetry(async () => {
+        const searchParams = new URLSearchParams();
+        searchParams.append("wallet", request.wallet);
+        if (request.status) searchParams.append("status", request.status);
+        if (request.limit) searchParams.append("limit", request.limit.toString());
+        if (request.fromTimestamp)
+          searchParams.append("fromTimestamp", request.fromTimestamp.toString());
+        if (request.toTimestamp)
+          searchParams.append("toTimestamp", request.toTimestamp.toString());
+        if (request.next) searchParams.append("next", request.next);
+        if (request.previous) searchParams.append("previous", request.previous);
+
+        const attempt = this.createAttemptSignal(signal);
+
+        try {
+          const res = await fetch(
+            `${this.baseUrl}/analytics/transfers?${searchParams.toString()}`,
+            {
+              signal: attempt.signal,
+              headers: {
+                "Content-Type": "application/json",
+              },
+            }
+          );
+
+          if (!res.ok) {
+            throw await this.createApiError(res);
+          }
+
+          const data = await res.json();
+          return this.parseTransfersResponse(data);
+        } finally {
+          attempt.cleanup();
+        }
+      }, { signal, endpoint: "transfers" });
+
+      if (this.config.cacheEnabled && response) {
+        this.setCache(cacheKey, response);
+      }
+
+      return response;
+    });
   }
 
   /**
@@ -233,13 +418,43 @@ export class LiFiClient {
    */
   private async executeWithRetry<T>(
     operation: () => Promise<T>,
+    options: { signal?: AbortSignal; endpoint?: LiFiEndpoint } = {},
     attempt = 1
   ): Promise<T> {
+    const { signal, endpoint } = options;
+    const breaker = endpoint ? this.breakers[endpoint] : undefined;
+
+    if (signal?.aborted) {
+      throw this.createAbortError();
+    }
+
+    // Fail fast while the endpoint's circuit is open
+    if (breaker && !breaker.canRequest()) {
+      throw this.createCircuitOpenError(breaker);
+    }
+
     try {
-      return await operation();
+      const result = await operation();
+      breaker?.recordSuccess();
+      return result;
     } catch (error) {
+      // A caller abort is final, whatever error the aborted fetch produced
+      if (signal?.aborted) {
+        breaker?.releaseProbe();
+        throw this.createAbortError();
+      }
+
       const apiError = error as ApiError;
 
+      // Only upstream outages count against the circuit, not rejected input
+      if (breaker) {
+        if (this.isUpstreamFailure(apiError)) {
+          breaker.recordFailure();
+        } else {
+          breaker.recordSuccess();
+        }
+      }
+
       // Don't retry if not retryable or exceeded max retries
       if (!apiError.isRetryable || attempt >= this.config.maxRetries) {
         throw error;
@@ -258,9 +473,147 @@ export class LiFiClient {
       // Add jitter to prevent thundering herd
       const jitteredDelay = delay + Math.random() * delay * 0.1;
 
-      await this.sleep(jitteredDelay);
-      return this.executeWithRetry(operation, attempt + 1);
+      await this.sleep(jitteredDelay, signal);
+      return this.executeWithRetry(operation, options, attempt + 1);
+    }
+  }
+
+  /**
+   * Share one in-flight request between callers asking for the same key. Each
+   * caller may abort independently; the underlying request is only aborted
+   * once no caller is waiting on it.
+   */
+  private coalesce<T>(
+    key: string,
+    callerSignal: AbortSignal | undefined,
+    operation: (signal: AbortSignal) => Promise<T>
+  ): Promise<T> {
+    if (callerSignal?.aborted) {
+      return Promise.reject(this.createAbortError());
+    }
+
+    let entry: InFlightRequest<T> | undefined = this.inFlight.get(key);
+
+    if (!entry) {
+      const controller = new AbortController();
+      const created: InFlightRequest<T> = {
+        controller,
+        subscribers: 0,
+        promise: operation(controller.signal).finally(() => {
+          if (this.inFlight.get(key) === created) {
+            this.inFlight.delete(key);
+          }
+        }),
+      };
+      // Callers that aborted no longer listen; don't report their rejection as unhandled
+      created.promise.catch(() => undefined);
+
+      this.inFlight.set(key, created);
+      entry = created;
+    }
+
+    const shared = entry;
+    shared.subscribers++;
+
+    // Callers without a signal can never abort, so the request always completes
+    if (!callerSignal) return shared.promise;
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        shared.subscribers--;
+        if (shared.subscribers === 0) {
+          shared.controller.abort();
+          if (this.inFlight.get(key) === shared) {
+            this.inFlight.delete(key);
+          }
+        }
+        reject(this.createAbortError());
+      };
+
+      callerSignal.addEventListener("abort", onAbort, { once: true });
+      shared.promise
+        .then(resolve, reject)
+        .finally(() => callerSignal.removeEventListener("abort", onAbort));
+    });
+  }
+
+  /**
+   * Per-attempt signal that fires on timeout or when the request is aborted
+   */
+  private createAttemptSignal(signal: AbortSignal): {
+    signal: AbortSignal;
+    cleanup: () => void;
+  } {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.config.timeout);
+    const onAbort = () => controller.abort();
+
+    signal.addEventListener("abort", onAbort, { once: true });
+
+    return {
+      signal: controller.signal,
+      cleanup: () => {
+        clearTimeout(timeoutId);
+        signal.removeEventListener("abort", onAbort);
+      },
+    };
+  }
+
+  /**
+   * Network errors, timeouts and 5xx responses indicate an upstream outage
+   */
+  private isUpstreamFailure(error: ApiError): boolean {
+    // Anything that is not an ApiError (fetch TypeError, timeout abort) never reached the proxy
+    return typeof error?.isNetworkError !== "boolean" || error.isNetworkError;
+  }
+
+  private computeHealth(): UpstreamHealth {
+    const endpoints = {
+      status: this.breakers.status.getSnapshot(),
+      batchStatus: this.breakers.batchStatus.getSnapshot(),
+      routes: this.breakers.routes.getSnapshot(),
+      quote: this.breakers.quote.getSnapshot(),
+      transfers: this.breakers.transfers.getSnapshot(),
+    };
+    const snapshots = Object.values(endpoints);
+
+    let status: UpstreamHealth["status"] = "healthy";
+    if (snapshots.every((snapshot) => snapshot.state === "open")) {
+      status = "down";
+    } else if (snapshots.some((snapshot) => snapshot.state !== "closed")) {
+      status = "degraded";
     }
+
+    return { status, endpoints };
+  }
+
+  /**
+   * Error thrown without a network request while an endpoint's circuit is open
+   */
+  private createCircuitOpenError(breaker: CircuitBreaker): ApiError {
+    const retryAfter = Math.ceil(breaker.getRetryAfter() / 1000);
+
+    return {
+      code: "CIRCUIT_OPEN",
+      message: `LI.FI API degraded: ${breaker.name} requests are paused${
+        retryAfter > 0 ? ` for ${retryAfter}s` : ""
+      } after repeated failures`,
+      isRetryable: false,
+      isNetworkError: true,
+      ...(retryAfter > 0 && { retryAfter }),
+    };
+  }
+
+  /**
+   * Error thrown to callers whose request was cancelled
+   */
+  private createAbortError(): ApiError {
+    return {
+      code: "ABORTED",
+      message: "Request was cancelled",
+      isRetryable: false,
+      isNetworkError: false,
+    };
   }
 
   /**
@@ -293,47 +646,35 @@ export class LiFiClient {
    * Parse and validate status response
    */
   private parseStatusResponse(data: any): StatusResponse {
-    if (!data || typeof data !== "object") {
-      throw new Error("Invalid response format");
-    }
-
-    // Validate required fields
-    if (!data.status || !data.sending) {
-      throw new Error("Missing required fields in response");
-    }
+    return validateStatusResponse(data, this.config.schemaMode);
+  }
 
-    return data as StatusResponse;
+  /**
+   * Parse and validate batch status response
+   */
+  private parseBatchStatusResponse(data: any): BatchStatusResponse {
+    return validateBatchStatusResponse(data, this.config.schemaMode);
   }
 
   /**
    * Parse and validate routes response
    */
   private parseRoutesResponse(data: any): { routes: Route[] } {
-    if (!data || typeof data !== "object") {
-      throw new Error("Invalid routes response format");
-    }
-
-    if (!Array.isArray(data.routes)) {
-      throw new Error("Routes response must contain routes array");
-    }
-
-    return data as { routes: Route[] };
+    return validateRoutesResponse(data, this.config.schemaMode);
   }
 
   /**
    * Parse and validate quote response
    */
   private parseQuoteResponse(data: any): Quote {
-    if (!data || typeof data !== "object") {
-      throw new Error("Invalid quote response format");
-    }
-
-    // Validate required fields for a quote
-    if (!data.id || !data.fromToken || !data.toToken) {
-      throw new Error("Missing required fields in quote response");
-    }
+    return validateQuote(data, this.config.schemaMode);
+  }
 
-    return data as Quote;
+  /**
+   * Parse and validate wallet transfers response
+   */
+  private parseTransfersResponse(data: any): TransfersResponse {
+    return validateTransfersResponse(data, this.config.schemaMode);
   }
 
   /**
@@ -407,11 +748,41 @@ export class LiFiClient {
     this.cache.clear();
   }
 
+  /**
+   * Drop the cached statuses of a transaction, whichever chains or bridge it
+   * was looked up with
+   */
+  invalidateStatus(txHash: string): void {
+    const keysToDelete: string[] = [];
+
+    this.cache.forEach((_, key) => {
+      if (!key.startsWith("status:")) return;
+      if (JSON.parse(key.slice("status:".length)).txHash === txHash) {
+        keysToDelete.push(key);
+      }
+    });
+
+    keysToDelete.forEach((key) => {
+      this.cache.delete(key);
+    });
+  }
+
   /**
    * Utility sleep function
    */
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const timeoutId = setTimeout(() => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve();
+      }, ms);
+      const onAbort = () => {
+        clearTimeout(timeoutId);
+        reject(this.createAbortError());
+      };
+
+      signal?.addEventListener("abort", onAbort, { once: true });
+    });
   }
 }
 
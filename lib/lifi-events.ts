@@ -0,0 +1,173 @@
+import {
+  IncludedStep,
+  LedgerCheck,
+  LedgerEntry,
+  LiFiEvent,
+  LiFiEventName,
+  TransactionReceiptInfo,
+  TransferHop
+} from '@/types/lifi'
+import { AbiParam, decodeParameters, decodeWord, parseParams, readWord } from './abi'
+import { EVM_NATIVE_ADDRESS } from './chain-registry'
+
+/**
+ * Decode LI.FI Diamond events and ERC-20 Transfer logs from transaction receipts
+ * into a token-movement ledger, and cross-check it against LI.FI's includedSteps.
+ */
+
+const TRANSFER_TOPIC = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef'
+
+// Sentinel some DEXes and bridges use for the native asset
+const NATIVE_SENTINEL_ADDRESS = '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee'
+
+// ILiFi.BridgeData, the only parameter of LiFiTransferStarted
+const BRIDGE_DATA_PARAMS = parseParams(
+  'BridgeData(bytes32 transactionId, string bridge, string integrator, address referrer, ' +
+  'address sendingAssetId, address receiver, uint256 minAmount, uint256 destinationChainId, ' +
+  'bool hasSourceSwaps, bool hasDestinationCall)'
+)
+
+const COMPLETED_PARAMS = parseParams(
+  'LiFiTransferCompleted(address receivingAssetId, address receiver, uint256 amount, uint256 timestamp)'
+)
+
+// Topic 0 (keccak256 of the canonical signature) for each decoded event.
+// transactionId is indexed on every event except LiFiTransferStarted.
+const LIFI_EVENTS: Record<string, { name: LiFiEventName; params: AbiParam[] }> = {
+  '0xcba69f43792f9f399347222505213b55af8e0b0b54b893085c2e27ecbe1644f1': {
+    name: 'LiFiTransferStarted',
+    params: BRIDGE_DATA_PARAMS
+  },
+  '0x38eee76fd911eabac79da7af16053e809be0e12c8637f156e77e1af309b99537': {
+    name: 'LiFiGenericSwapCompleted',
+    params: parseParams(
+      'LiFiGenericSwapCompleted(string integrator, string referrer, address receiver, ' +
+      'address fromAssetId, address toAssetId, uint256 fromAmount, uint256 toAmount)'
+    )
+  },
+  '0xb8c86983f929c6b770461983d1bbde1870408120f07123e9c12d49f35a0b4c4b': {
+    name: 'LiFiTransferCompleted',
+    params: COMPLETED_PARAMS
+  },
+  '0x1fbfa988fd46deed0de12c94c7b5dcb537d51b804246d0083f245f7a8997d170': {
+    name: 'LiFiTransferRecovered',
+    params: COMPLETED_PARAMS
+  }
+}
+
+export function isNativeAsset(address: string): boolean {
+  const normalized = address.toLowerCase()
+  return normalized === EVM_NATIVE_ADDRESS || normalized === NATIVE_SENTINEL_ADDRESS
+}
+
+/**
+ * LI.FI Diamond events in a receipt, in log order. Logs that fail to decode are skipped.
+ */
+export function decodeLiFiEvents(receipt: TransactionReceiptInfo, hop: TransferHop): LiFiEvent[] {
+  const events: LiFiEvent[] = []
+
+  receipt.logs.forEach(log => {
+    const definition = LIFI_EVENTS[log.topics[0]?.toLowerCase()]
+    if (!definition) return
+
+    try {
+      let fields: Record<string, string>
+      let transactionId: string
+
+      if (definition.name === 'LiFiTransferStarted') {
+        // A single dynamic tuple: the first word points at its encoding
+        const data = log.data.slice(2)
+        const tupleStart = Number(BigInt(`0x${readWord(data, 0)}`)) * 2
+        const decoded = decodeParameters(data.slice(tupleStart), definition.params)
+        fields = Object.fromEntries(decoded.map(param => [param.name ?? param.type, param.value]))
+        transactionId = fields.transactionId
+        delete fields.transactionId
+      } else {
+        const decoded = decodeParameters(log.data, definition.params)
+        fields = Object.fromEntries(decoded.map(param => [param.name ?? param.type, param.value]))
+        transactionId = decodeWord(log.topics[1].slice(2), 'bytes32')
+      }
+
+      events.push({
+        name: definition.name,
+        hop,
+        chainId: receipt.chainId,
+        logIndex: log.logIndex,
+        contract: log.address,
+        transactionId,
+        fields
+      })
+    } catch (error) {
+      console.warn(`Could not decode ${definition.name} log ${log.logIndex}:`, error)
+    }
+  })
+
+  return events
+}
+
+/**
+ * ERC-20 Transfer logs in a receipt, as ledger entries in log order. ERC-721
+ * transfers (amount indexed as a fourth topic) are skipped.
+ */
+export function decodeTokenTransfers(receipt: TransactionReceiptInfo, hop: TransferHop): LedgerEntry[] {
+  return receipt.logs
+    .filter(log => log.topics[0]?.toLowerCase() === TRANSFER_TOPIC && log.topics.length === 3)
+    .map(log => ({
+      hop,
+      chainId: receipt.chainId,
+      logIndex: log.logIndex,
+      token: log.address.toLowerCase(),
+      from: decodeWord(log.topics[1].slice(2), 'address'),
+      to: decodeWord(log.topics[2].slice(2), 'address'),
+      amount: decodeParameters(log.data, [{ type: 'uint256' }])[0].value
+    }))
+}
+
+/**
+ * Token movements across the source and destination receipts, source first
+ */
+export function buildTokenLedger(
+  source?: TransactionReceiptInfo | null,
+  destination?: TransactionReceiptInfo | null
+): LedgerEntry[] {
+  return [
+    ...(source ? decodeTokenTransfers(source, 'source') : []),
+    ...(destination ? decodeTokenTransfers(destination, 'destination') : [])
+  ]
+}
+
+/**
+ * Check each included step's input and output against the ledger. A step matches
+ * when a Transfer of the same token for exactly the same amount was logged.
+ */
+export function crossCheckIncludedSteps(steps: IncludedStep[], ledger: LedgerEntry[]): LedgerCheck[] {
+  const checks: LedgerCheck[] = []
+
+  steps.forEach(step => {
+    const sides = [
+      { side: 'from' as const, token: step.fromToken, amount: step.fromAmount },
+      { side: 'to' as const, token: step.toToken, amount: step.toAmount }
+    ]
+
+    sides.forEach(({ side, token, amount }) => {
+      if (!token || !amount) return
+
+      if (isNativeAsset(token.address)) {
+        checks.push({ tool: step.tool, side, token, amount, result: 'native', observedAmounts: [] })
+        return
+      }
+
+      const observedAmounts = ledger
+        .filter(entry => entry.chainId === token.chainId && entry.token === token.address.toLowerCase())
+        .map(entry => entry.amount)
+
+      const result = observedAmounts.includes(amount)
+        ? 'matched'
+        : observedAmounts.length > 0 ? 'amount-differs' : 'missing'
+
+      checks.push({ tool: step.tool, side, token, amount, result, observedAmounts })
+    })
+  })
+
+  return checks
+}
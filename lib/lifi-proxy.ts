@@ -0,0 +1,383 @@
+import { NextRequest, NextResponse } from 'next/server'
+import axios, { AxiosError } from 'axios'
+import { BridgeType, StatusRequest, StatusResponse, ApiError } from '@/types/lifi'
+import { isSupportedTxHash } from './hash-classifier'
+import { ReceiptUnavailableError } from './tx-receipt'
+
+/**
+ * Shared helpers for the server-side LI.FI proxy routes under app/api/lifi
+ */
+
+export const LIFI_BASE_URL = 'https://li.quest/v1'
+// Cursor-paginated analytics endpoints only exist on v2
+export const LIFI_V2_BASE_URL = 'https://li.quest/v2'
+
+// Rate limiting tracking (shared by every proxy route)
+const requestCounts = new Map<string, { count: number; resetTime: number }>()
+const RATE_LIMIT_WINDOW = 60000 // 1 minute
+const RATE_LIMIT_MAX = 100 // requests per window
+
+// Create axios instance lazily to avoid build-time errors
+let api: ReturnType<typeof axios.create> | null = null
+
+export function getApiClient() {
+  if (!api) {
+    const apiKey = process.env.LIFI_API_KEY
+    if (!apiKey) {
+      throw new Error('LIFI_API_KEY environment variable is required')
+    }
+
+    api = axios.create({
+      baseURL: LIFI_BASE_URL,
+      timeout: 30000,
+      headers: {
+        'Content-Type': 'application/json',
+        'x-lifi-api-key': apiKey
+      },
+      // LI.FI expects repeated keys for list params (allowBridges=a&allowBridges=b)
+      paramsSerializer: { indexes: null }
+    })
+  }
+  return api
+}
+
+/**
+ * Fetch a transaction status from the upstream /status endpoint
+ */
+export async function fetchUpstreamStatus(request: StatusRequest): Promise<StatusResponse> {
+  const params: Record<string, string> = { txHash: request.txHash }
+  if (request.fromChain) params.fromChain = request.fromChain
+  if (request.toChain) params.toChain = request.toChain
+  if (request.bridge) params.bridge = request.bridge
+
+  const response = await getApiClient().get('/status', { params })
+  return response.data
+}
+
+// Valid bridge types for validation
+export const validBridges: BridgeType[] = [
+  'hop', 'cbridge', 'celercircle', 'optimism', 'polygon',
+  'arbitrum', 'avalanche', 'across', 'gnosis', 'omni',
+  'relay', 'celerim', 'symbiosis', 'thorswap', 'squid',
+  'allbridge', 'mayan', 'debridge', 'chainflip'
+]
+
+export function validateTxHash(txHash: string): boolean {
+  // EVM hashes, Bitcoin txids, Solana signatures and Sui digests
+  return isSupportedTxHash(txHash)
+}
+
+export function validateWalletAddress(address: string): boolean {
+  return /^0x[a-fA-F0-9]{40}$/.test(address)
+}
+
+export function validateChainId(chainId: string | number): boolean {
+  const parsed = typeof chainId === 'number' ? chainId : parseInt(chainId, 10)
+  return Number.isInteger(parsed) && parsed > 0
+}
+
+export function validateAmount(amount: unknown): boolean {
+  // Amounts are passed in the token's smallest unit as an integer string
+  return typeof amount === 'string' && /^\d+$/.test(amount) && BigInt(amount) > BigInt(0)
+}
+
+/**
+ * Validate the optional status lookup parameters, returning an error message or null if valid
+ */
+export function validateStatusParams(params: {
+  txHash?: string | null
+  fromChain?: string | null
+  toChain?: string | null
+  bridge?: string | null
+}): string | null {
+  if (!params.txHash) {
+    return 'Transaction hash is required'
+  }
+
+  if (!validateTxHash(params.txHash)) {
+    return 'Invalid transaction hash format'
+  }
+
+  if (params.fromChain && !validateChainId(params.fromChain)) {
+    return 'Invalid fromChain parameter'
+  }
+
+  if (params.toChain && !validateChainId(params.toChain)) {
+    return 'Invalid toChain parameter'
+  }
+
+  if (params.bridge && !validBridges.includes(params.bridge as BridgeType)) {
+    return `Invalid bridge parameter. Must be one of: ${validBridges.join(', ')}`
+  }
+
+  return null
+}
+
+export function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0
+}
+
+export function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string')
+}
+
+/**
+ * Take `cost` requests from the client's allowance for the current window,
+ * returning false (and taking nothing) if that would exceed the limit.
+ * The batch status route charges one request per 10 uncached lookups, so a
+ * client can trigger up to 10x RATE_LIMIT_MAX upstream lookups a minute there.
+ */
+export function checkRateLimit(clientId: string, cost = 1): boolean {
+  const now = Date.now()
+  const current = requestCounts.get(clientId)
+
+  if (!current || now > current.resetTime) {
+    if (cost > RATE_LIMIT_MAX) return false
+    requestCounts.set(clientId, { count: cost, resetTime: now + RATE_LIMIT_WINDOW })
+    return true
+  }
+
+  if (current.count + cost > RATE_LIMIT_MAX) {
+    return false
+  }
+
+  current.count += cost
+  return true
+}
+
+export function getClientId(request: NextRequest): string {
+  return getClientIdFromHeaders(request.headers, request.ip)
+}
+
+/**
+ * Client identifier for server components, which only see the request headers
+ */
+export function getClientIdFromHeaders(headers: Pick<Headers, 'get'>, ip?: string): string {
+  // Use IP address or fallback to a default identifier
+  const forwarded = headers.get('x-forwarded-for')
+  return forwarded?.split(',')[0] || ip || 'unknown'
+}
+
+/**
+ * Build a 400 response in the same shape as the other proxy validation errors
+ */
+export function validationErrorResponse(message: string) {
+  return NextResponse.json(
+    {
+      error: {
+        code: 'VALIDATION_ERROR',
+        message,
+        isRetryable: false
+      }
+    },
+    { status: 400 }
+  )
+}
+
+/**
+ * Build the 429 response returned when a client exceeds the proxy rate limit
+ */
+export function rateLimitedResponse() {
+  return NextResponse.json(
+    {
+      error: {
+        code: 'RATE_LIMITED',
+        message: 'Rate limit exceeded. Please try again later',
+        isRetryable: true,
+        retryAfter: 60
+      }
+    },
+    {
+      status: 429,
+      headers: {
+        'Retry-After': '60'
+      }
+    }
+  )
+}
+
+export function createErrorResponse(error: any, txHash?: string) {
+  let status = 500
+  let code = 'UNKNOWN_ERROR'
+  let message = 'An unexpected error occurred'
+  let isRetryable = false
+
+  if (axios.isAxiosError(error)) {
+    const axiosError = error as AxiosError
+    status = axiosError.response?.status || 500
+
+    // Handle specific LI.FI API errors
+    const responseData = axiosError.response?.data as any
+    if (responseData?.message) {
+      message = responseData.message
+    } else if (responseData?.error) {
+      message = responseData.error
+    } else {
+      message = axiosError.message
+    }
+
+    switch (status) {
+      case 400:
+        code = 'VALIDATION_ERROR'
+        message = responseData?.message || 'Invalid request parameters'
+        break
+      case 401:
+        code = 'UNAUTHORIZED'
+        message = 'API key is invalid or missing'
+        break
+      case 404:
+        code = 'NOT_FOUND'
+        message = txHash ? `Transaction ${txHash} not found` : 'Resource not found'
+        break
+      case 429:
+        code = 'RATE_LIMITED'
+        message = 'Too many requests. Please try again later'
+        isRetryable = true
+        break
+      case 500:
+      case 502:
+      case 503:
+      case 504:
+        code = 'SERVER_ERROR'
+        message = 'LI.FI service is temporarily unavailable'
+        isRetryable = true
+        break
+      default:
+        isRetryable = status >= 500
+    }
+  } else if (error.code === 'ECONNABORTED') {
+    code = 'TIMEOUT'
+    message = 'Request timeout'
+    status = 408
+    isRetryable = true
+  } else if (error.code === 'ENOTFOUND' || error.code === 'ECONNREFUSED') {
+    code = 'NETWORK_ERROR'
+    message = 'Network connection failed'
+    status = 503
+    isRetryable = true
+  }
+
+  const retryAfter = error.response?.headers?.['retry-after']
+
+  return {
+    error: {
+      code,
+      message,
+      isRetryable,
+      ...(retryAfter && { retryAfter: parseInt(retryAfter, 10) })
+    },
+    status
+  }
+}
+
+/**
+ * Run an async mapper over items with at most `limit` calls in flight, preserving order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  mapper: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length)
+  let nextIndex = 0
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++
+      results[index] = await mapper(items[index], index)
+    }
+  }
+
+  const workers = Array.from({ length: Math.min(limit, items.length) }, worker)
+  await Promise.all(workers)
+
+  return results
+}
+
+/**
+ * Convert an upstream failure into the ApiError shape used by the client
+ */
+export function toApiError(error: any, txHash?: string): ApiError {
+  const { error: errorResponse, status } = createErrorResponse(error, txHash)
+
+  return {
+    ...errorResponse,
+    status,
+    isNetworkError: status >= 500
+  }
+}
+
+/**
+ * Log a failed upstream call and turn it into the proxy's JSON error response
+ */
+export function upstreamErrorResponse(
+  error: any,
+  label: string,
+  startTime: number,
+  context: Record<string, unknown> = {},
+  txHash?: string
+) {
+  const duration = Date.now() - startTime
+
+  console.error(`LI.FI ${label} request failed after ${duration}ms:`, {
+    ...context,
+    error: error.message,
+    status: error.response?.status,
+    code: error.code
+  })
+
+  const { error: errorResponse, status } = createErrorResponse(error, txHash)
+
+  return NextResponse.json(
+    errorResponse,
+    {
+      status,
+      headers: error.response?.headers?.['retry-after']
+        ? { 'Retry-After': error.response.headers['retry-after'] }
+        : {}
+    }
+  )
+}
+
+/**
+ * Error response for the chain JSON-RPC routes under app/api/chain, which fail
+ * against a chain's RPC rather than LI.FI
+ */
+export function chainRpcErrorResponse(
+  error: any,
+  label: string,
+  startTime: number,
+  context: Record<string, unknown> = {}
+) {
+  if (error instanceof ReceiptUnavailableError) {
+    return NextResponse.json(
+      {
+        error: {
+          code: error.status === 404 ? 'NOT_FOUND' : 'VALIDATION_ERROR',
+          message: error.message,
+          isRetryable: error.status === 404
+        }
+      },
+      { status: error.status }
+    )
+  }
+
+  const duration = Date.now() - startTime
+  console.error(`Chain ${label} request failed after ${duration}ms:`, {
+    ...context,
+    error: error.message,
+    code: error.code
+  })
+
+  const isTimeout = error.code === 'ECONNABORTED'
+  return NextResponse.json(
+    {
+      error: {
+        code: isTimeout ? 'TIMEOUT' : 'RPC_ERROR',
+        message: isTimeout ? 'RPC request timed out' : 'Chain RPC request failed',
+        isRetryable: true
+      }
+    },
+    { status: 502 }
+  )
+}
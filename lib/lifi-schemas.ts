@@ -0,0 +1,249 @@
+import {
+  StatusResponse,
+  TransactionInfo,
+  TransactionStatus,
+  TransactionSubstatus,
+  TokenInfo,
+  FeeCost,
+  GasCost,
+  IncludedStep,
+  ToolDetails,
+  Route,
+  RouteStep,
+  StepAction,
+  StepEstimate,
+  Quote,
+  BatchStatusResponse,
+  TransfersResponse,
+  ApiError
+} from '@/types/lifi'
+import {
+  SchemaMode,
+  Validator,
+  array,
+  boolean,
+  lazy,
+  nullable,
+  number,
+  object,
+  oneOf,
+  optional,
+  string,
+  unknown,
+  validate
+} from './schema'
+
+/**
+ * Runtime validators mirroring the LI.FI types in types/lifi.ts
+ */
+
+const transactionStatuses = Object.values(TransactionStatus)
+const transactionSubstatuses = Object.values(TransactionSubstatus)
+
+export const tokenInfoSchema: Validator<TokenInfo> = object<TokenInfo>({
+  address: string(),
+  chainId: number(),
+  symbol: string(),
+  decimals: number(),
+  name: string(),
+  coinKey: optional(string()),
+  logoURI: optional(string()),
+  priceUSD: optional(string())
+})
+
+export const feeCostSchema: Validator<FeeCost> = object<FeeCost>({
+  name: string(),
+  description: optional(string()),
+  percentage: optional(string()),
+  token: tokenInfoSchema,
+  amount: optional(string()),
+  amountUSD: optional(string()),
+  included: optional(boolean())
+})
+
+export const gasCostSchema: Validator<GasCost> = object<GasCost>({
+  type: oneOf(['SEND', 'APPROVE', 'CROSS'] as const, { lenient: true }),
+  price: optional(string()),
+  estimate: optional(string()),
+  limit: optional(string()),
+  amount: string(),
+  amountUSD: optional(string()),
+  token: tokenInfoSchema
+})
+
+const toolDetailsSchema: Validator<ToolDetails> = object<ToolDetails>({
+  key: string(),
+  name: string(),
+  logoURI: optional(string())
+})
+
+const includedStepSchema: Validator<IncludedStep> = object<IncludedStep>({
+  tool: string(),
+  toolDetails: optional(toolDetailsSchema),
+  fromAmount: optional(string()),
+  fromToken: optional(tokenInfoSchema),
+  toAmount: optional(string()),
+  toToken: optional(tokenInfoSchema),
+  bridgedAmount: optional(string())
+})
+
+export const transactionInfoSchema: Validator<TransactionInfo> = object<TransactionInfo>({
+  txHash: string(),
+  txLink: optional(string()),
+  amount: optional(string()),
+  token: optional(tokenInfoSchema),
+  chainId: optional(number()),
+  gasToken: optional(tokenInfoSchema),
+  gasAmount: optional(string()),
+  gasAmountUSD: optional(string()),
+  gasPrice: optional(string()),
+  gasUsed: optional(string()),
+  timestamp: optional(number()),
+  value: optional(string()),
+  amountUSD: optional(string()),
+  includedSteps: optional(array(includedStepSchema))
+})
+
+export const statusResponseSchema: Validator<StatusResponse> = object<StatusResponse>({
+  transactionId: optional(string()),
+  sending: transactionInfoSchema,
+  receiving: optional(transactionInfoSchema),
+  feeCosts: optional(array(feeCostSchema)),
+  status: oneOf(transactionStatuses),
+  substatus: optional(oneOf(transactionSubstatuses, { lenient: true })),
+  substatusMessage: optional(string()),
+  tool: optional(string()),
+  fromAddress: optional(string()),
+  toAddress: optional(string()),
+  lifiExplorerLink: optional(string()),
+  bridgeExplorerLink: optional(string()),
+  metadata: optional(unknown()),
+  error: optional(object<{ code: string; message: string }>({
+    code: string(),
+    message: string()
+  }))
+})
+
+const stepActionSchema: Validator<StepAction> = object<StepAction>({
+  fromChainId: number(),
+  toChainId: number(),
+  fromToken: tokenInfoSchema,
+  toToken: tokenInfoSchema,
+  fromAmount: string(),
+  slippage: optional(number()),
+  fromAddress: optional(string()),
+  toAddress: optional(string())
+})
+
+const stepEstimateSchema: Validator<StepEstimate> = object<StepEstimate>({
+  tool: string(),
+  fromAmount: string(),
+  toAmount: string(),
+  toAmountMin: string(),
+  approvalAddress: optional(string()),
+  executionDuration: number(),
+  feeCosts: optional(array(feeCostSchema)),
+  gasCosts: optional(array(gasCostSchema))
+})
+
+export const routeStepSchema: Validator<RouteStep> = object<RouteStep>({
+  id: string(),
+  type: oneOf(['lifi', 'cross', 'swap'] as const, { lenient: true }),
+  tool: string(),
+  toolDetails: toolDetailsSchema,
+  action: stepActionSchema,
+  estimate: stepEstimateSchema,
+  includedSteps: optional(array(lazy(() => routeStepSchema)))
+})
+
+const routeShape = {
+  id: string(),
+  fromChainId: number(),
+  fromAmountUSD: string(),
+  fromAmount: string(),
+  fromToken: tokenInfoSchema,
+  fromAddress: optional(string()),
+  toChainId: number(),
+  toAmountUSD: string(),
+  toAmount: string(),
+  toAmountMin: string(),
+  toToken: tokenInfoSchema,
+  toAddress: optional(string()),
+  gasCostUSD: optional(string()),
+  steps: array(routeStepSchema),
+  insurance: optional(object<NonNullable<Route['insurance']>>({
+    state: string(),
+    feeAmountUsd: optional(string())
+  })),
+  tags: optional(array(string()))
+}
+
+export const routeSchema: Validator<Route> = object<Route>(routeShape)
+
+export const quoteSchema: Validator<Quote> = object<Quote>({
+  ...routeShape,
+  transactionRequest: optional(object<NonNullable<Quote['transactionRequest']>>({
+    data: string(),
+    to: string(),
+    value: string(),
+    from: optional(string()),
+    gasPrice: optional(string()),
+    gasLimit: optional(string())
+  }, { allowUnknown: true }))
+})
+
+const apiErrorSchema: Validator<ApiError> = object<ApiError>({
+  code: string(),
+  message: string(),
+  status: optional(number()),
+  isRetryable: boolean(),
+  isNetworkError: boolean(),
+  retryAfter: optional(number())
+})
+
+const batchStatusResponseSchema: Validator<BatchStatusResponse> = object<BatchStatusResponse>({
+  results: array(object<BatchStatusResponse['results'][number]>({
+    txHash: string(),
+    data: nullable(statusResponseSchema),
+    error: nullable(apiErrorSchema)
+  })),
+  totalProcessed: number(),
+  totalSuccessful: number(),
+  totalErrors: number()
+})
+
+const routesResponseSchema: Validator<{ routes: Route[] }> = object<{
+  routes: Route[]
+  unavailableRoutes?: unknown
+}>({
+  routes: array(routeSchema),
+  unavailableRoutes: optional(unknown())
+})
+
+const transfersResponseSchema: Validator<TransfersResponse> = object<TransfersResponse>({
+  transfers: array(statusResponseSchema),
+  hasNext: boolean(),
+  hasPrevious: boolean(),
+  next: optional(string()),
+  previous: optional(string())
+})
+
+export function validateStatusResponse(data: unknown, mode?: SchemaMode): StatusResponse {
+  return validate('status response', statusResponseSchema, data, mode)
+}
+
+export function validateBatchStatusResponse(data: unknown, mode?: SchemaMode): BatchStatusResponse {
+  return validate('batch status response', batchStatusResponseSchema, data, mode)
+}
+
+export function validateRoutesResponse(data: unknown, mode?: SchemaMode): { routes: Route[] } {
+  return validate('routes response', routesResponseSchema, data, mode)
+}
+
+export function validateQuote(data: unknown, mode?: SchemaMode): Quote {
+  return validate('quote response', quoteSchema, data, mode)
+}
+
+export function validateTransfersResponse(data: unknown, mode?: SchemaMode): TransfersResponse {
+  return validate('transfers response', transfersResponseSchema, data, mode)
+}
@@ -5,9 +5,16 @@ import {
   TransactionSubstatus,
   TokenInfo,
   FeeCost,
+  IncludedStep,
   StatusMessages,
   SubstatusMessages
 } from '@/types/lifi'
+import { isSupportedTxHash } from './hash-classifier'
+import { chainRegistry } from './chain-registry'
+import { formatTokenAmount, getTokenAmountUSD } from './token-service'
+import { DurationBaseline, formatBaselineRange, getDefaultBaseline } from './duration-baselines'
+
+export { formatTokenAmount }
 
 /**
  * Utility functions for parsing and formatting LI.FI API responses
@@ -28,6 +35,9 @@ export interface ParsedStatusResponse extends Omit<StatusResponse, 'sending' | '
   displayStatus: string
   displaySubstatus?: string
   isCompleted: boolean
+  // DONE, but the user did not receive the requested token in full
+  isPartial: boolean
+  isRefunded: boolean
   isPending: boolean
   isFailed: boolean
   totalFeeUSD?: number
@@ -46,6 +56,10 @@ export function parseStatusResponse(response: StatusResponse): ParsedStatusRespo
 
   const isCompleted = response.status === TransactionStatus.DONE && 
     response.substatus === TransactionSubstatus.COMPLETED
+  const isPartial = response.status === TransactionStatus.DONE &&
+    response.substatus === TransactionSubstatus.PARTIAL
+  const isRefunded = response.status === TransactionStatus.DONE &&
+    response.substatus === TransactionSubstatus.REFUNDED
   const isPending = response.status === TransactionStatus.PENDING
   const isFailed = response.status === TransactionStatus.FAILED
 
@@ -58,12 +72,18 @@ export function parseStatusResponse(response: StatusResponse): ParsedStatusRespo
       (SubstatusMessages[response.substatus] || response.substatusMessage || response.substatus) : 
       undefined,
     isCompleted,
+    isPartial,
+    isRefunded,
     isPending,
     isFailed,
     totalFeeUSD: calculateTotalFeeUSD(response.feeCosts),
-    estimatedTimeRemaining: estimateTimeRemaining(response.status, response.substatus),
+    estimatedTimeRemaining: estimateTimeRemaining(
+      response.status,
+      response.substatus,
+      getDefaultBaseline(response.tool, response.sending.chainId, response.receiving?.chainId)
+    ),
     progress: calculateProgress(response.status, response.substatus, sending, receiving),
-    statusColor: getStatusColor(response.status),
+    statusColor: getStatusColor(response.status, response.substatus),
     canRetry: canRetryTransaction(response.status, response.substatus)
   }
 }
@@ -91,44 +111,6 @@ export function parseTransactionInfo(info: TransactionInfo): ParsedTransactionIn
   }
 }
 
-/**
- * Format token amount with proper decimals and symbol
- */
-export function formatTokenAmount(
-  amount: string, 
-  decimals: number, 
-  symbol?: string,
-  maxDecimalPlaces = 6
-): string {
-  try {
-    const value = BigInt(amount)
-    const divisor = BigInt(10 ** decimals)
-    const integerPart = value / divisor
-    const fractionalPart = value % divisor
-
-    let formatted: string
-
-    if (fractionalPart === BigInt(0)) {
-      formatted = integerPart.toString()
-    } else {
-      const fractionalStr = fractionalPart.toString().padStart(decimals, '0')
-      const trimmedFractional = fractionalStr.replace(/0+$/, '')
-      const truncatedFractional = trimmedFractional.slice(0, maxDecimalPlaces)
-      
-      if (truncatedFractional) {
-        formatted = `${integerPart}.${truncatedFractional}`
-      } else {
-        formatted = integerPart.toString()
-      }
-    }
-
-    return symbol ? `${formatted} ${symbol}` : formatted
-  } catch (error) {
-    // Fallback for invalid amounts
-    return symbol ? `${amount} ${symbol}` : amount
-  }
-}
-
 /**
  * Format USD amount with proper formatting
  */
@@ -168,11 +150,13 @@ export function calculateTotalFeeUSD(feeCosts?: FeeCost[]): number | undefined {
 }
 
 /**
- * Estimate remaining time based on status and substatus
+ * Estimate remaining time based on status and substatus, using the bridge's
+ * duration baseline while waiting on the destination
  */
 export function estimateTimeRemaining(
   status: TransactionStatus, 
-  substatus?: TransactionSubstatus
+  substatus?: TransactionSubstatus,
+  baseline?: DurationBaseline
 ): string | undefined {
   if (status === TransactionStatus.DONE || status === TransactionStatus.FAILED) {
     return undefined
@@ -183,14 +167,14 @@ export function estimateTimeRemaining(
       case TransactionSubstatus.WAIT_SOURCE_CONFIRMATIONS:
         return '1-3 minutes'
       case TransactionSubstatus.WAIT_DESTINATION_TRANSACTION:
-        return '5-15 minutes'
+        return baseline ? formatBaselineRange(baseline) : '5-15 minutes'
       case TransactionSubstatus.BRIDGE_NOT_AVAILABLE:
       case TransactionSubstatus.CHAIN_NOT_AVAILABLE:
         return 'Unknown'
       case TransactionSubstatus.REFUND_IN_PROGRESS:
         return '10-30 minutes'
       default:
-        return '5-15 minutes'
+        return baseline ? formatBaselineRange(baseline) : '5-15 minutes'
     }
   }
 
@@ -206,6 +190,10 @@ export function calculateProgress(
   sending?: ParsedTransactionInfo,
   receiving?: ParsedTransactionInfo
 ): number {
+  // Progress towards delivering the requested tokens: a partial transfer
+  // delivered something else, a refund delivered nothing
+  if (substatus === TransactionSubstatus.PARTIAL && status === TransactionStatus.DONE) return 90
+  if (substatus === TransactionSubstatus.REFUNDED && status === TransactionStatus.DONE) return 0
   if (status === TransactionStatus.DONE) return 100
   if (status === TransactionStatus.FAILED) return 0
   if (status === TransactionStatus.NOT_FOUND) return 0
@@ -226,10 +214,23 @@ export function calculateProgress(
   return 0
 }
 
+/**
+ * Whether a DONE transfer ended in a partial or refunded outcome
+ */
+export function isIncompleteOutcome(status: TransactionStatus, substatus?: TransactionSubstatus): boolean {
+  return status === TransactionStatus.DONE &&
+    (substatus === TransactionSubstatus.PARTIAL || substatus === TransactionSubstatus.REFUNDED)
+}
+
 /**
  * Get status color for UI components
  */
-export function getStatusColor(status: TransactionStatus): 'success' | 'warning' | 'error' | 'info' {
+export function getStatusColor(
+  status: TransactionStatus,
+  substatus?: TransactionSubstatus
+): 'success' | 'warning' | 'error' | 'info' {
+  if (isIncompleteOutcome(status, substatus)) return 'warning'
+
   switch (status) {
     case TransactionStatus.DONE:
       return 'success'
@@ -267,49 +268,14 @@ export function canRetryTransaction(
  * Generate explorer URL for transaction hash and chain ID
  */
 export function generateExplorerUrl(txHash?: string, chainId?: number): string | undefined {
-  if (!txHash || !chainId) return undefined
-
-  const explorers: Record<number, string> = {
-    1: 'https://etherscan.io/tx',
-    137: 'https://polygonscan.com/tx',
-    42161: 'https://arbiscan.io/tx',
-    10: 'https://optimistic.etherscan.io/tx',
-    56: 'https://bscscan.com/tx',
-    43114: 'https://snowtrace.io/tx',
-    250: 'https://ftmscan.com/tx',
-    100: 'https://gnosisscan.io/tx',
-    8453: 'https://basescan.org/tx',
-    324: 'https://explorer.zksync.io/tx',
-    167000: 'https://taikoscan.io/tx',
-    59144: 'https://lineascan.build/tx'
-  }
-
-  const baseUrl = explorers[chainId]
-  return baseUrl ? `${baseUrl}/${txHash}` : undefined
+  return chainRegistry.getExplorerTxUrl(txHash, chainId)
 }
 
 /**
  * Get chain name from chain ID
  */
 export function getChainName(chainId?: number): string {
-  if (!chainId) return 'Unknown'
-
-  const chainNames: Record<number, string> = {
-    1: 'Ethereum',
-    137: 'Polygon',
-    42161: 'Arbitrum',
-    10: 'Optimism',
-    56: 'BNB Smart Chain',
-    43114: 'Avalanche',
-    250: 'Fantom',
-    100: 'Gnosis',
-    8453: 'Base',
-    324: 'zkSync Era',
-    167000: 'Taiko',
-    59144: 'Linea'
-  }
-
-  return chainNames[chainId] || `Chain ${chainId}`
+  return chainRegistry.getChainName(chainId)
 }
 
 /**
@@ -346,10 +312,17 @@ export function getTimeElapsed(timestamp?: number): string | undefined {
 }
 
 /**
- * Validate transaction hash format
+ * Validate transaction hash format (EVM, Solana, Bitcoin or Sui)
  */
 export function isValidTxHash(txHash: string): boolean {
-  return /^0x[a-fA-F0-9]{64}$/.test(txHash)
+  return isSupportedTxHash(txHash)
+}
+
+/**
+ * Validate EVM wallet address format (0x + 20 bytes)
+ */
+export function isValidWalletAddress(address: string): boolean {
+  return /^0x[a-fA-F0-9]{40}$/.test(address)
 }
 
 /**
@@ -372,7 +345,13 @@ export function formatAddress(address?: string): string {
 /**
  * Get status background color class for UI components
  */
-export function getStatusBgColor(status: TransactionStatus): string {
+export function getStatusBgColor(status: TransactionStatus, substatus?: TransactionSubstatus): string {
+  if (isIncompleteOutcome(status, substatus)) {
+    return substatus === TransactionSubstatus.PARTIAL
+      ? 'bg-orange-100 dark:bg-orange-900/20'
+      : 'bg-purple-100 dark:bg-purple-900/20'
+  }
+
   switch (status) {
     case TransactionStatus.DONE:
       return 'bg-green-100 dark:bg-green-900/20'
@@ -390,7 +369,13 @@ export function getStatusBgColor(status: TransactionStatus): string {
 /**
  * Get status text color class for UI components
  */
-export function getStatusTextColor(status: TransactionStatus): string {
+export function getStatusTextColor(status: TransactionStatus, substatus?: TransactionSubstatus): string {
+  if (isIncompleteOutcome(status, substatus)) {
+    return substatus === TransactionSubstatus.PARTIAL
+      ? 'text-orange-600 dark:text-orange-400'
+      : 'text-purple-600 dark:text-purple-400'
+  }
+
   switch (status) {
     case TransactionStatus.DONE:
       return 'text-green-600 dark:text-green-400'
@@ -446,3 +431,38 @@ export function getBridgeToolName(tool?: string): string {
 
   return toolNames[tool] || tool
 }
+
+/**
+ * Every included step of a transfer in execution order: the source transaction's
+ * steps, then any destination steps not already listed there
+ */
+export function getIncludedSteps(response: Pick<StatusResponse, 'sending' | 'receiving'>): IncludedStep[] {
+  const sendingSteps = response.sending.includedSteps ?? []
+  const stepKey = (step: IncludedStep) =>
+    `${step.tool}:${step.fromToken?.chainId}:${step.fromToken?.address.toLowerCase()}:${step.fromAmount}`
+  const seen = new Set(sendingSteps.map(stepKey))
+
+  return [
+    ...sendingSteps,
+    ...(response.receiving?.includedSteps ?? []).filter(step => !seen.has(stepKey(step)))
+  ]
+}
+
+/**
+ * Whether an included step moves funds between chains
+ */
+export function isCrossChainStep(step: IncludedStep): boolean {
+  return !!step.fromToken && !!step.toToken && step.fromToken.chainId !== step.toToken.chainId
+}
+
+/**
+ * Value lost (negative) or gained across a step, as a percentage of the USD value
+ * going in. Includes fees taken inside the step. Undefined without token prices.
+ */
+export function getStepSlippage(step: IncludedStep): number | undefined {
+  const fromUSD = getTokenAmountUSD(step.fromAmount, step.fromToken)
+  const toUSD = getTokenAmountUSD(step.toAmount, step.toToken)
+  if (fromUSD === undefined || toUSD === undefined || fromUSD === 0) return undefined
+
+  return ((toUSD - fromUSD) / fromUSD) * 100
+}
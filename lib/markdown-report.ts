@@ -0,0 +1,244 @@
+import {
+  DebugReport,
+  DebugReportLeg,
+  formatLegAmount,
+  formatLegGas,
+  formatPercent,
+  formatReportTime
+} from './debug-report'
+import { formatBaselineRange, formatDuration } from './duration-baselines'
+import { formatUSD } from './utils'
+
+/**
+ * Markdown rendering of a debug report for GitHub issues and Zendesk tickets.
+ * The raw status payload goes in a collapsed <details> block at the end.
+ */
+
+const MAX_ALTERNATIVE_ROUTES = 3
+
+function escapeCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ')
+}
+
+function table(headers: string[], rows: string[][]): string[] {
+  return [
+    `| ${headers.join(' | ')} |`,
+    `| ${headers.map(() => '---').join(' | ')} |`,
+    ...rows.map(row => `| ${row.map(cell => escapeCell(cell || '-')).join(' | ')} |`)
+  ]
+}
+
+function code(text: string): string {
+  return `\`${text}\``
+}
+
+function renderSummary(report: DebugReport): string[] {
+  const { status, sending, receiving, timing } = report
+  const rows: Array<[string, string | undefined]> = [
+    ['Transaction', code(report.txHash)],
+    ['Transfer ID', status.transactionId && code(status.transactionId)],
+    ['Route', `${sending.chainName} → ${receiving?.chainName ?? 'Unknown'}`],
+    ['Tool', status.tool ? `${status.toolName} (${code(status.tool)})` : status.toolName],
+    ['Sent', formatLegAmount(sending)],
+    ['Received', formatLegAmount(receiving)],
+    ['Sender', status.fromAddress && code(status.fromAddress)],
+    ['Recipient', status.toAddress && code(status.toAddress)],
+    ['Progress', `${status.progress}%`],
+    ['Duration', timing.durationSeconds !== undefined ? formatDuration(timing.durationSeconds) : undefined],
+    ['Elapsed', timing.elapsedSeconds !== undefined ? formatDuration(timing.elapsedSeconds) : undefined],
+    ['Expected', `${formatBaselineRange(timing.baseline)} (${timing.baseline.source} baseline, ${timing.baseline.sampleCount} samples)`],
+    ['Assessment', timing.assessment
+      ? `${timing.assessment}${timing.shouldEscalate ? ' - escalate to support' : ''}`
+      : undefined],
+    ['Time remaining', status.estimatedTimeRemaining]
+  ]
+
+  return [
+    '## Summary',
+    '',
+    ...table(
+      ['Field', 'Value'],
+      rows.filter((row): row is [string, string] => !!row[1])
+    )
+  ]
+}
+
+function renderTimeline(report: DebugReport): string[] {
+  const legs: Array<[string, DebugReportLeg | undefined]> = [
+    ['Source', report.sending],
+    ['Destination', report.receiving]
+  ]
+
+  return [
+    '## Timeline',
+    '',
+    ...table(
+      ['Leg', 'Chain', 'Transaction', 'Amount', 'Gas', 'Time'],
+      legs.map(([label, leg]) => [
+        label,
+        leg?.chainName ?? '-',
+        leg?.txHash ? (leg.txLink ? `[${code(leg.txHash)}](${leg.txLink})` : code(leg.txHash)) : 'Not yet available',
+        formatLegAmount(leg) ?? '-',
+        formatLegGas(leg),
+        formatReportTime(leg?.timestamp) ?? 'Pending'
+      ])
+    )
+  ]
+}
+
+function renderFees(report: DebugReport): string[] {
+  const { fees } = report
+  const lines = ['## Fee Breakdown', '']
+
+  if (fees.items.length === 0) {
+    lines.push('No fees reported for this transfer.')
+  } else {
+    lines.push(...table(
+      ['Fee', 'Amount', 'USD', 'Included'],
+      fees.items.map(fee => [
+        fee.percentage ? `${fee.name} (${fee.percentage}%)` : fee.name,
+        fee.formattedAmount ?? '-',
+        fee.amountUSD ? formatUSD(fee.amountUSD) : '-',
+        fee.included ? 'Yes' : 'No'
+      ])
+    ))
+  }
+
+  const totals = [
+    fees.totalFeeUSD !== undefined ? `**Total fees:** ${formatUSD(fees.totalFeeUSD.toString())}` : undefined,
+    fees.totalGasUSD !== undefined ? `**Total gas:** ${formatUSD(fees.totalGasUSD.toString())}` : undefined
+  ].filter(Boolean)
+  if (totals.length > 0) {
+    lines.push('', totals.join(' · '))
+  }
+
+  return lines
+}
+
+function renderErrors(report: DebugReport): string[] {
+  const { errors } = report
+  const lines = ['## Error Analysis', '']
+
+  if (errors.summary.errorCount === 0) {
+    lines.push('No errors reported for this transfer.')
+    return lines
+  }
+
+  lines.push(
+    `- **Severity:** ${errors.summary.severity}`,
+    `- **Category:** ${errors.summary.category}`,
+    `- **Retryable:** ${errors.summary.isRetryable ? 'Yes' : 'No'}`
+  )
+  if (errors.summary.estimatedResolutionTime) {
+    lines.push(`- **Estimated resolution:** ${errors.summary.estimatedResolutionTime}`)
+  }
+  if (errors.apiError) {
+    lines.push(`- **API error:** ${code(errors.apiError.code)} ${errors.apiError.message}`)
+  }
+  if (errors.substatus) {
+    lines.push(`- **Substatus:** ${code(errors.substatus)}${errors.substatusMessage ? ` ${errors.substatusMessage}` : ''}`)
+  }
+
+  if (errors.toolErrors.length > 0) {
+    lines.push('', ...table(
+      ['Tool', 'Code', 'Message'],
+      errors.toolErrors.map(error => [error.tool, code(error.code), error.message])
+    ))
+  }
+
+  lines.push('', '### Suggestions', '')
+  lines.push(...[errors.summary.primarySuggestion, ...errors.suggestions].map(suggestion => `- ${suggestion}`))
+
+  if (errors.docs.length > 0) {
+    lines.push('', ...errors.docs.map(doc => `- [${doc.text}](${doc.url})`))
+  }
+
+  return lines
+}
+
+function renderAlternatives(report: DebugReport): string[] {
+  const lines = ['## Alternative Routes', '']
+
+  if (!report.alternatives) {
+    lines.push('Alternative routes could not be fetched for this transfer.')
+    return lines
+  }
+
+  const routes = report.alternatives.routes.slice(0, MAX_ALTERNATIVE_ROUTES)
+  if (routes.length > 0) {
+    lines.push(...table(
+      ['Type', 'Tools', 'Receive', 'Fees + gas', 'Time', 'Impact', 'Success'],
+      routes.map(route => [
+        route.recommendation,
+        route.tools.join(' → '),
+        route.formattedToAmount,
+        formatUSD((route.totalFeesUSD + route.totalGasUSD).toString()),
+        formatDuration(route.estimatedTimeSeconds),
+        formatPercent(route.priceImpact),
+        `${route.successProbability}% (${route.riskLevel})`
+      ])
+    ))
+  }
+
+  if (report.alternatives.failureReasons.length > 0) {
+    if (routes.length > 0) lines.push('')
+    lines.push(...report.alternatives.failureReasons.map(reason => `- ${reason}`))
+  }
+
+  return lines
+}
+
+function renderExplorerLinks(report: DebugReport): string[] {
+  const links: Array<[string, string | undefined]> = [
+    ['LI.FI Explorer', report.status.lifiExplorerLink],
+    ['Bridge Explorer', report.status.bridgeExplorerLink],
+    [`Source transaction (${report.sending.chainName})`, report.sending.txLink],
+    [`Destination transaction (${report.receiving?.chainName ?? 'Unknown'})`, report.receiving?.txLink]
+  ]
+  const available = links.filter((link): link is [string, string] => !!link[1])
+  if (available.length === 0) return []
+
+  return ['## Explorer Links', '', ...available.map(([label, url]) => `- [${label}](${url})`)]
+}
+
+function renderRawPayload(report: DebugReport): string[] {
+  return [
+    '<details>',
+    '<summary>Raw status payload</summary>',
+    '',
+    '```json',
+    JSON.stringify(report.raw, null, 2),
+    '```',
+    '',
+    '</details>'
+  ]
+}
+
+/**
+ * Renders the report as GitHub-flavoured Markdown
+ */
+export function renderMarkdownReport(report: DebugReport): string {
+  const { status } = report
+  const header = [
+    `# LiFi Lens Transfer Report: ${status.displayStatus}`,
+    '',
+    `**Status:** ${code(status.status)}${status.substatus ? ` / ${code(status.substatus)}` : ''}` +
+      (status.displaySubstatus ? ` - ${status.displaySubstatus}` : ''),
+    '',
+    `_Generated ${formatReportTime(report.generatedAt)} by ${report.generator.name} ${report.generator.version}` +
+      ` - report schema v${report.schemaVersion}${report.redacted ? ' - addresses redacted' : ''}_`
+  ]
+
+  const sections = [
+    header,
+    renderSummary(report),
+    renderTimeline(report),
+    renderFees(report),
+    renderErrors(report),
+    renderAlternatives(report),
+    renderExplorerLinks(report),
+    renderRawPayload(report)
+  ].filter(section => section.length > 0)
+
+  return sections.map(section => section.join('\n')).join('\n\n') + '\n'
+}
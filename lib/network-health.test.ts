@@ -0,0 +1,275 @@
+import http from 'node:http'
+import { AddressInfo } from 'node:net'
+import axios from 'axios'
+import { NextRequest } from 'next/server'
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
+
+// The LI.FI probe goes through the proxy's axios client; point it at the stub server
+const lifi = vi.hoisted(() => ({ baseURL: '' }))
+vi.mock('./lifi-proxy', async importOriginal => ({
+  ...await importOriginal<typeof import('./lifi-proxy')>(),
+  getApiClient: () => axios.create({ baseURL: lifi.baseURL })
+}))
+
+const NOW = 1_700_000_000_000
+const BLOCK_NUMBER = 0x1234
+
+interface StubBehavior {
+  // Simulated eth_blockNumber round trip, added to the mocked clock
+  latencyMs: number
+  blockAgeSeconds: number
+  rpcError: boolean
+  // Hold RPC requests open until the client gives up
+  hang: boolean
+  lifiStatus: number
+}
+
+let clock = NOW
+let behavior: StubBehavior
+let rpcRequests = 0
+let server: http.Server
+let baseUrl: string
+
+function rpcResult(method: string): unknown {
+  if (method === 'eth_blockNumber') {
+    clock += behavior.latencyMs
+    return `0x${BLOCK_NUMBER.toString(16)}`
+  }
+  return { timestamp: `0x${(Math.floor(clock / 1000) - behavior.blockAgeSeconds).toString(16)}` }
+}
+
+function handleRequest(request: http.IncomingMessage, response: http.ServerResponse) {
+  if (request.method === 'GET' && request.url?.startsWith('/chains')) {
+    response.writeHead(behavior.lifiStatus, { 'Content-Type': 'application/json' })
+    response.end(JSON.stringify({ chains: [] }))
+    return
+  }
+
+  let body = ''
+  request.on('data', chunk => { body += chunk })
+  request.on('end', () => {
+    rpcRequests++
+    if (behavior.hang) return
+
+    const { id, method } = JSON.parse(body)
+    const payload = behavior.rpcError
+      ? { jsonrpc: '2.0', id, error: { code: -32000, message: 'header not found' } }
+      : { jsonrpc: '2.0', id, result: rpcResult(method) }
+    response.writeHead(200, { 'Content-Type': 'application/json' })
+    response.end(JSON.stringify(payload))
+  })
+}
+
+async function loadNetworkHealth() {
+  // Fresh module state so each test starts with an empty error window
+  vi.resetModules()
+  return import('./network-health')
+}
+
+beforeAll(async () => {
+  server = http.createServer(handleRequest)
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  lifi.baseURL = baseUrl
+})
+
+afterAll(async () => {
+  server.closeAllConnections()
+  await new Promise(resolve => server.close(resolve))
+})
+
+beforeEach(() => {
+  clock = NOW
+  rpcRequests = 0
+  behavior = { latencyMs: 50, blockAgeSeconds: 12, rpcError: false, hang: false, lifiStatus: 200 }
+  vi.spyOn(Date, 'now').mockImplementation(() => clock)
+  vi.stubEnv('HEALTH_RPC_ENDPOINTS', `1=${baseUrl},10=${baseUrl}`)
+  vi.stubEnv('LIFI_API_KEY', 'test-key')
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+  vi.unstubAllEnvs()
+})
+
+describe('getRpcEndpoints', () => {
+  it('reads HEALTH_RPC_ENDPOINTS', async () => {
+    const { getRpcEndpoints } = await loadNetworkHealth()
+    expect(getRpcEndpoints()).toEqual({ 1: baseUrl, 10: baseUrl })
+  })
+})
+
+describe('probeChain', () => {
+  it('reports a fast, recent chain as healthy', async () => {
+    const { probeChain } = await loadNetworkHealth()
+    const health = await probeChain(1, baseUrl)
+
+    expect(health).toMatchObject({
+      chainId: 1,
+      status: 'healthy',
+      latencyMs: 50,
+      blockNumber: BLOCK_NUMBER,
+      blockAgeSeconds: 12,
+      errorRate: 0
+    })
+    expect(health.error).toBeUndefined()
+  })
+
+  it.each([
+    [799, 'healthy'],
+    [800, 'warning'],
+    [2999, 'warning'],
+    [3000, 'error']
+  ])('maps %ims latency to %s', async (latencyMs, status) => {
+    const { probeChain } = await loadNetworkHealth()
+    behavior.latencyMs = latencyMs
+
+    const health = await probeChain(1, baseUrl)
+    expect(health.latencyMs).toBe(latencyMs)
+    expect(health.status).toBe(status)
+  })
+
+  it.each([
+    [119, 'healthy'],
+    [120, 'warning'],
+    [599, 'warning'],
+    [600, 'error']
+  ])('maps a %is old block to %s', async (blockAgeSeconds, status) => {
+    const { probeChain } = await loadNetworkHealth()
+    behavior.blockAgeSeconds = blockAgeSeconds
+
+    const health = await probeChain(1, baseUrl)
+    expect(health.blockAgeSeconds).toBe(blockAgeSeconds)
+    expect(health.status).toBe(status)
+  })
+
+  it('reports RPC errors with the upstream message', async () => {
+    const { probeChain } = await loadNetworkHealth()
+    behavior.rpcError = true
+
+    const health = await probeChain(1, baseUrl)
+    expect(health).toMatchObject({ status: 'error', errorRate: 1, error: 'header not found' })
+    expect(health.latencyMs).toBeUndefined()
+  })
+
+  it('raises the status with the error rate of recent probes', async () => {
+    const { probeChain } = await loadNetworkHealth()
+
+    behavior.rpcError = true
+    await probeChain(1, baseUrl)
+    behavior.rpcError = false
+    for (let i = 0; i < 8; i++) await probeChain(1, baseUrl)
+
+    // One failure in ten probes reaches the 10% warning threshold
+    let health = await probeChain(1, baseUrl)
+    expect(health.errorRate).toBeCloseTo(1 / 10)
+    expect(health.status).toBe('warning')
+
+    behavior.rpcError = true
+    for (let i = 0; i < 9; i++) await probeChain(1, baseUrl)
+    behavior.rpcError = false
+
+    // 10 failures in 20 probes reaches the 50% error threshold
+    health = await probeChain(1, baseUrl)
+    expect(health.errorRate).toBeCloseTo(10 / 20)
+    expect(health.status).toBe('error')
+  })
+
+  it('keeps the error rate to a rolling window of 20 probes', async () => {
+    const { probeChain } = await loadNetworkHealth()
+
+    behavior.rpcError = true
+    for (let i = 0; i < 5; i++) await probeChain(1, baseUrl)
+    behavior.rpcError = false
+
+    let health = await probeChain(1, baseUrl)
+    expect(health.errorRate).toBeCloseTo(5 / 6)
+
+    for (let i = 0; i < 14; i++) health = await probeChain(1, baseUrl)
+    expect(health.errorRate).toBeCloseTo(5 / 20)
+    expect(health.status).toBe('warning')
+
+    // Five more successes push every failure out of the window
+    for (let i = 0; i < 5; i++) health = await probeChain(1, baseUrl)
+    expect(health.errorRate).toBe(0)
+    expect(health.status).toBe('healthy')
+  })
+
+  it('tracks the error window per chain', async () => {
+    const { probeChain } = await loadNetworkHealth()
+
+    behavior.rpcError = true
+    await probeChain(1, baseUrl)
+    behavior.rpcError = false
+
+    expect((await probeChain(10, baseUrl)).errorRate).toBe(0)
+    expect((await probeChain(1, baseUrl)).errorRate).toBeCloseTo(1 / 2)
+  })
+
+  it('reports a timeout when the endpoint does not answer', async () => {
+    const { probeChain } = await loadNetworkHealth()
+    behavior.hang = true
+
+    const health = await probeChain(1, baseUrl)
+    expect(health).toMatchObject({ status: 'error', errorRate: 1, error: 'RPC request timed out' })
+  }, 10000)
+})
+
+describe('probeLiFiApi', () => {
+  it('reports a reachable API as healthy', async () => {
+    const { probeLiFiApi } = await loadNetworkHealth()
+    expect(await probeLiFiApi()).toMatchObject({ status: 'healthy', latencyMs: 0 })
+  })
+
+  it('reports the upstream status code when the API fails', async () => {
+    const { probeLiFiApi } = await loadNetworkHealth()
+    behavior.lifiStatus = 503
+
+    const health = await probeLiFiApi()
+    expect(health).toMatchObject({ status: 'error', error: 'LI.FI API returned 503' })
+    expect(health.latencyMs).toBeUndefined()
+  })
+})
+
+describe('probeNetworkHealth', () => {
+  it('probes every configured chain and the LI.FI API', async () => {
+    const { probeNetworkHealth } = await loadNetworkHealth()
+    behavior.lifiStatus = 500
+
+    const health = await probeNetworkHealth()
+    expect(health.chains.map(chain => [chain.chainId, chain.status])).toEqual([[1, 'healthy'], [10, 'healthy']])
+    expect(health.lifi).toMatchObject({ status: 'error', error: 'LI.FI API returned 500' })
+  })
+})
+
+describe('GET /api/health/chains', () => {
+  async function loadRoute() {
+    vi.resetModules()
+    return import('@/app/api/health/chains/route')
+  }
+
+  function healthRequest() {
+    return new NextRequest('http://localhost/api/health/chains', {
+      headers: { 'x-forwarded-for': '203.0.113.7' }
+    })
+  }
+
+  it('shares one probe between requests within the cache window', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    const { GET } = await loadRoute()
+
+    const first = await (await GET(healthRequest())).json()
+    expect(first.chains).toHaveLength(2)
+    expect(first.lifi.status).toBe('healthy')
+    const probeRequests = rpcRequests
+
+    clock += 10000
+    const second = await (await GET(healthRequest())).json()
+    expect(second).toEqual(first)
+    expect(rpcRequests).toBe(probeRequests)
+
+    clock += 10000
+    await GET(healthRequest())
+    expect(rpcRequests).toBe(probeRequests * 2)
+  })
+})
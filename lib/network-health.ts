@@ -0,0 +1,148 @@
+import { ChainHealth, HealthStatus, LiFiApiHealth, NetworkHealthResponse } from '@/types/lifi'
+import { getApiClient } from './lifi-proxy'
+import { getRpcUrl, hexToNumber, parseRpcEndpoints, rpcCall } from './rpc'
+
+/**
+ * Live chain and LI.FI API probes behind GET /api/health/chains.
+ *
+ * Each chain's JSON-RPC endpoint is asked for eth_blockNumber (latency) and the
+ * latest block (block age). Results feed a short rolling window per chain so one
+ * dropped request shows up as a raised error rate rather than an outage.
+ */
+
+// Chains probed by default; override with HEALTH_RPC_ENDPOINTS
+const DEFAULT_HEALTH_CHAIN_IDS = [1, 42161, 137, 10, 8453]
+
+const PROBE_TIMEOUT = 5000 // 5 seconds
+const ERROR_WINDOW_SIZE = 20
+
+// Thresholds for the healthy/warning/error status of a chain
+const LATENCY_WARNING_MS = 800
+const LATENCY_ERROR_MS = 3000
+const BLOCK_AGE_WARNING_SECONDS = 120
+const BLOCK_AGE_ERROR_SECONDS = 600
+const ERROR_RATE_WARNING = 0.1
+const ERROR_RATE_ERROR = 0.5
+
+// Recent probe outcomes per chain (true = success)
+const probeHistory = new Map<number, boolean[]>()
+
+/**
+ * RPC endpoints to probe, from HEALTH_RPC_ENDPOINTS ("1=https://...,137=https://...")
+ * or the default chains' shared RPC endpoints
+ */
+export function getRpcEndpoints(): Record<number, string> {
+  const configured = process.env.HEALTH_RPC_ENDPOINTS
+  if (configured) return parseRpcEndpoints(configured)
+
+  const endpoints: Record<number, string> = {}
+  DEFAULT_HEALTH_CHAIN_IDS.forEach(chainId => {
+    const url = getRpcUrl(chainId)
+    if (url) endpoints[chainId] = url
+  })
+
+  return endpoints
+}
+
+function recordProbe(chainId: number, success: boolean): number {
+  const history = probeHistory.get(chainId) ?? []
+  history.push(success)
+  if (history.length > ERROR_WINDOW_SIZE) history.shift()
+  probeHistory.set(chainId, history)
+
+  return history.filter(ok => !ok).length / history.length
+}
+
+function getChainStatus(health: Omit<ChainHealth, 'status'>): HealthStatus {
+  if (health.error ||
+      health.errorRate >= ERROR_RATE_ERROR ||
+      (health.latencyMs ?? 0) >= LATENCY_ERROR_MS ||
+      (health.blockAgeSeconds ?? 0) >= BLOCK_AGE_ERROR_SECONDS) {
+    return 'error'
+  }
+
+  if (health.errorRate >= ERROR_RATE_WARNING ||
+      (health.latencyMs ?? 0) >= LATENCY_WARNING_MS ||
+      (health.blockAgeSeconds ?? 0) >= BLOCK_AGE_WARNING_SECONDS) {
+    return 'warning'
+  }
+
+  return 'healthy'
+}
+
+/**
+ * Probe one chain's JSON-RPC endpoint
+ */
+export async function probeChain(chainId: number, url: string): Promise<ChainHealth> {
+  const startTime = Date.now()
+
+  try {
+    const blockNumberHex = await rpcCall<string>(url, 'eth_blockNumber')
+    const latencyMs = Date.now() - startTime
+
+    const block = await rpcCall<{ timestamp: string }>(url, 'eth_getBlockByNumber', [blockNumberHex, false])
+    const blockAgeSeconds = Math.max(0, Math.floor(Date.now() / 1000) - hexToNumber(block.timestamp))
+
+    const health = {
+      chainId,
+      latencyMs,
+      blockNumber: hexToNumber(blockNumberHex),
+      blockAgeSeconds,
+      errorRate: recordProbe(chainId, true),
+      checkedAt: Date.now()
+    }
+
+    return { ...health, status: getChainStatus(health) }
+  } catch (error: any) {
+    return {
+      chainId,
+      status: 'error',
+      errorRate: recordProbe(chainId, false),
+      error: error.code === 'ECONNABORTED' ? 'RPC request timed out' : error.message,
+      checkedAt: Date.now()
+    }
+  }
+}
+
+/**
+ * Probe the LI.FI API with a lightweight chain list request
+ */
+export async function probeLiFiApi(): Promise<LiFiApiHealth> {
+  const startTime = Date.now()
+
+  try {
+    await getApiClient().get('/chains', {
+      params: { chainTypes: 'EVM' },
+      timeout: PROBE_TIMEOUT
+    })
+    const latencyMs = Date.now() - startTime
+
+    return {
+      status: latencyMs >= LATENCY_ERROR_MS ? 'error' : latencyMs >= LATENCY_WARNING_MS ? 'warning' : 'healthy',
+      latencyMs,
+      checkedAt: Date.now()
+    }
+  } catch (error: any) {
+    return {
+      status: 'error',
+      error: error.response?.status ? `LI.FI API returned ${error.response.status}` : error.message,
+      checkedAt: Date.now()
+    }
+  }
+}
+
+/**
+ * Probe every configured chain and the LI.FI API in parallel
+ */
+export async function probeNetworkHealth(): Promise<NetworkHealthResponse> {
+  const endpoints = getRpcEndpoints()
+
+  const [chains, lifi] = await Promise.all([
+    Promise.all(
+      Object.entries(endpoints).map(([chainId, url]) => probeChain(Number(chainId), url))
+    ),
+    probeLiFiApi()
+  ])
+
+  return { chains, lifi, checkedAt: Date.now() }
+}
@@ -0,0 +1,154 @@
+import { describe, expect, it } from 'vitest'
+import { StatusResponse, TokenInfo, TransactionStatus, TransactionSubstatus } from '@/types/lifi'
+import { createDebugReport, DebugReport } from './debug-report'
+import { renderPdfReport } from './pdf-report'
+
+const NOW = Date.UTC(2024, 4, 1, 12, 0, 0)
+
+const USDC_ETHEREUM: TokenInfo = {
+  address: '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48',
+  chainId: 1,
+  symbol: 'USDC',
+  decimals: 6,
+  name: 'USD Coin',
+  priceUSD: '1'
+}
+
+const USDC_OPTIMISM: TokenInfo = {
+  address: '0x0b2c639c533813f4aa9d7837caf62653d097ff85',
+  chainId: 10,
+  symbol: 'USDC',
+  decimals: 6,
+  name: 'USD Coin',
+  priceUSD: '1'
+}
+
+const ETH: TokenInfo = {
+  address: '0x0000000000000000000000000000000000000000',
+  chainId: 1,
+  symbol: 'ETH',
+  decimals: 18,
+  name: 'Ether',
+  priceUSD: '3000'
+}
+
+const COMPLETED_TRANSFER: StatusResponse = {
+  transactionId: '0x5f8e2a1c9b7d4e3f6a0b1c2d3e4f5a6b7c8d9e0f1a2b3c4d5e6f7a8b9c0d1e2f',
+  status: TransactionStatus.DONE,
+  substatus: TransactionSubstatus.COMPLETED,
+  substatusMessage: 'The transfer is complete.',
+  tool: 'stargate',
+  fromAddress: '0x1111111111111111111111111111111111111111',
+  toAddress: '0x2222222222222222222222222222222222222222',
+  lifiExplorerLink: 'https://scan.li.fi/tx/0x9f3a',
+  sending: {
+    txHash: '0x9f3a7c2e1b5d8f4a6c0e2b4d6f8a0c2e4b6d8f0a2c4e6b8d0f2a4c6e8b0d2f4a',
+    txLink: 'https://etherscan.io/tx/0x9f3a7c2e1b5d8f4a6c0e2b4d6f8a0c2e4b6d8f0a2c4e6b8d0f2a4c6e8b0d2f4a',
+    amount: '1000000000',
+    amountUSD: '1000.00',
+    token: USDC_ETHEREUM,
+    chainId: 1,
+    gasToken: ETH,
+    gasAmount: '2100000000000000',
+    gasAmountUSD: '6.30',
+    timestamp: Math.floor(NOW / 1000) - 600
+  },
+  receiving: {
+    txHash: '0x4b1d9e7a3c5f2b8d6e0a4c8f2b6d0e4a8c2f6b0d4e8a2c6f0b4d8e2a6c0f4b8d',
+    txLink: 'https://optimistic.etherscan.io/tx/0x4b1d9e7a3c5f2b8d6e0a4c8f2b6d0e4a8c2f6b0d4e8a2c6f0b4d8e2a6c0f4b8d',
+    amount: '999200000',
+    amountUSD: '999.20',
+    token: USDC_OPTIMISM,
+    chainId: 10,
+    timestamp: Math.floor(NOW / 1000) - 480
+  },
+  feeCosts: [
+    {
+      name: 'LI.FI Fee',
+      description: 'Integrator fee',
+      percentage: '0.0008',
+      token: USDC_ETHEREUM,
+      amount: '800000',
+      amountUSD: '0.80',
+      included: true
+    }
+  ]
+}
+
+// Solana signatures are far longer than EVM hashes
+const SOLANA_SIGNATURE = '5VERv8NMvzbJMEkV8xnrLkEaWRtSz9CosKDYjCJjBRnbJLgp8uirBgmQpjKhoR4tjF3ZpRzrFmBV6UjKdiSZkQUW'
+
+const FAILED_TRANSFER: StatusResponse = {
+  status: TransactionStatus.FAILED,
+  substatus: TransactionSubstatus.SLIPPAGE_EXCEEDED,
+  substatusMessage: 'The return amount was below the minimum.',
+  tool: 'mayan',
+  fromAddress: '7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU',
+  sending: {
+    txHash: SOLANA_SIGNATURE,
+    amount: '2500000000',
+    chainId: 1151111081099710,
+    timestamp: Math.floor(NOW / 1000) - 3600
+  }
+}
+
+// Text drawn on each page, in drawing order
+function pageTexts(report: DebugReport): string[][] {
+  const pdf = renderPdfReport(report)
+  // Raw content stream lines per page; index 0 is unused
+  const { pages } = pdf.internal as unknown as { pages: string[][] }
+
+  return pages.slice(1).map(lines =>
+    Array.from(lines.join('\n').matchAll(/\(((?:\\.|[^\\)])*)\) Tj/g), match => match[1].replace(/\\(.)/g, '$1'))
+  )
+}
+
+describe('renderPdfReport', () => {
+  it('renders a completed transfer', () => {
+    const report = createDebugReport({
+      txHash: COMPLETED_TRANSFER.sending.txHash,
+      status: COMPLETED_TRANSFER,
+      now: NOW
+    })
+
+    expect(pageTexts(report)).toMatchSnapshot()
+  })
+
+  it('renders a failed transfer with redacted addresses', () => {
+    const report = createDebugReport({
+      txHash: SOLANA_SIGNATURE,
+      status: FAILED_TRANSFER,
+      alternatives: null,
+      redactAddresses: true,
+      now: NOW
+    })
+
+    expect(pageTexts(report)).toMatchSnapshot()
+  })
+
+  it('keeps the transaction hash on one footer line', () => {
+    const report = createDebugReport({ txHash: SOLANA_SIGNATURE, status: FAILED_TRANSFER, now: NOW })
+    const footers = pageTexts(report).map(texts => texts.slice(-2))
+
+    footers.forEach((footer, index) => {
+      expect(footer).toEqual([SOLANA_SIGNATURE, `Page ${index + 1} of ${footers.length}`])
+    })
+  })
+
+  it('truncates a transaction hash that does not fit the footer', () => {
+    const txHash = SOLANA_SIGNATURE.repeat(2)
+    const report = createDebugReport({ txHash, status: FAILED_TRANSFER, now: NOW })
+    const footers = pageTexts(report).map(texts => texts.slice(-2))
+
+    footers.forEach((footer, index) => {
+      expect(footer[0]).toMatch(/^5VERv8NMvz\w+\.\.\.\w+SZkQUW$/)
+      expect(footer[0].length).toBeLessThan(txHash.length)
+      expect(footer[1]).toBe(`Page ${index + 1} of ${footers.length}`)
+    })
+  })
+
+  it('renders the same report identically', () => {
+    const report = createDebugReport({ txHash: SOLANA_SIGNATURE, status: FAILED_TRANSFER, now: NOW })
+    expect(renderPdfReport(report).output()).toBe(renderPdfReport(report).output())
+  })
+})
@@ -0,0 +1,495 @@
+import jsPDF from 'jspdf'
+import {
+  DebugReport,
+  DebugReportLeg,
+  formatLegAmount,
+  formatLegGas,
+  formatPercent,
+  formatReportTime
+} from './debug-report'
+import { formatBaselineRange, formatDuration } from './duration-baselines'
+import { formatUSD } from './utils'
+
+/**
+ * Multi-page A4 PDF rendering of a debug report.
+ *
+ * Everything on the page comes from the report itself (no current time, locale
+ * or timezone), and the document's creation date and file ID are pinned to the
+ * report, so the same report always renders the same text.
+ */
+
+const PAGE_MARGIN = 15
+const LINE_HEIGHT = 5
+const CELL_PADDING = 1.5
+const MAX_ALTERNATIVE_ROUTES = 3
+
+type Color = [number, number, number]
+
+const TEXT_COLOR: Color = [17, 24, 39]
+const MUTED_COLOR: Color = [107, 114, 128]
+const LINK_COLOR: Color = [37, 99, 235]
+const RULE_COLOR: Color = [229, 231, 235]
+const HEADER_FILL: Color = [243, 244, 246]
+
+const BADGE_COLORS: Record<DebugReport['status']['statusColor'], Color> = {
+  success: [22, 163, 74],
+  warning: [217, 119, 6],
+  error: [220, 38, 38],
+  info: [37, 99, 235]
+}
+
+export interface PdfTableColumn {
+  header: string
+  // Share of the content width; the widths of a table should add up to 1
+  width: number
+  align?: 'left' | 'right'
+}
+
+/**
+ * Keeps track of the cursor and starts a new page whenever the next block
+ * would not fit
+ */
+class PdfWriter {
+  readonly pdf: jsPDF
+  private y = PAGE_MARGIN
+  private readonly pageWidth: number
+  private readonly pageHeight: number
+
+  constructor(pdf: jsPDF) {
+    this.pdf = pdf
+    this.pageWidth = pdf.internal.pageSize.getWidth()
+    this.pageHeight = pdf.internal.pageSize.getHeight()
+  }
+
+  get contentWidth(): number {
+    return this.pageWidth - PAGE_MARGIN * 2
+  }
+
+  get cursor(): number {
+    return this.y
+  }
+
+  space(height: number) {
+    this.y += height
+  }
+
+  ensureSpace(height: number) {
+    // Footer takes the bottom margin
+    if (this.y + height > this.pageHeight - PAGE_MARGIN - LINE_HEIGHT) {
+      this.pdf.addPage()
+      this.y = PAGE_MARGIN
+    }
+  }
+
+  /**
+   * Splits text into lines that fit the width, breaking hashes and URLs
+   * mid-string when they have no spaces
+   */
+  wrap(text: string, width: number): string[] {
+    return this.pdf.splitTextToSize(text, width) as string[]
+  }
+
+  heading(text: string) {
+    this.ensureSpace(LINE_HEIGHT * 4)
+    this.space(LINE_HEIGHT)
+    this.pdf.setFont('helvetica', 'bold')
+    this.pdf.setFontSize(13)
+    this.pdf.setTextColor(...TEXT_COLOR)
+    this.pdf.text(text, PAGE_MARGIN, this.y)
+    this.space(2)
+    this.pdf.setDrawColor(...RULE_COLOR)
+    this.pdf.line(PAGE_MARGIN, this.y, PAGE_MARGIN + this.contentWidth, this.y)
+    this.space(LINE_HEIGHT)
+  }
+
+  paragraph(text: string, options: { color?: Color; bold?: boolean; indent?: number } = {}) {
+    const indent = options.indent ?? 0
+    this.pdf.setFont('helvetica', options.bold ? 'bold' : 'normal')
+    this.pdf.setFontSize(10)
+    this.pdf.setTextColor(...(options.color ?? TEXT_COLOR))
+
+    this.wrap(text, this.contentWidth - indent).forEach(line => {
+      this.ensureSpace(LINE_HEIGHT)
+      this.pdf.text(line, PAGE_MARGIN + indent, this.y)
+      this.space(LINE_HEIGHT)
+    })
+  }
+
+  bullets(items: string[]) {
+    items.forEach(item => this.paragraph(`- ${item}`, { indent: 2 }))
+  }
+
+  /**
+   * Label/value rows; values wrap within the right-hand column
+   */
+  keyValues(rows: Array<[string, string | undefined]>) {
+    const labelWidth = 40
+    const valueWidth = this.contentWidth - labelWidth
+
+    rows.forEach(([label, value]) => {
+      if (value === undefined || value === '') return
+
+      this.pdf.setFontSize(10)
+      const lines = this.wrap(value, valueWidth)
+      this.ensureSpace(lines.length * LINE_HEIGHT)
+
+      this.pdf.setFont('helvetica', 'bold')
+      this.pdf.setTextColor(...MUTED_COLOR)
+      this.pdf.text(label, PAGE_MARGIN, this.y)
+
+      this.pdf.setFont('helvetica', 'normal')
+      this.pdf.setTextColor(...TEXT_COLOR)
+      lines.forEach(line => {
+        this.pdf.text(line, PAGE_MARGIN + labelWidth, this.y)
+        this.space(LINE_HEIGHT)
+      })
+    })
+  }
+
+  link(label: string, url: string) {
+    this.pdf.setFont('helvetica', 'normal')
+    this.pdf.setFontSize(10)
+    this.ensureSpace(LINE_HEIGHT * 2)
+    this.pdf.setTextColor(...TEXT_COLOR)
+    this.pdf.text(label, PAGE_MARGIN, this.y)
+    this.space(LINE_HEIGHT)
+
+    this.pdf.setTextColor(...LINK_COLOR)
+    this.wrap(url, this.contentWidth - 2).forEach(line => {
+      this.ensureSpace(LINE_HEIGHT)
+      this.pdf.textWithLink(line, PAGE_MARGIN + 2, this.y, { url })
+      this.space(LINE_HEIGHT)
+    })
+  }
+
+  /**
+   * Table with wrapping cells; the header row is repeated after a page break
+   */
+  table(columns: PdfTableColumn[], rows: string[][]) {
+    const widths = columns.map(column => column.width * this.contentWidth)
+
+    const drawRow = (cells: string[], header: boolean) => {
+      this.pdf.setFont('helvetica', header ? 'bold' : 'normal')
+      this.pdf.setFontSize(9)
+      const wrapped = cells.map((cell, index) => this.wrap(cell || '-', widths[index] - CELL_PADDING * 2))
+      const height = Math.max(...wrapped.map(lines => lines.length)) * LINE_HEIGHT + CELL_PADDING
+
+      const top = this.y
+      if (header) {
+        this.pdf.setFillColor(...HEADER_FILL)
+        this.pdf.rect(PAGE_MARGIN, top, this.contentWidth, height, 'F')
+      }
+
+      this.pdf.setTextColor(...(header ? MUTED_COLOR : TEXT_COLOR))
+      let x = PAGE_MARGIN
+      wrapped.forEach((lines, index) => {
+        const right = columns[index].align === 'right'
+        lines.forEach((line, lineIndex) => {
+          const lineY = top + CELL_PADDING + (lineIndex + 0.75) * LINE_HEIGHT
+          if (right) {
+            this.pdf.text(line, x + widths[index] - CELL_PADDING, lineY, { align: 'right' })
+          } else {
+            this.pdf.text(line, x + CELL_PADDING, lineY)
+          }
+        })
+        x += widths[index]
+      })
+
+      this.pdf.setDrawColor(...RULE_COLOR)
+      this.pdf.line(PAGE_MARGIN, top + height, PAGE_MARGIN + this.contentWidth, top + height)
+      this.y = top + height
+    }
+
+    const measure = (cells: string[]) => {
+      this.pdf.setFontSize(9)
+      return Math.max(...cells.map((cell, index) =>
+        this.wrap(cell || '-', widths[index] - CELL_PADDING * 2).length
+      )) * LINE_HEIGHT + CELL_PADDING
+    }
+
+    const headers = columns.map(column => column.header)
+    this.ensureSpace(measure(headers) + (rows[0] ? measure(rows[0]) : 0))
+    drawRow(headers, true)
+
+    rows.forEach(row => {
+      const height = measure(row)
+      if (this.y + height > this.pageHeight - PAGE_MARGIN - LINE_HEIGHT) {
+        this.ensureSpace(height * 2)
+        drawRow(headers, true)
+      }
+      drawRow(row, false)
+    })
+
+    this.space(LINE_HEIGHT)
+  }
+}
+
+// Deterministic 32 hex character file ID, derived from the transaction hash
+function toFileId(txHash: string): string {
+  const hex = txHash.replace(/^0x/, '').replace(/[^a-fA-F0-9]/g, '').toUpperCase()
+  return hex.padEnd(32, '0').slice(0, 32)
+}
+
+// Shortens text from the middle so both ends of a hash stay readable
+function truncateToWidth(pdf: jsPDF, text: string, maxWidth: number): string {
+  if (pdf.getTextWidth(text) <= maxWidth) return text
+
+  for (let keep = Math.floor(text.length / 2) - 1; keep > 0; keep--) {
+    const truncated = `${text.slice(0, keep)}...${text.slice(-keep)}`
+    if (pdf.getTextWidth(truncated) <= maxWidth) return truncated
+  }
+  return '...'
+}
+
+function renderHeader(writer: PdfWriter, report: DebugReport) {
+  const { pdf } = writer
+  const badgeText = report.status.displayStatus.toUpperCase()
+
+  pdf.setFont('helvetica', 'bold')
+  pdf.setFontSize(18)
+  pdf.setTextColor(...TEXT_COLOR)
+  writer.space(5)
+  pdf.text('LiFi Lens Transfer Report', PAGE_MARGIN, writer.cursor)
+
+  // Status badge, right-aligned on the title line
+  pdf.setFontSize(9)
+  const badgeWidth = pdf.getTextWidth(badgeText) + 6
+  const badgeX = PAGE_MARGIN + writer.contentWidth - badgeWidth
+  pdf.setFillColor(...BADGE_COLORS[report.status.statusColor])
+  pdf.roundedRect(badgeX, writer.cursor - 5, badgeWidth, 7, 2, 2, 'F')
+  pdf.setTextColor(255, 255, 255)
+  pdf.text(badgeText, badgeX + 3, writer.cursor)
+
+  writer.space(LINE_HEIGHT + 2)
+  writer.paragraph(
+    `Generated ${formatReportTime(report.generatedAt)} by ${report.generator.name} ${report.generator.version}` +
+      ` - report schema v${report.schemaVersion}${report.redacted ? ' - addresses redacted' : ''}`,
+    { color: MUTED_COLOR }
+  )
+
+  if (report.status.displaySubstatus) {
+    writer.paragraph(report.status.displaySubstatus, { bold: true })
+  }
+  if (report.status.substatusMessage && report.status.substatusMessage !== report.status.displaySubstatus) {
+    writer.paragraph(report.status.substatusMessage, { color: MUTED_COLOR })
+  }
+}
+
+function renderSummary(writer: PdfWriter, report: DebugReport) {
+  const { status, sending, receiving, timing } = report
+
+  writer.heading('Summary')
+  writer.keyValues([
+    ['Transaction', report.txHash],
+    ['Transfer ID', status.transactionId],
+    ['Route', `${sending.chainName} -> ${receiving?.chainName ?? 'Unknown'}`],
+    ['Tool', status.tool ? `${status.toolName} (${status.tool})` : status.toolName],
+    ['Sent', formatLegAmount(sending)],
+    ['Received', formatLegAmount(receiving)],
+    ['Sender', status.fromAddress],
+    ['Recipient', status.toAddress],
+    ['Progress', `${status.progress}%`],
+    ['Duration', timing.durationSeconds !== undefined ? formatDuration(timing.durationSeconds) : undefined],
+    ['Elapsed', timing.elapsedSeconds !== undefined ? formatDuration(timing.elapsedSeconds) : undefined],
+    ['Expected', `${formatBaselineRange(timing.baseline)} (${timing.baseline.source} baseline, ${timing.baseline.sampleCount} samples)`],
+    ['Assessment', timing.assessment
+      ? `${timing.assessment}${timing.shouldEscalate ? ' - escalate to support' : ''}`
+      : undefined],
+    ['Time remaining', status.estimatedTimeRemaining]
+  ])
+}
+
+function renderTimeline(writer: PdfWriter, report: DebugReport) {
+  const legs: Array<[string, DebugReportLeg | undefined]> = [
+    ['Source', report.sending],
+    ['Destination', report.receiving]
+  ]
+
+  writer.heading('Timeline')
+  writer.table(
+    [
+      { header: 'Leg', width: 0.13 },
+      { header: 'Chain', width: 0.13 },
+      { header: 'Transaction', width: 0.3 },
+      { header: 'Amount', width: 0.18 },
+      { header: 'Gas', width: 0.1, align: 'right' },
+      { header: 'Time', width: 0.16 }
+    ],
+    legs.map(([label, leg]) => [
+      label,
+      leg?.chainName ?? '-',
+      leg?.txHash ?? 'Not yet available',
+      formatLegAmount(leg) ?? '-',
+      formatLegGas(leg),
+      formatReportTime(leg?.timestamp) ?? 'Pending'
+    ])
+  )
+}
+
+function renderFees(writer: PdfWriter, report: DebugReport) {
+  const { fees } = report
+
+  writer.heading('Fee Breakdown')
+  if (fees.items.length === 0) {
+    writer.paragraph('No fees reported for this transfer.', { color: MUTED_COLOR })
+  } else {
+    writer.table(
+      [
+        { header: 'Fee', width: 0.34 },
+        { header: 'Amount', width: 0.3 },
+        { header: 'USD', width: 0.18, align: 'right' },
+        { header: 'Included', width: 0.18 }
+      ],
+      fees.items.map(fee => [
+        fee.percentage ? `${fee.name} (${fee.percentage}%)` : fee.name,
+        fee.formattedAmount ?? '-',
+        fee.amountUSD ? formatUSD(fee.amountUSD) : '-',
+        fee.included ? 'Yes' : 'No'
+      ])
+    )
+  }
+
+  writer.keyValues([
+    ['Total fees', fees.totalFeeUSD !== undefined ? formatUSD(fees.totalFeeUSD.toString()) : undefined],
+    ['Total gas', fees.totalGasUSD !== undefined ? formatUSD(fees.totalGasUSD.toString()) : undefined]
+  ])
+}
+
+function renderErrors(writer: PdfWriter, report: DebugReport) {
+  const { errors } = report
+
+  writer.heading('Error Analysis')
+  if (errors.summary.errorCount === 0) {
+    writer.paragraph('No errors reported for this transfer.', { color: MUTED_COLOR })
+    return
+  }
+
+  writer.keyValues([
+    ['Severity', errors.summary.severity],
+    ['Category', errors.summary.category],
+    ['Retryable', errors.summary.isRetryable ? 'Yes' : 'No'],
+    ['Resolution', errors.summary.estimatedResolutionTime],
+    ['Affected', errors.summary.affectedServices.join(', ')],
+    ['API error', errors.apiError ? `${errors.apiError.code}: ${errors.apiError.message}` : undefined],
+    ['Substatus', errors.substatus]
+  ])
+
+  if (errors.toolErrors.length > 0) {
+    writer.space(2)
+    writer.table(
+      [
+        { header: 'Tool', width: 0.2 },
+        { header: 'Code', width: 0.25 },
+        { header: 'Message', width: 0.55 }
+      ],
+      errors.toolErrors.map(error => [error.tool, error.code, error.message])
+    )
+  }
+
+  writer.space(2)
+  writer.paragraph('Suggestions', { bold: true })
+  writer.bullets([errors.summary.primarySuggestion, ...errors.suggestions])
+
+  if (errors.docs.length > 0) {
+    writer.space(2)
+    errors.docs.forEach(doc => writer.link(doc.text, doc.url))
+  }
+}
+
+function renderAlternatives(writer: PdfWriter, report: DebugReport) {
+  writer.heading('Alternative Routes')
+
+  if (!report.alternatives) {
+    writer.paragraph('Alternative routes could not be fetched for this transfer.', { color: MUTED_COLOR })
+    return
+  }
+
+  const routes = report.alternatives.routes.slice(0, MAX_ALTERNATIVE_ROUTES)
+  if (routes.length === 0) {
+    writer.bullets(report.alternatives.failureReasons)
+    return
+  }
+
+  writer.table(
+    [
+      { header: 'Type', width: 0.14 },
+      { header: 'Tools', width: 0.22 },
+      { header: 'Receive', width: 0.2 },
+      { header: 'Fees + gas', width: 0.12, align: 'right' },
+      { header: 'Time', width: 0.1, align: 'right' },
+      { header: 'Impact', width: 0.09, align: 'right' },
+      { header: 'Success', width: 0.13, align: 'right' }
+    ],
+    routes.map(route => [
+      route.recommendation,
+      route.tools.join(' -> '),
+      route.formattedToAmount,
+      formatUSD((route.totalFeesUSD + route.totalGasUSD).toString()),
+      formatDuration(route.estimatedTimeSeconds),
+      formatPercent(route.priceImpact),
+      `${route.successProbability}% (${route.riskLevel})`
+    ])
+  )
+
+  if (report.alternatives.failureReasons.length > 0) {
+    writer.paragraph('Why the original route may have failed', { bold: true })
+    writer.bullets(report.alternatives.failureReasons)
+  }
+}
+
+function renderExplorerLinks(writer: PdfWriter, report: DebugReport) {
+  const links: Array<[string, string | undefined]> = [
+    ['LI.FI Explorer', report.status.lifiExplorerLink],
+    ['Bridge Explorer', report.status.bridgeExplorerLink],
+    [`Source transaction (${report.sending.chainName})`, report.sending.txLink],
+    [`Destination transaction (${report.receiving?.chainName ?? 'Unknown'})`, report.receiving?.txLink]
+  ]
+  const available = links.filter((link): link is [string, string] => !!link[1])
+  if (available.length === 0) return
+
+  writer.heading('Explorer Links')
+  available.forEach(([label, url]) => writer.link(label, url))
+}
+
+function renderFooters(pdf: jsPDF, report: DebugReport) {
+  const pageCount = pdf.getNumberOfPages()
+  const pageWidth = pdf.internal.pageSize.getWidth()
+  const pageHeight = pdf.internal.pageSize.getHeight()
+
+  for (let page = 1; page <= pageCount; page++) {
+    pdf.setPage(page)
+    pdf.setFont('helvetica', 'normal')
+    pdf.setFontSize(8)
+    pdf.setTextColor(...MUTED_COLOR)
+    // A single line, leaving room for the page number
+    const txHash = truncateToWidth(pdf, report.txHash, pageWidth - PAGE_MARGIN * 2 - 30)
+    pdf.text(txHash, PAGE_MARGIN, pageHeight - PAGE_MARGIN / 2)
+    pdf.text(`Page ${page} of ${pageCount}`, pageWidth - PAGE_MARGIN, pageHeight - PAGE_MARGIN / 2, { align: 'right' })
+  }
+}
+
+/**
+ * Renders the report; call `save()` on the result to download it
+ */
+export function renderPdfReport(report: DebugReport): jsPDF {
+  const pdf = new jsPDF('p', 'mm', 'a4')
+  pdf.setCreationDate(new Date(report.generatedAt))
+  pdf.setFileId(toFileId(report.txHash))
+  pdf.setDocumentProperties({
+    title: `LiFi Lens Transfer Report ${report.txHash}`,
+    subject: `${report.status.displayStatus} transfer`,
+    creator: `${report.generator.name} ${report.generator.version}`
+  })
+
+  const writer = new PdfWriter(pdf)
+  renderHeader(writer, report)
+  renderSummary(writer, report)
+  renderTimeline(writer, report)
+  renderFees(writer, report)
+  renderErrors(writer, report)
+  renderAlternatives(writer, report)
+  renderExplorerLinks(writer, report)
+  renderFooters(pdf, report)
+
+  return pdf
+}
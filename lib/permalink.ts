@@ -0,0 +1,89 @@
+import { StatusRequest, StatusResponse, StatusMessages } from '@/types/lifi'
+import { getBridgeToolName, getChainName } from './lifi-utils'
+import { formatTokenAmount } from './token-service'
+import { formatUSD } from './utils'
+
+/**
+ * Shareable transaction URLs (/tx/[hash]), their preview images and the short
+ * status summary used when they unfurl in chat apps.
+ */
+
+export type PermalinkParams = Omit<StatusRequest, 'txHash'>
+
+const DEFAULT_SITE_URL = 'https://lens.li.fi'
+
+/**
+ * Public origin for absolute links and Open Graph URLs
+ */
+export function getSiteUrl(): string {
+  return (process.env.NEXT_PUBLIC_SITE_URL || DEFAULT_SITE_URL).replace(/\/$/, '')
+}
+
+/**
+ * Path of the transaction view, e.g. /tx/0xabc...?fromChain=1&toChain=10
+ */
+export function getTransactionPath(txHash: string, params: PermalinkParams = {}): string {
+  const searchParams = new URLSearchParams()
+  if (params.fromChain) searchParams.set('fromChain', params.fromChain)
+  if (params.toChain) searchParams.set('toChain', params.toChain)
+  if (params.bridge) searchParams.set('bridge', params.bridge)
+
+  const query = searchParams.toString()
+  return `/tx/${encodeURIComponent(txHash)}${query ? `?${query}` : ''}`
+}
+
+/**
+ * Path of the transaction's Open Graph image, rendered by /api/og/tx/[hash]
+ */
+export function getTransactionImagePath(txHash: string, params: PermalinkParams = {}): string {
+  return `/api/og${getTransactionPath(txHash, params)}`
+}
+
+/**
+ * Absolute permalink; uses the current origin in the browser so links from
+ * preview deployments point back at the same deployment
+ */
+export function getTransactionUrl(txHash: string, params: PermalinkParams = {}): string {
+  const origin = typeof window !== 'undefined' ? window.location.origin : getSiteUrl()
+  return `${origin}${getTransactionPath(txHash, params)}`
+}
+
+/**
+ * Copy the permalink to the clipboard, resolving to the copied URL
+ */
+export async function copyTransactionLink(txHash: string, params: PermalinkParams = {}): Promise<string> {
+  const url = getTransactionUrl(txHash, params)
+  await navigator.clipboard.writeText(url)
+  return url
+}
+
+export interface TransferSummary {
+  // e.g. "DONE/COMPLETED: 1,000 USDC Ethereum → Optimism"
+  title: string
+  // e.g. "Transaction completed successfully via Stargate. Received 999.2 USDC."
+  description: string
+}
+
+/**
+ * One-line title and description of a transfer for link previews
+ */
+export function summarizeTransfer(status: StatusResponse): TransferSummary {
+  const { sending, receiving } = status
+  const amount = sending.amount && sending.token
+    ? formatTokenAmount(sending.amount, sending.token.decimals, sending.token.symbol)
+    : undefined
+  const received = receiving?.amount && receiving.token
+    ? formatTokenAmount(receiving.amount, receiving.token.decimals, receiving.token.symbol)
+    : undefined
+
+  const route = `${getChainName(sending.chainId)} → ${getChainName(receiving?.chainId)}`
+  const title = `${status.substatus ? `${status.status}/${status.substatus}` : status.status}: ${amount ? `${amount} ` : ''}${route}`
+
+  const description = [
+    `${StatusMessages[status.status] || status.status}${status.tool ? ` via ${getBridgeToolName(status.tool)}` : ''}.`,
+    received ? `Received ${received}.` : undefined,
+    sending.amountUSD ? `Value ${formatUSD(sending.amountUSD)}.` : undefined
+  ].filter(Boolean).join(' ')
+
+  return { title, description }
+}
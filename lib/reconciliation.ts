@@ -0,0 +1,114 @@
+import { StatusResponse, TokenInfo, TransactionSubstatus } from '@/types/lifi'
+import { generateExplorerUrl, getIncludedSteps } from './lifi-utils'
+import { getTokenAmountUSD } from './token-service'
+
+/**
+ * Reconcile a PARTIAL or REFUNDED transfer: what the route was meant to deliver
+ * against what the user actually received, and how much value was lost on the way.
+ */
+
+export interface ReconciledAmount {
+  token: TokenInfo
+  chainId: number
+  amount: string
+  amountUSD?: number
+}
+
+export interface TransferReconciliation {
+  outcome: 'partial' | 'refunded'
+  sent?: ReconciledAmount
+  // Output of the route's last step, when LI.FI reported the included steps
+  expected?: ReconciledAmount
+  received?: ReconciledAmount
+  // Whether the user ended up with a different token than the route targeted
+  tokenMismatch: boolean
+  chainMismatch: boolean
+  valueLostUSD?: number
+  valueLostPercent?: number
+  refundTx?: {
+    txHash: string
+    chainId?: number
+    explorerUrl?: string
+  }
+  explanation: string
+}
+
+function toReconciledAmount(token?: TokenInfo, amount?: string, amountUSD?: string): ReconciledAmount | undefined {
+  if (!token || !amount) return undefined
+
+  const reportedUSD = amountUSD ? parseFloat(amountUSD) : NaN
+  return {
+    token,
+    chainId: token.chainId,
+    amount,
+    amountUSD: isNaN(reportedUSD) ? getTokenAmountUSD(amount, token) : reportedUSD
+  }
+}
+
+function isSameToken(a: TokenInfo, b: TokenInfo): boolean {
+  return a.chainId === b.chainId && a.address.toLowerCase() === b.address.toLowerCase()
+}
+
+function explain(outcome: TransferReconciliation['outcome'], received?: ReconciledAmount, expected?: ReconciledAmount): string {
+  if (outcome === 'refunded') {
+    return received
+      ? `The transfer could not be completed, so ${received.token.symbol} was returned to the sender. ` +
+        'Bridge and gas fees paid before the refund are not recovered.'
+      : 'The transfer could not be completed and the funds were refunded to the sender.'
+  }
+
+  if (received && expected && !isSameToken(received.token, expected.token)) {
+    return `The bridge delivered ${received.token.symbol} instead of ${expected.token.symbol}. ` +
+      'This usually means the destination swap failed (for example on slippage), so the bridged token was ' +
+      'sent to the receiver as-is and can be swapped manually.'
+  }
+
+  return 'Only part of the transfer completed. The receiver got a different token or a smaller amount than the route ' +
+    'targeted; check the received amount below.'
+}
+
+/**
+ * Reconciliation for a transfer with a PARTIAL or REFUNDED substatus, or null for
+ * any other outcome
+ */
+export function reconcileTransfer(
+  response: Pick<StatusResponse, 'substatus' | 'sending' | 'receiving'>
+): TransferReconciliation | null {
+  const outcome = response.substatus === TransactionSubstatus.PARTIAL ? 'partial' :
+    response.substatus === TransactionSubstatus.REFUNDED ? 'refunded' : null
+  if (!outcome) return null
+
+  const { sending, receiving } = response
+  const steps = getIncludedSteps(response)
+  const lastStep = steps[steps.length - 1]
+
+  const sent = toReconciledAmount(sending.token, sending.amount, sending.amountUSD)
+  const expected = toReconciledAmount(lastStep?.toToken, lastStep?.toAmount)
+  const received = toReconciledAmount(receiving?.token, receiving?.amount, receiving?.amountUSD)
+
+  const valueLostUSD = sent?.amountUSD !== undefined && received?.amountUSD !== undefined
+    ? sent.amountUSD - received.amountUSD
+    : undefined
+
+  return {
+    outcome,
+    sent,
+    expected,
+    received,
+    tokenMismatch: !!expected && !!received && !isSameToken(expected.token, received.token),
+    chainMismatch: !!expected && !!received && expected.chainId !== received.chainId,
+    valueLostUSD,
+    valueLostPercent: valueLostUSD !== undefined && sent?.amountUSD
+      ? (valueLostUSD / sent.amountUSD) * 100
+      : undefined,
+    // LI.FI reports the refund as the receiving transaction
+    refundTx: outcome === 'refunded' && receiving?.txHash
+      ? {
+        txHash: receiving.txHash,
+        chainId: receiving.chainId,
+        explorerUrl: receiving.txLink || generateExplorerUrl(receiving.txHash, receiving.chainId)
+      }
+      : undefined,
+    explanation: explain(outcome, received, expected)
+  }
+}
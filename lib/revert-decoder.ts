@@ -0,0 +1,89 @@
+import { DecodedRevert } from '@/types/lifi'
+import { REVERT_ERROR_FRAGMENTS } from './revert-errors'
+import { decodeParameters, parseParams } from './abi'
+
+/**
+ * Decode EVM revert payloads: Error(string), Panic(uint256) and the custom errors
+ * in the bundled fragment registry. Only flat parameter lists are supported, which
+ * covers every fragment in the registry.
+ */
+
+const ERROR_STRING_SELECTOR = '0x08c379a0'
+const PANIC_SELECTOR = '0x4e487b71'
+
+// Solidity panic codes (https://docs.soliditylang.org/en/latest/control-structures.html#panic-via-assert-and-error-via-require)
+const PANIC_REASONS: Record<number, string> = {
+  0x00: 'Generic compiler panic',
+  0x01: 'Assertion failed',
+  0x11: 'Arithmetic overflow or underflow',
+  0x12: 'Division or modulo by zero',
+  0x21: 'Invalid enum value',
+  0x22: 'Incorrectly encoded storage byte array',
+  0x31: 'pop() on an empty array',
+  0x32: 'Array index out of bounds',
+  0x41: 'Out of memory',
+  0x51: 'Call to an uninitialized internal function'
+}
+
+/**
+ * Decode a revert payload. Unrecognized or malformed payloads come back with
+ * kind "unknown" rather than throwing.
+ */
+export function decodeRevertData(revertData?: string): DecodedRevert {
+  if (!revertData || revertData === '0x') {
+    return { kind: 'unknown', reason: 'Reverted without a reason', args: [] }
+  }
+
+  const normalized = revertData.toLowerCase()
+  const selector = normalized.slice(0, 10)
+  const body = normalized.slice(10)
+
+  try {
+    if (selector === ERROR_STRING_SELECTOR) {
+      const [message] = decodeParameters(body, [{ type: 'string' }])
+      return {
+        kind: 'error',
+        selector,
+        name: 'Error',
+        signature: 'Error(string)',
+        reason: message.value,
+        args: [message]
+      }
+    }
+
+    if (selector === PANIC_SELECTOR) {
+      const [code] = decodeParameters(body, [{ name: 'code', type: 'uint256' }])
+      const panicCode = Number(code.value)
+      return {
+        kind: 'panic',
+        selector,
+        name: 'Panic',
+        signature: 'Panic(uint256 code)',
+        reason: PANIC_REASONS[panicCode] ?? `Panic code 0x${panicCode.toString(16)}`,
+        args: [code]
+      }
+    }
+
+    const fragment = REVERT_ERROR_FRAGMENTS[selector]
+    if (fragment) {
+      return {
+        kind: 'custom',
+        selector,
+        name: fragment.signature.slice(0, fragment.signature.indexOf('(')),
+        signature: fragment.signature,
+        source: fragment.source,
+        reason: fragment.description,
+        args: decodeParameters(body, parseParams(fragment.signature))
+      }
+    }
+  } catch (error) {
+    console.warn(`Could not decode revert data for selector ${selector}:`, error)
+  }
+
+  return {
+    kind: 'unknown',
+    selector,
+    reason: `Unrecognized error selector ${selector}`,
+    args: []
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Custom error fragments the revert decoder recognizes, keyed by 4-byte selector.
+ *
+ * Selectors are keccak256 of the canonical signature (types only); the signature
+ * here keeps parameter names so decoded arguments can be labelled. Add new
+ * fragments as facets ship new errors.
+ */
+
+export interface ErrorFragment {
+  signature: string
+  source: string
+  description: string
+}
+
+const LIFI_DIAMOND = 'LI.FI Diamond'
+const ERC20 = 'ERC-20 token'
+
+export const REVERT_ERROR_FRAGMENTS: Record<string, ErrorFragment> = {
+  // LI.FI Diamond generic errors
+  '0x0dc149f0': { signature: 'AlreadyInitialized()', source: LIFI_DIAMOND, description: 'Facet was already initialized' },
+  '0x4ac09ad3': { signature: 'CannotBridgeToSameNetwork()', source: LIFI_DIAMOND, description: 'Source and destination chain are the same' },
+  '0x94539804': { signature: 'ContractCallNotAllowed()', source: LIFI_DIAMOND, description: 'Call target is not on the allow list' },
+  '0x275c273c': {
+    signature: 'CumulativeSlippageTooHigh(uint256 minAmount, uint256 receivedAmount)',
+    source: LIFI_DIAMOND,
+    description: 'Swaps returned less than the minimum amount'
+  },
+  '0x350c20f1': { signature: 'ExternalCallFailed()', source: LIFI_DIAMOND, description: 'A call to a DEX or bridge contract failed' },
+  '0x50dc905c': { signature: 'InformationMismatch()', source: LIFI_DIAMOND, description: 'Bridge data does not match the swap data' },
+  '0xcf479181': {
+    signature: 'InsufficientBalance(uint256 required, uint256 balance)',
+    source: LIFI_DIAMOND,
+    description: 'Contract balance is lower than the amount to send'
+  },
+  '0x2c5211c6': { signature: 'InvalidAmount()', source: LIFI_DIAMOND, description: 'Amount is zero or out of range' },
+  '0x1c49f4d1': { signature: 'InvalidCallData()', source: LIFI_DIAMOND, description: 'Calldata could not be decoded' },
+  '0x35be3ac8': { signature: 'InvalidConfig()', source: LIFI_DIAMOND, description: 'Facet configuration is invalid' },
+  '0x6eefed20': { signature: 'InvalidContract()', source: LIFI_DIAMOND, description: 'Target is not a valid contract' },
+  '0xb86ac1ef': { signature: 'InvalidDestinationChain()', source: LIFI_DIAMOND, description: 'Destination chain is not supported by this bridge' },
+  '0xd7a2b022': { signature: 'InvalidFallbackAddress()', source: LIFI_DIAMOND, description: 'Fallback address is missing or invalid' },
+  '0x1e4ec46b': { signature: 'InvalidReceiver()', source: LIFI_DIAMOND, description: 'Receiver address is missing or invalid' },
+  '0x7d6f2013': { signature: 'InvalidSendingToken()', source: LIFI_DIAMOND, description: 'Sending token does not match the bridge data' },
+  '0x5ded5997': { signature: 'NativeAssetNotSupported()', source: LIFI_DIAMOND, description: 'Bridge does not accept the native asset' },
+  '0x5a046737': { signature: 'NativeAssetTransferFailed()', source: LIFI_DIAMOND, description: 'Sending the native asset failed' },
+  '0x0503c3ed': { signature: 'NoSwapDataProvided()', source: LIFI_DIAMOND, description: 'Swap step is missing its swap data' },
+  '0xe46e079c': { signature: 'NoSwapFromZeroBalance()', source: LIFI_DIAMOND, description: 'Swap input balance is zero' },
+  '0x09ee12d5': { signature: 'NotAContract()', source: LIFI_DIAMOND, description: 'Target address has no code' },
+  '0x87138d5c': { signature: 'NotInitialized()', source: LIFI_DIAMOND, description: 'Facet has not been initialized' },
+  '0x21f74345': { signature: 'NoTransferToNullAddress()', source: LIFI_DIAMOND, description: 'Transfer to the zero address' },
+  '0xd1bebf0c': { signature: 'NullAddrIsNotAnERC20Token()', source: LIFI_DIAMOND, description: 'Zero address used as an ERC-20 token' },
+  '0x63ba9bff': { signature: 'NullAddrIsNotAValidSpender()', source: LIFI_DIAMOND, description: 'Zero address used as a spender' },
+  '0x277d76f8': { signature: 'OnlyContractOwner()', source: LIFI_DIAMOND, description: 'Caller is not the contract owner' },
+  '0x29f745a7': { signature: 'ReentrancyError()', source: LIFI_DIAMOND, description: 'Reentrant call blocked' },
+  '0x3dd1b305': { signature: 'TokenNotSupported()', source: LIFI_DIAMOND, description: 'Token is not supported by this bridge' },
+  '0xbe245983': { signature: 'UnAuthorized()', source: LIFI_DIAMOND, description: 'Caller is not authorized' },
+  '0xa5dab5fe': { signature: 'UnsupportedChainId(uint256 chainId)', source: LIFI_DIAMOND, description: 'Chain is not supported by this bridge' },
+  '0x750b219c': { signature: 'WithdrawFailed()', source: LIFI_DIAMOND, description: 'Withdrawal from the contract failed' },
+  '0x1f2a2005': { signature: 'ZeroAmount()', source: LIFI_DIAMOND, description: 'Amount is zero' },
+  '0x3b99b53d': { signature: 'SliceOutOfBounds()', source: LIFI_DIAMOND, description: 'Calldata slice is out of bounds' },
+  '0x7939f424': { signature: 'TransferFromFailed()', source: LIFI_DIAMOND, description: 'transferFrom on the sending token failed' },
+
+  // Bridge facets
+  '0x1aba923d': { signature: 'InvalidStargateRouter()', source: 'Stargate facet', description: 'Stargate router is not configured' },
+  '0xf722177f': { signature: 'InvalidQuoteTimestamp()', source: 'Across facet', description: 'Across quote has expired' },
+  '0x10502ef9': { signature: 'InvalidBridgeConfigLength()', source: 'Bridge facet', description: 'Bridge configuration arrays differ in length' },
+  '0x588ea6ef': { signature: 'InsufficientMessageValue()', source: 'Bridge facet', description: 'Not enough native value sent for messaging fees' },
+
+  // OpenZeppelin v5 ERC-20 errors
+  '0xe450d38c': {
+    signature: 'ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)',
+    source: ERC20,
+    description: 'Sender does not hold enough tokens'
+  },
+  '0xfb8f41b2': {
+    signature: 'ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)',
+    source: ERC20,
+    description: 'Spender allowance is too low'
+  }
+}
@@ -9,6 +9,7 @@ import {
   StatusResponse,
   TransactionInfo,
   TokenInfo,
+  RequestOptions,
 } from "@/types/lifi";
 import { lifiClient } from "./lifi-client";
 
@@ -357,7 +358,8 @@ export function calculateRiskLevel(
  * Fetch alternative routes for comparison
  */
 export async function fetchAlternativeRoutes(
-  transactionData: StatusResponse
+  transactionData: StatusResponse,
+  options?: RequestOptions
 ): Promise<RouteComparison | null> {
   const baseParams = extractRouteParameters(transactionData);
   if (!baseParams || !baseParams.fromChainId || !baseParams.toChainId) {
@@ -368,7 +370,7 @@ export async function fetchAlternativeRoutes(
     const alternatives = generateAlternativeConfigs(baseParams as RoutesRequest);
     const routePromises = alternatives.map(async (config) => {
       try {
-        const response = await lifiClient.getRoutes(config);
+        const response = await lifiClient.getRoutes(config, options);
         return response.routes;
       } catch (error) {
         console.error('Failed to fetch routes for config:', config, error);
@@ -377,6 +379,8 @@ export async function fetchAlternativeRoutes(
     });
 
     const allRoutesArrays = await Promise.all(routePromises);
+    if (options?.signal?.aborted) return null;
+
     const allRoutes = allRoutesArrays.flat();
 
     if (allRoutes.length === 0) {
@@ -0,0 +1,107 @@
+import axios from 'axios'
+
+/**
+ * Server-side JSON-RPC access for EVM chains, shared by the network health probes
+ * and the receipt inspector.
+ */
+
+// Public endpoints for the EVM chains in the fallback registry; override with RPC_ENDPOINTS
+const DEFAULT_RPC_ENDPOINTS: Record<number, string> = {
+  1: 'https://ethereum-rpc.publicnode.com',
+  42161: 'https://arb1.arbitrum.io/rpc',
+  137: 'https://polygon-rpc.com',
+  10: 'https://mainnet.optimism.io',
+  8453: 'https://mainnet.base.org',
+  56: 'https://bsc-dataseed.bnbchain.org',
+  43114: 'https://api.avax.network/ext/bc/C/rpc',
+  250: 'https://rpc.ftm.tools',
+  100: 'https://rpc.gnosischain.com',
+  324: 'https://mainnet.era.zksync.io',
+  167000: 'https://rpc.mainnet.taiko.xyz',
+  59144: 'https://rpc.linea.build'
+}
+
+const RPC_TIMEOUT = 5000 // 5 seconds
+
+/**
+ * JSON-RPC error response. For reverted calls, data holds the raw revert payload.
+ */
+export class RpcError extends Error {
+  constructor(message: string, readonly code?: number, readonly data?: string) {
+    super(message)
+    this.name = 'RpcError'
+  }
+}
+
+/**
+ * Parse "chainId=url,chainId=url" into an endpoint map, skipping malformed entries
+ */
+export function parseRpcEndpoints(configured: string): Record<number, string> {
+  const endpoints: Record<number, string> = {}
+  configured.split(',').forEach(entry => {
+    const separator = entry.indexOf('=')
+    if (separator === -1) return
+
+    const chainId = parseInt(entry.slice(0, separator).trim(), 10)
+    const url = entry.slice(separator + 1).trim()
+    if (Number.isInteger(chainId) && chainId > 0 && url) {
+      endpoints[chainId] = url
+    }
+  })
+
+  return endpoints
+}
+
+/**
+ * JSON-RPC endpoint for a chain, from RPC_ENDPOINTS or the built-in defaults
+ */
+export function getRpcUrl(chainId: number): string | undefined {
+  const configured = process.env.RPC_ENDPOINTS
+  const overrides = configured ? parseRpcEndpoints(configured) : {}
+  return overrides[chainId] ?? DEFAULT_RPC_ENDPOINTS[chainId]
+}
+
+/**
+ * Send a JSON-RPC request. A null result is treated as an error unless allowNull
+ * is set (e.g. for a receipt that does not exist yet).
+ */
+export async function rpcCall<T>(
+  url: string,
+  method: string,
+  params: unknown[] = [],
+  options: { allowNull?: boolean } = {}
+): Promise<T> {
+  const response = await axios.post(
+    url,
+    { jsonrpc: '2.0', id: 1, method, params },
+    { timeout: RPC_TIMEOUT, headers: { 'Content-Type': 'application/json' } }
+  )
+
+  const error = response.data?.error
+  if (error) {
+    throw new RpcError(
+      error.message || `RPC error in ${method}`,
+      error.code,
+      typeof error.data === 'string' ? error.data : error.data?.data
+    )
+  }
+  if (response.data?.result === undefined || (response.data.result === null && !options.allowNull)) {
+    throw new Error(`Empty RPC result for ${method}`)
+  }
+
+  return response.data.result
+}
+
+/**
+ * Decode a hex quantity ("0x1a") as a number
+ */
+export function hexToNumber(value: string): number {
+  return parseInt(value, 16)
+}
+
+/**
+ * Decode a hex quantity as a decimal string, for values beyond Number precision
+ */
+export function hexToDecimalString(value: string): string {
+  return BigInt(value).toString()
+}
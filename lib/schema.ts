@@ -0,0 +1,248 @@
+/**
+ * Minimal runtime schema validators.
+ *
+ * Validators walk a value and record path-level issues (e.g.
+ * `routes[0].steps[1].estimate.feeCosts[0].token.decimals`) instead of stopping at
+ * the first problem. Missing or mistyped fields are always errors. Unknown fields and
+ * values outside a lenient enum are errors in strict mode and logged warnings in
+ * tolerant mode, so an additive upstream change does not take the UI down.
+ */
+
+export type SchemaMode = 'strict' | 'tolerant'
+
+export interface SchemaIssue {
+  path: string
+  message: string
+}
+
+interface ValidationContext {
+  mode: SchemaMode
+  errors: SchemaIssue[]
+  warnings: SchemaIssue[]
+}
+
+export type Validator<T> = (value: unknown, path: string, ctx: ValidationContext) => T
+
+export class SchemaValidationError extends Error {
+  // Mirrors ApiError so callers can handle it like any other request failure
+  readonly code = 'SCHEMA_VALIDATION_ERROR'
+  readonly isRetryable = false
+  readonly isNetworkError = false
+
+  constructor(readonly schemaName: string, readonly issues: SchemaIssue[]) {
+    const summary = issues
+      .slice(0, 3)
+      .map(issue => `${issue.path}: ${issue.message}`)
+      .join('; ')
+    const more = issues.length > 3 ? ` (+${issues.length - 3} more)` : ''
+
+    super(`Invalid ${schemaName}: ${summary}${more}`)
+    this.name = 'SchemaValidationError'
+  }
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  return typeof value
+}
+
+function joinPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`
+  return path ? `${path}.${key}` : key
+}
+
+function displayPath(path: string): string {
+  return path || '(root)'
+}
+
+function typeIssue(ctx: ValidationContext, path: string, expected: string, value: unknown) {
+  ctx.errors.push({
+    path: displayPath(path),
+    message: `expected ${expected}, received ${describe(value)}`
+  })
+}
+
+/**
+ * Record an issue that tolerant mode only warns about
+ */
+function lenientIssue(ctx: ValidationContext, path: string, message: string) {
+  const issue = { path: displayPath(path), message }
+  if (ctx.mode === 'strict') {
+    ctx.errors.push(issue)
+  } else {
+    ctx.warnings.push(issue)
+  }
+}
+
+export function string(): Validator<string> {
+  return (value, path, ctx) => {
+    if (typeof value !== 'string') typeIssue(ctx, path, 'string', value)
+    return value as string
+  }
+}
+
+export function number(): Validator<number> {
+  return (value, path, ctx) => {
+    if (typeof value !== 'number' || isNaN(value)) typeIssue(ctx, path, 'number', value)
+    return value as number
+  }
+}
+
+export function boolean(): Validator<boolean> {
+  return (value, path, ctx) => {
+    if (typeof value !== 'boolean') typeIssue(ctx, path, 'boolean', value)
+    return value as boolean
+  }
+}
+
+/**
+ * Any value, for free-form fields such as metadata
+ */
+export function unknown<T = any>(): Validator<T> {
+  return value => value as T
+}
+
+/**
+ * Absent or null values pass; anything else must match the inner validator
+ */
+export function optional<T>(validator: Validator<T>): Validator<T | undefined> {
+  return (value, path, ctx) => {
+    if (value === undefined || value === null) return value as undefined
+    return validator(value, path, ctx)
+  }
+}
+
+export function nullable<T>(validator: Validator<T>): Validator<T | null> {
+  return (value, path, ctx) => {
+    if (value === null) return null
+    return validator(value, path, ctx)
+  }
+}
+
+export function array<T>(item: Validator<T>): Validator<T[]> {
+  return (value, path, ctx) => {
+    if (!Array.isArray(value)) {
+      typeIssue(ctx, path, 'array', value)
+      return value as T[]
+    }
+
+    value.forEach((entry, index) => item(entry, joinPath(path, index), ctx))
+    return value as T[]
+  }
+}
+
+/**
+ * One of a fixed set of string values. Lenient enums accept unknown values in
+ * tolerant mode, for lists upstream is known to extend (e.g. substatuses).
+ */
+export function oneOf<T extends string>(
+  values: readonly T[],
+  options: { lenient?: boolean } = {}
+): Validator<T> {
+  return (value, path, ctx) => {
+    if (typeof value !== 'string') {
+      typeIssue(ctx, path, values.join(' | '), value)
+    } else if (!values.includes(value as T)) {
+      const message = `unknown value "${value}", expected one of ${values.join(', ')}`
+      if (options.lenient) {
+        lenientIssue(ctx, path, message)
+      } else {
+        ctx.errors.push({ path: displayPath(path), message })
+      }
+    }
+    return value as T
+  }
+}
+
+/**
+ * Object with a known shape. Unknown fields are reported unless allowUnknown is set.
+ */
+export function object<T>(
+  shape: { [K in keyof T]-?: Validator<T[K]> },
+  options: { allowUnknown?: boolean } = {}
+): Validator<T> {
+  return (value, path, ctx) => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      typeIssue(ctx, path, 'object', value)
+      return value as T
+    }
+
+    const input = value as Record<string, unknown>
+    const keys = Object.keys(shape) as (keyof T & string)[]
+
+    keys.forEach(key => {
+      const fieldPath = joinPath(path, key)
+      const validate = shape[key] as Validator<unknown>
+
+      if (!(key in input)) {
+        // Optional validators accept undefined; required ones report it
+        const before = ctx.errors.length
+        validate(undefined, fieldPath, ctx)
+        if (ctx.errors.length > before) {
+          ctx.errors.splice(before, ctx.errors.length - before, {
+            path: fieldPath,
+            message: 'required field is missing'
+          })
+        }
+        return
+      }
+
+      validate(input[key], fieldPath, ctx)
+    })
+
+    if (!options.allowUnknown) {
+      Object.keys(input)
+        .filter(key => !(key in shape))
+        .forEach(key => lenientIssue(ctx, joinPath(path, key), 'unknown field'))
+    }
+
+    return value as T
+  }
+}
+
+/**
+ * Defer building a validator, for recursive shapes
+ */
+export function lazy<T>(factory: () => Validator<T>): Validator<T> {
+  let validator: Validator<T> | null = null
+  return (value, path, ctx) => {
+    if (!validator) validator = factory()
+    return validator(value, path, ctx)
+  }
+}
+
+// Warnings already logged, so a repeated upstream quirk is reported once per page
+const reportedWarnings = new Set<string>()
+
+/**
+ * Validate a value, throwing SchemaValidationError with every path-level error.
+ * In tolerant mode, warnings are logged and the value is returned unchanged.
+ */
+export function validate<T>(
+  schemaName: string,
+  validator: Validator<T>,
+  value: unknown,
+  mode: SchemaMode = 'tolerant'
+): T {
+  const ctx: ValidationContext = { mode, errors: [], warnings: [] }
+  const result = validator(value, '', ctx)
+
+  if (ctx.errors.length > 0) {
+    throw new SchemaValidationError(schemaName, ctx.errors)
+  }
+
+  // Array indices vary between responses, so compare warnings without them
+  const newWarnings = ctx.warnings.filter(issue => {
+    const key = `${schemaName}:${issue.path.replace(/\[\d+\]/g, '[]')}:${issue.message}`
+    if (reportedWarnings.has(key)) return false
+    reportedWarnings.add(key)
+    return true
+  })
+
+  if (newWarnings.length > 0) {
+    console.warn(`${schemaName} contains data this version does not recognize:`, newWarnings)
+  }
+
+  return result
+}
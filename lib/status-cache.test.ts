@@ -0,0 +1,103 @@
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { TransactionStatus } from '@/types/lifi'
+import { fetchUpstreamStatus } from './lifi-proxy'
+import { FileStatusStore, StatusCacheEntry, StatusRateLimitedError, fetchStatusWithCache } from './status-cache'
+
+vi.mock('./lifi-proxy', async importOriginal => ({
+  ...await importOriginal<typeof import('./lifi-proxy')>(),
+  fetchUpstreamStatus: vi.fn()
+}))
+
+let directory: string
+
+function entry(txHash: string): StatusCacheEntry {
+  return {
+    data: { status: TransactionStatus.DONE, sending: { txHash } },
+    cachedAt: 0,
+    expiresAt: null
+  }
+}
+
+async function listEntries(): Promise<string[]> {
+  return (await fs.readdir(directory)).filter(name => name.endsWith('.json'))
+}
+
+beforeEach(async () => {
+  directory = await fs.mkdtemp(path.join(os.tmpdir(), 'status-cache-'))
+})
+
+afterEach(async () => {
+  await fs.rm(directory, { recursive: true, force: true })
+})
+
+describe('FileStatusStore', () => {
+  it('sweeps the least recently read entries beyond maxEntries', async () => {
+    const store = new FileStatusStore(directory, 3)
+    const keys = ['a', 'b', 'c', 'd', 'e']
+    for (const key of keys) await store.set(key, entry(key))
+
+    // Age every entry, then read some of them again
+    const longAgo = new Date(Date.UTC(2024, 0, 1))
+    await Promise.all((await listEntries()).map(name => fs.utimes(path.join(directory, name), longAgo, longAgo)))
+    for (const key of ['a', 'c', 'e']) await store.get(key)
+
+    await store.sweep()
+
+    expect(await listEntries()).toHaveLength(3)
+    for (const key of ['a', 'c', 'e']) expect(await store.get(key)).toEqual(entry(key))
+    for (const key of ['b', 'd']) expect(await store.get(key)).toBeUndefined()
+  })
+
+  it('sweeps on its own as entries are written', async () => {
+    const store = new FileStatusStore(directory, 50)
+    for (let i = 0; i < 99; i++) await store.set(`key-${i}`, entry(`0x${i}`))
+    expect(await listEntries()).toHaveLength(99)
+
+    await store.set('key-99', entry('0x99'))
+    expect(await listEntries()).toHaveLength(50)
+  })
+
+  it('keeps concurrent writes of one key apart', async () => {
+    const store = new FileStatusStore(directory, 50)
+
+    await Promise.all(Array.from({ length: 20 }, () => store.set('a', entry('a'))))
+
+    expect(await fs.readdir(directory)).toHaveLength(1)
+    expect(await store.get('a')).toEqual(entry('a'))
+  })
+
+  it('leaves a directory within the limit untouched', async () => {
+    const store = new FileStatusStore(directory, 5)
+    for (const key of ['a', 'b']) await store.set(key, entry(key))
+
+    await store.sweep()
+    expect(await listEntries()).toHaveLength(2)
+  })
+})
+
+describe('fetchStatusWithCache', () => {
+  it('only charges the client rate limit for lookups that reach LI.FI', async () => {
+    const clientId = '203.0.113.20'
+    vi.mocked(fetchUpstreamStatus).mockImplementation(async request => ({
+      status: TransactionStatus.DONE,
+      sending: { txHash: request.txHash, chainId: 1 }
+    }))
+
+    const txHash = `0x${'ab'.repeat(32)}`
+    expect((await fetchStatusWithCache({ txHash }, { clientId })).cache).toBe('MISS')
+    for (let i = 0; i < 150; i++) {
+      expect((await fetchStatusWithCache({ txHash }, { clientId })).cache).toBe('HIT')
+    }
+
+    // 99 requests left of the 100 per minute
+    for (let i = 1; i < 100; i++) {
+      await fetchStatusWithCache({ txHash: `0x${i.toString(16).padStart(64, '0')}` }, { clientId })
+    }
+    await expect(fetchStatusWithCache({ txHash: `0x${'cd'.repeat(32)}` }, { clientId }))
+      .rejects.toBeInstanceOf(StatusRateLimitedError)
+    expect(fetchUpstreamStatus).toHaveBeenCalledTimes(100)
+  })
+})
@@ -0,0 +1,314 @@
+import { createHash, randomUUID } from 'crypto'
+import { promises as fs } from 'fs'
+import path from 'path'
+import {
+  StatusRequest,
+  StatusResponse,
+  TransactionStatus,
+  TransactionSubstatus
+} from '@/types/lifi'
+import { classifyTxHash } from './hash-classifier'
+import { durationBaselines } from './duration-baselines'
+import { checkRateLimit, fetchUpstreamStatus } from './lifi-proxy'
+
+/**
+ * Server-side status cache behind the status routes.
+ *
+ * DONE and FAILED transfers never change, so they are pinned with no expiry.
+ * Everything else gets a short TTL chosen by status and substatus. The backing
+ * store is pluggable: in-memory LRU by default, or a JSON file store for
+ * self-hosted deployments that should keep settled transfers across restarts.
+ */
+
+export interface StatusCacheEntry {
+  data: StatusResponse
+  cachedAt: number
+  // null for pinned (terminal) statuses
+  expiresAt: number | null
+}
+
+export interface StatusCacheStore {
+  get(key: string): Promise<StatusCacheEntry | undefined>
+  set(key: string, entry: StatusCacheEntry): Promise<void>
+  delete(key: string): Promise<void>
+}
+
+export type CacheResult = 'HIT' | 'MISS'
+
+/**
+ * Thrown by fetchStatusWithCache when a cache miss would exceed the client's rate limit
+ */
+export class StatusRateLimitedError extends Error {
+  constructor() {
+    super('Rate limit exceeded. Please try again later')
+    this.name = 'StatusRateLimitedError'
+  }
+}
+
+const DEFAULT_MAX_ENTRIES = 5000
+const DEFAULT_CACHE_DIR = '.cache/status'
+// File store writes between sweeps; a sweep lists and stats every entry
+const FILE_SWEEP_INTERVAL = 100
+
+// TTLs for statuses that can still change
+const PENDING_SUBSTATUS_TTL: Partial<Record<TransactionSubstatus, number>> = {
+  [TransactionSubstatus.WAIT_SOURCE_CONFIRMATIONS]: 10 * 1000,
+  [TransactionSubstatus.WAIT_DESTINATION_TRANSACTION]: 15 * 1000,
+  [TransactionSubstatus.REFUND_IN_PROGRESS]: 30 * 1000,
+  // Upstream outages are not resolved within seconds
+  [TransactionSubstatus.BRIDGE_NOT_AVAILABLE]: 60 * 1000,
+  [TransactionSubstatus.CHAIN_NOT_AVAILABLE]: 60 * 1000
+}
+const DEFAULT_PENDING_TTL = 10 * 1000
+const NOT_FOUND_TTL = 5 * 1000
+const INVALID_TTL = 60 * 1000
+
+/**
+ * In-memory LRU store. Map iteration order doubles as recency order.
+ */
+export class MemoryStatusStore implements StatusCacheStore {
+  private entries = new Map<string, StatusCacheEntry>()
+
+  constructor(private maxEntries = DEFAULT_MAX_ENTRIES) {}
+
+  async get(key: string): Promise<StatusCacheEntry | undefined> {
+    const entry = this.entries.get(key)
+    if (!entry) return undefined
+
+    // Move to the most recently used position
+    this.entries.delete(key)
+    this.entries.set(key, entry)
+    return entry
+  }
+
+  async set(key: string, entry: StatusCacheEntry): Promise<void> {
+    this.entries.delete(key)
+    this.entries.set(key, entry)
+
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value
+      if (oldestKey === undefined) break
+      this.entries.delete(oldestKey)
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key)
+  }
+}
+
+/**
+ * File store writing one JSON file per lookup, for self-hosted deployments.
+ * Reads refresh a file's modification time, and every FILE_SWEEP_INTERVAL
+ * writes the least recently used files beyond maxEntries are removed.
+ */
+export class FileStatusStore implements StatusCacheStore {
+  private writesSinceSweep = 0
+  private pendingSweep: Promise<void> | null = null
+
+  constructor(private directory = DEFAULT_CACHE_DIR, private maxEntries = DEFAULT_MAX_ENTRIES) {}
+
+  private filePath(key: string): string {
+    const name = createHash('sha256').update(key).digest('hex')
+    return path.join(this.directory, `${name}.json`)
+  }
+
+  async get(key: string): Promise<StatusCacheEntry | undefined> {
+    const filePath = this.filePath(key)
+
+    try {
+      const contents = await fs.readFile(filePath, 'utf8')
+      // Mark as recently used for the sweep
+      const now = new Date()
+      await fs.utimes(filePath, now, now).catch(() => {})
+      return JSON.parse(contents) as StatusCacheEntry
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        console.warn('Failed to read status cache entry:', error.message)
+      }
+      return undefined
+    }
+  }
+
+  async set(key: string, entry: StatusCacheEntry): Promise<void> {
+    const filePath = this.filePath(key)
+    // Unique per write, as the stream poller and the status routes can write one key at once
+    const tempPath = `${filePath}.${randomUUID()}.tmp`
+
+    await fs.mkdir(this.directory, { recursive: true })
+    // Write then rename so readers never see a partial file
+    await fs.writeFile(tempPath, JSON.stringify(entry), 'utf8')
+    await fs.rename(tempPath, filePath)
+
+    if (++this.writesSinceSweep >= FILE_SWEEP_INTERVAL) {
+      this.writesSinceSweep = 0
+      await this.sweep()
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.filePath(key), { force: true })
+  }
+
+  /**
+   * Remove the least recently used entries beyond maxEntries
+   */
+  sweep(): Promise<void> {
+    if (!this.pendingSweep) {
+      this.pendingSweep = this.removeLeastRecentlyUsed()
+        .catch(error => {
+          console.warn('Status cache sweep failed:', error.message)
+        })
+        .finally(() => {
+          this.pendingSweep = null
+        })
+    }
+    return this.pendingSweep
+  }
+
+  private async removeLeastRecentlyUsed(): Promise<void> {
+    const names = (await fs.readdir(this.directory)).filter(name => name.endsWith('.json'))
+    if (names.length <= this.maxEntries) return
+
+    const files = await Promise.all(names.map(async name => {
+      const filePath = path.join(this.directory, name)
+      try {
+        return { filePath, usedAt: (await fs.stat(filePath)).mtimeMs }
+      } catch {
+        // Removed since the listing
+        return null
+      }
+    }))
+
+    const existing = files
+      .filter((file): file is { filePath: string; usedAt: number } => file !== null)
+      .sort((a, b) => a.usedAt - b.usedAt)
+
+    await Promise.all(
+      existing
+        .slice(0, existing.length - this.maxEntries)
+        .map(file => fs.rm(file.filePath, { force: true }))
+    )
+  }
+}
+
+function createStore(): StatusCacheStore {
+  const storeType = process.env.LIFI_STATUS_CACHE_STORE || 'memory'
+  const configuredMaxEntries = parseInt(process.env.LIFI_STATUS_CACHE_MAX_ENTRIES || '', 10)
+  const maxEntries = configuredMaxEntries > 0 ? configuredMaxEntries : DEFAULT_MAX_ENTRIES
+
+  if (storeType === 'file') {
+    return new FileStatusStore(process.env.LIFI_STATUS_CACHE_DIR || DEFAULT_CACHE_DIR, maxEntries)
+  }
+
+  return new MemoryStatusStore(maxEntries)
+}
+
+let store: StatusCacheStore | null = null
+
+function getStore(): StatusCacheStore {
+  if (!store) {
+    store = createStore()
+  }
+  return store
+}
+
+/**
+ * Replace the backing store (e.g. with a shared store in a custom server)
+ */
+export function setStatusCacheStore(customStore: StatusCacheStore) {
+  store = customStore
+}
+
+function createStatusCacheKey(request: StatusRequest): string {
+  const txHash = classifyTxHash(request.txHash)?.normalized ?? request.txHash.trim()
+  return JSON.stringify([txHash, request.fromChain, request.toChain, request.bridge])
+}
+
+export function isTerminalStatus(status: StatusResponse): boolean {
+  return status.status === TransactionStatus.DONE || status.status === TransactionStatus.FAILED
+}
+
+/**
+ * How long a status may be served from cache, or null to keep it indefinitely
+ */
+export function getStatusTTL(status: StatusResponse): number | null {
+  if (isTerminalStatus(status)) return null
+
+  switch (status.status) {
+    case TransactionStatus.PENDING:
+      return (status.substatus && PENDING_SUBSTATUS_TTL[status.substatus]) || DEFAULT_PENDING_TTL
+    case TransactionStatus.NOT_FOUND:
+      return NOT_FOUND_TTL
+    case TransactionStatus.INVALID:
+      return INVALID_TTL
+    default:
+      return DEFAULT_PENDING_TTL
+  }
+}
+
+/**
+ * Cached status for a lookup, if present and still fresh
+ */
+export async function getCachedStatus(request: StatusRequest): Promise<StatusResponse | undefined> {
+  const key = createStatusCacheKey(request)
+
+  try {
+    const entry = await getStore().get(key)
+    if (!entry) return undefined
+
+    if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+      await getStore().delete(key)
+      return undefined
+    }
+
+    return entry.data
+  } catch (error: any) {
+    // A broken cache must never break status lookups
+    console.warn('Status cache read failed:', error.message)
+    return undefined
+  }
+}
+
+/**
+ * Store a fresh upstream status with the TTL its state allows. Completed
+ * transfers also feed the duration baselines.
+ */
+export async function cacheStatus(request: StatusRequest, data: StatusResponse): Promise<void> {
+  const ttl = getStatusTTL(data)
+  const now = Date.now()
+
+  durationBaselines.record(data)
+
+  try {
+    await getStore().set(createStatusCacheKey(request), {
+      data,
+      cachedAt: now,
+      expiresAt: ttl === null ? null : now + ttl
+    })
+  } catch (error: any) {
+    console.warn('Status cache write failed:', error.message)
+  }
+}
+
+/**
+ * Serve a status from cache, falling back to LI.FI and caching the result.
+ * With a clientId, only lookups that reach LI.FI count against its rate limit.
+ */
+export async function fetchStatusWithCache(
+  request: StatusRequest,
+  options: { clientId?: string } = {}
+): Promise<{ data: StatusResponse; cache: CacheResult }> {
+  const cached = await getCachedStatus(request)
+  if (cached) {
+    return { data: cached, cache: 'HIT' }
+  }
+
+  if (options.clientId !== undefined && !checkRateLimit(options.clientId)) {
+    throw new StatusRateLimitedError()
+  }
+
+  const data = await fetchUpstreamStatus(request)
+  await cacheStatus(request, data)
+  return { data, cache: 'MISS' }
+}
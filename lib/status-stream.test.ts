@@ -0,0 +1,62 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { StatusResponse, TransactionStatus } from '@/types/lifi'
+import { fetchUpstreamStatus } from './lifi-proxy'
+import { getActivePollerCount, StatusStreamEvent, subscribeToStatus } from './status-stream'
+
+vi.mock('./lifi-proxy', async importOriginal => ({
+  ...await importOriginal<typeof import('./lifi-proxy')>(),
+  fetchUpstreamStatus: vi.fn()
+}))
+
+const TX_HASH = '0x9f3a7c2e1b5d8f4a6c0e2b4d6f8a0c2e4b6d8f0a2c4e6b8d0f2a4c6e8b0d2f4a'
+
+function status(value: TransactionStatus): StatusResponse {
+  return { status: value, sending: { txHash: TX_HASH, chainId: 1 } }
+}
+
+// Upstream lookups that stay in flight until the test settles them
+function deferLookups() {
+  const pending: Array<(data: StatusResponse) => void> = []
+  vi.mocked(fetchUpstreamStatus).mockImplementation(() => new Promise(resolve => pending.push(resolve)))
+  return pending
+}
+
+beforeEach(() => {
+  vi.useFakeTimers()
+  vi.mocked(fetchUpstreamStatus).mockReset()
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('subscribeToStatus', () => {
+  it('drops a poller abandoned mid-request once a new one owns the key', async () => {
+    const lookups = deferLookups()
+
+    const unsubscribeFirst = subscribeToStatus({ txHash: TX_HASH }, () => {})
+    unsubscribeFirst()
+
+    const events: StatusStreamEvent[] = []
+    const unsubscribe = subscribeToStatus({ txHash: TX_HASH }, event => events.push(event))
+    expect(lookups).toHaveLength(2)
+
+    // The abandoned poller's lookup settles first and must not touch the live one
+    lookups[0](status(TransactionStatus.DONE))
+    await vi.advanceTimersByTimeAsync(0)
+    expect(events).toEqual([])
+    expect(getActivePollerCount()).toBe(1)
+
+    lookups[1](status(TransactionStatus.PENDING))
+    await vi.advanceTimersByTimeAsync(5000)
+    expect(events).toEqual([{ type: 'status', data: status(TransactionStatus.PENDING) }])
+    expect(lookups).toHaveLength(3)
+
+    lookups[2](status(TransactionStatus.DONE))
+    await vi.advanceTimersByTimeAsync(0)
+    expect(events.at(-1)).toEqual({ type: 'end', data: status(TransactionStatus.DONE) })
+    expect(getActivePollerCount()).toBe(0)
+
+    unsubscribe()
+  })
+})
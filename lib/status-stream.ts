@@ -0,0 +1,154 @@
+import { StatusRequest, StatusResponse, ApiError } from '@/types/lifi'
+import { fetchUpstreamStatus, toApiError } from './lifi-proxy'
+import { cacheStatus, isTerminalStatus } from './status-cache'
+
+/**
+ * Shared upstream pollers behind GET /api/lifi/status/stream.
+ *
+ * Every subscriber for the same lookup shares one poller, which calls LI.FI once per
+ * interval and only notifies subscribers when status or substatus changes.
+ */
+
+export type StatusStreamEvent =
+  | { type: 'status'; data: StatusResponse }
+  | { type: 'upstream_error'; error: ApiError }
+  | { type: 'end'; data?: StatusResponse }
+
+type Listener = (event: StatusStreamEvent) => void
+
+const POLL_INTERVAL = 5000 // 5 seconds
+const MAX_ERROR_BACKOFF = 60000 // 1 minute
+const MAX_POLL_DURATION = 2 * 60 * 60 * 1000 // Give up on transfers still pending after 2 hours
+
+interface Poller {
+  request: StatusRequest
+  listeners: Set<Listener>
+  last?: StatusResponse
+  timer: ReturnType<typeof setTimeout> | null
+  consecutiveErrors: number
+  startedAt: number
+}
+
+const pollers = new Map<string, Poller>()
+
+function createPollerKey(request: StatusRequest): string {
+  return JSON.stringify([request.txHash, request.fromChain, request.toChain, request.bridge])
+}
+
+function hasTransitioned(previous: StatusResponse | undefined, next: StatusResponse): boolean {
+  return !previous ||
+    previous.status !== next.status ||
+    previous.substatus !== next.substatus
+}
+
+function broadcast(poller: Poller, event: StatusStreamEvent) {
+  poller.listeners.forEach(listener => listener(event))
+}
+
+function stopPoller(key: string, poller: Poller) {
+  if (poller.timer) clearTimeout(poller.timer)
+  // A newer poller may own the key once this one was abandoned
+  if (pollers.get(key) === poller) pollers.delete(key)
+}
+
+function scheduleNextPoll(key: string, poller: Poller, delay: number) {
+  poller.timer = setTimeout(() => poll(key, poller), delay)
+}
+
+async function poll(key: string, poller: Poller) {
+  poller.timer = null
+
+  if (Date.now() - poller.startedAt > MAX_POLL_DURATION) {
+    broadcast(poller, { type: 'end', data: poller.last })
+    stopPoller(key, poller)
+    return
+  }
+
+  try {
+    const data = await fetchUpstreamStatus(poller.request)
+    poller.consecutiveErrors = 0
+
+    // Keep the status route's cache as fresh as the stream
+    await cacheStatus(poller.request, data)
+
+    // Everyone may have disconnected while the request was in flight, and a new
+    // subscriber may have started another poller for the same key since
+    if (pollers.get(key) !== poller) return
+
+    if (hasTransitioned(poller.last, data)) {
+      poller.last = data
+      broadcast(poller, { type: 'status', data })
+    } else {
+      poller.last = data
+    }
+
+    if (isTerminalStatus(data)) {
+      broadcast(poller, { type: 'end', data })
+      stopPoller(key, poller)
+      return
+    }
+
+    scheduleNextPoll(key, poller, POLL_INTERVAL)
+  } catch (error: any) {
+    if (pollers.get(key) !== poller) return
+
+    const apiError = toApiError(error, poller.request.txHash)
+    broadcast(poller, { type: 'upstream_error', error: apiError })
+
+    if (!apiError.isRetryable) {
+      broadcast(poller, { type: 'end', data: poller.last })
+      stopPoller(key, poller)
+      return
+    }
+
+    // Back off exponentially while upstream is failing
+    poller.consecutiveErrors++
+    const backoff = apiError.retryAfter
+      ? apiError.retryAfter * 1000
+      : POLL_INTERVAL * Math.pow(2, poller.consecutiveErrors)
+    scheduleNextPoll(key, poller, Math.min(backoff, MAX_ERROR_BACKOFF))
+  }
+}
+
+/**
+ * Subscribe to status transitions for a lookup. Returns an unsubscribe function;
+ * the shared poller stops once its last subscriber leaves or the transfer settles.
+ */
+export function subscribeToStatus(request: StatusRequest, listener: Listener): () => void {
+  const key = createPollerKey(request)
+  let poller = pollers.get(key)
+
+  if (poller) {
+    poller.listeners.add(listener)
+
+    // Late subscribers get the current state straight away
+    if (poller.last) {
+      listener({ type: 'status', data: poller.last })
+    }
+  } else {
+    poller = {
+      request,
+      listeners: new Set([listener]),
+      timer: null,
+      consecutiveErrors: 0,
+      startedAt: Date.now()
+    }
+    pollers.set(key, poller)
+    poll(key, poller)
+  }
+
+  const subscribed = poller
+  return () => {
+    subscribed.listeners.delete(listener)
+    if (subscribed.listeners.size === 0) {
+      stopPoller(key, subscribed)
+    }
+  }
+}
+
+/**
+ * Number of active upstream pollers (for monitoring)
+ */
+export function getActivePollerCount(): number {
+  return pollers.size
+}
@@ -0,0 +1,65 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { TokenInfo } from '@/types/lifi'
+import { TokenService } from './token-service'
+
+const USDC: TokenInfo = {
+  address: '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48',
+  chainId: 1,
+  symbol: 'USDC',
+  decimals: 6,
+  name: 'USD Coin',
+  priceUSD: '1'
+}
+
+const UNLISTED: TokenInfo = {
+  address: '0x1111111111111111111111111111111111111111',
+  chainId: 1,
+  symbol: 'NEW',
+  decimals: 18,
+  name: 'Unlisted Token'
+}
+
+const fetchMock = vi.fn()
+
+function jsonResponse(body: unknown): Response {
+  return new Response(JSON.stringify(body), { status: 200, headers: { 'Content-Type': 'application/json' } })
+}
+
+beforeEach(() => {
+  fetchMock.mockReset()
+  fetchMock.mockImplementation(async (url: string) =>
+    url.startsWith('/api/lifi/tokens') ? jsonResponse({ tokens: { 1: [USDC] } }) : jsonResponse(UNLISTED)
+  )
+  // Lookups only run in the browser
+  vi.stubGlobal('window', {})
+  vi.stubGlobal('fetch', fetchMock)
+})
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('TokenService.enrichToken', () => {
+  it('resolves tokens from the chain list loaded once', async () => {
+    const service = new TokenService()
+
+    const [first, second] = await Promise.all([
+      service.enrichToken({ chainId: 1, address: USDC.address }),
+      service.enrichToken({ chainId: 1, address: USDC.address.toUpperCase().replace('0X', '0x') })
+    ])
+
+    expect(first).toMatchObject({ symbol: 'USDC', decimals: 6 })
+    expect(second).toMatchObject({ symbol: 'USDC', decimals: 6 })
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual(['/api/lifi/tokens?chains=1'])
+  })
+
+  it('falls back to a single token lookup for tokens the list does not carry', async () => {
+    const service = new TokenService()
+
+    expect(await service.enrichToken({ chainId: 1, address: UNLISTED.address })).toMatchObject({ symbol: 'NEW' })
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+      '/api/lifi/tokens?chains=1',
+      `/api/lifi/token?chain=1&token=${UNLISTED.address}`
+    ])
+  })
+})
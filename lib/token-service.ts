@@ -0,0 +1,204 @@
+import { TokenInfo } from '@/types/lifi'
+
+/**
+ * Token metadata and prices backed by /api/lifi/tokens and /api/lifi/token.
+ *
+ * Status payloads sometimes omit decimals, symbol, logo or price for a token. The
+ * service fills those in from cached per-chain token lists, falling back to a single
+ * token lookup, and owns the one amount formatter every component should use.
+ */
+
+export type TokenReference = Partial<TokenInfo> & Pick<TokenInfo, 'address' | 'chainId'>
+
+function pow10(exponent: number): bigint {
+  return BigInt(`1${'0'.repeat(exponent)}`)
+}
+
+function createTokenKey(chainId: number, address: string): string {
+  // EVM addresses are case-insensitive; base58 addresses are not
+  return `${chainId}:${address.startsWith('0x') ? address.toLowerCase() : address}`
+}
+
+/**
+ * Check whether a token has everything needed to format its amounts
+ */
+export function isCompleteToken(token?: Partial<TokenInfo>): token is TokenInfo {
+  return !!token &&
+    typeof token.decimals === 'number' &&
+    !!token.symbol &&
+    !!token.address &&
+    typeof token.chainId === 'number'
+}
+
+export interface FormatTokenAmountOptions {
+  maxDecimalPlaces?: number
+  /** Exact decimal amount without grouping, truncation or dust marker, e.g. for CSV cells */
+  unformatted?: boolean
+}
+
+/**
+ * Format a raw integer token amount using BigInt arithmetic, so large amounts and
+ * 18+ decimal tokens keep full precision
+ */
+export function formatTokenAmount(
+  amount: string,
+  decimals: number,
+  symbol?: string,
+  options: number | FormatTokenAmountOptions = {}
+): string {
+  const { maxDecimalPlaces = 6, unformatted = false } =
+    typeof options === 'number' ? { maxDecimalPlaces: options } : options
+
+  try {
+    const raw = BigInt(amount)
+    const isNegative = raw < BigInt(0)
+    const value = isNegative ? -raw : raw
+    const divisor = pow10(decimals)
+    const integerPart = value / divisor
+    const fractionalPart = value % divisor
+
+    let formatted = unformatted ? integerPart.toString() : integerPart.toLocaleString('en-US')
+
+    if (fractionalPart !== BigInt(0)) {
+      const fractionalStr = fractionalPart.toString().padStart(decimals, '0')
+      const truncatedFractional = (unformatted ? fractionalStr : fractionalStr.slice(0, maxDecimalPlaces))
+        .replace(/0+$/, '')
+
+      if (truncatedFractional) {
+        formatted = `${formatted}.${truncatedFractional}`
+      } else if (integerPart === BigInt(0)) {
+        // Keep dust visible instead of rendering it as zero
+        formatted = `<0.${'0'.repeat(Math.max(0, maxDecimalPlaces - 1))}1`
+      }
+    }
+
+    if (isNegative) formatted = `-${formatted}`
+
+    return symbol ? `${formatted} ${symbol}` : formatted
+  } catch (error) {
+    // Fallback for invalid amounts
+    return symbol ? `${amount} ${symbol}` : amount
+  }
+}
+
+/**
+ * Estimate the USD value of a raw amount from the token's price
+ */
+export function getTokenAmountUSD(amount?: string, token?: Partial<TokenInfo>): number | undefined {
+  if (!amount || !token?.priceUSD || typeof token.decimals !== 'number') return undefined
+
+  try {
+    const price = parseFloat(token.priceUSD)
+    if (isNaN(price)) return undefined
+
+    // Keep 6 decimal places of precision before converting to a float
+    const scale = pow10(Math.max(0, token.decimals - 6))
+    const scaled = Number(BigInt(amount) / scale) / Math.pow(10, Math.min(token.decimals, 6))
+    return scaled * price
+  } catch {
+    return undefined
+  }
+}
+
+export class TokenService {
+  private tokens = new Map<string, TokenInfo>()
+  private tokenLists = new Map<number, Promise<TokenInfo[]>>()
+  private pendingTokens = new Map<string, Promise<TokenInfo | null>>()
+
+  /**
+   * Token list for a chain, fetched once per page and shared between callers
+   */
+  getTokens(chainId: number): Promise<TokenInfo[]> {
+    // Relative API URLs only resolve in the browser
+    if (typeof window === 'undefined') return Promise.resolve([])
+
+    let list = this.tokenLists.get(chainId)
+    if (!list) {
+      list = fetch(`/api/lifi/tokens?chains=${chainId}`)
+        .then(async response => {
+          if (!response.ok) {
+            throw new Error(`Token list request failed with status ${response.status}`)
+          }
+          const data = await response.json()
+          const tokens: TokenInfo[] = Array.isArray(data?.tokens?.[chainId]) ? data.tokens[chainId] : []
+          tokens.forEach(token => this.tokens.set(createTokenKey(token.chainId, token.address), token))
+          return tokens
+        })
+        .catch(error => {
+          console.warn(`Failed to load token list for chain ${chainId}:`, error)
+          // Allow a later retry
+          this.tokenLists.delete(chainId)
+          return []
+        })
+      this.tokenLists.set(chainId, list)
+    }
+
+    return list
+  }
+
+  /**
+   * Token already known to the service, without any network request
+   */
+  getCachedToken(chainId: number, address: string): TokenInfo | undefined {
+    return this.tokens.get(createTokenKey(chainId, address))
+  }
+
+  /**
+   * Look up a token by chain and address from the chain's token list, loaded on
+   * first use, falling back to /api/lifi/token for tokens the list does not carry
+   */
+  async getToken(chainId: number, address: string): Promise<TokenInfo | null> {
+    const key = createTokenKey(chainId, address)
+    const cached = this.tokens.get(key)
+    if (cached) return cached
+
+    if (typeof window === 'undefined') return null
+
+    await this.getTokens(chainId)
+    const fromList = this.tokens.get(key)
+    if (fromList) return fromList
+
+    let pending = this.pendingTokens.get(key)
+    if (!pending) {
+      const params = new URLSearchParams({ chain: chainId.toString(), token: address })
+      pending = fetch(`/api/lifi/token?${params}`)
+        .then(async response => {
+          if (!response.ok) return null
+          const token: TokenInfo = await response.json()
+          this.tokens.set(key, token)
+          return token
+        })
+        .catch(() => null)
+        .finally(() => {
+          this.pendingTokens.delete(key)
+        })
+      this.pendingTokens.set(key, pending)
+    }
+
+    return pending
+  }
+
+  /**
+   * Fill in missing decimals, symbol, name, logo and price. Fields already on the
+   * token win.
+   */
+  async enrichToken(token: TokenReference): Promise<TokenReference> {
+    if (!token.address || !token.chainId) return token
+    if (isCompleteToken(token) && token.logoURI && token.priceUSD) return token
+
+    const known = await this.getToken(token.chainId, token.address)
+    if (!known) return token
+
+    return {
+      ...known,
+      ...token,
+      decimals: token.decimals ?? known.decimals,
+      symbol: token.symbol || known.symbol,
+      name: token.name || known.name,
+      logoURI: token.logoURI || known.logoURI,
+      priceUSD: token.priceUSD || known.priceUSD
+    }
+  }
+}
+
+export const tokenService = new TokenService()
@@ -0,0 +1,60 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { RpcError, rpcCall } from './rpc'
+import { analyzeRevert } from './tx-receipt'
+
+vi.mock('./rpc', async importOriginal => ({
+  ...await importOriginal<typeof import('./rpc')>(),
+  getRpcUrl: () => 'http://rpc.test',
+  rpcCall: vi.fn()
+}))
+
+const TX_HASH = '0x9f3a7c2e1b5d8f4a6c0e2b4d6f8a0c2e4b6d8f0a2c4e6b8d0f2a4c6e8b0d2f4a'
+
+// Error(string) with the reason "Insufficient output"
+const REVERT_DATA = '0x08c379a0' +
+  '0000000000000000000000000000000000000000000000000000000000000020' +
+  '0000000000000000000000000000000000000000000000000000000000000013' +
+  '496e73756666696369656e74206f757470757400000000000000000000000000'
+
+function mockReplay(replay: () => Promise<unknown>) {
+  vi.mocked(rpcCall).mockImplementation(async (_url, method) => {
+    switch (method) {
+      case 'eth_getTransactionReceipt':
+        return { status: '0x0', blockNumber: '0x100', from: '0x1', to: '0x2', gasUsed: '0x5208', logs: [] }
+      case 'eth_getTransactionByHash':
+        return { from: '0x1', to: '0x2', input: '0x', value: '0x0', gas: '0x5208' }
+      default:
+        return replay()
+    }
+  })
+}
+
+beforeEach(() => {
+  vi.mocked(rpcCall).mockReset()
+})
+
+describe('analyzeRevert', () => {
+  it('decodes revert data from the replay', async () => {
+    mockReplay(() => Promise.reject(new RpcError('execution reverted: Insufficient output', 3, REVERT_DATA)))
+
+    const analysis = await analyzeRevert(1, TX_HASH)
+    expect(analysis).toMatchObject({ reverted: true, blockNumber: 256, revertData: REVERT_DATA })
+    expect(analysis.decoded?.reason).toContain('Insufficient output')
+  })
+
+  it('treats a revert without data as a revert', async () => {
+    mockReplay(() => Promise.reject(new RpcError('execution reverted', -32000)))
+
+    expect(await analyzeRevert(1, TX_HASH)).toMatchObject({ reverted: true, rpcMessage: 'execution reverted' })
+  })
+
+  it.each([
+    'missing trie node 7a3c (path ) state 0x7a3c is not available',
+    'header not found'
+  ])('rethrows node errors such as "%s"', async message => {
+    const error = new RpcError(message, -32000)
+    mockReplay(() => Promise.reject(error))
+
+    await expect(analyzeRevert(1, TX_HASH)).rejects.toBe(error)
+  })
+})
@@ -0,0 +1,149 @@
+import { ReceiptLog, RevertAnalysis, TransactionReceiptInfo } from '@/types/lifi'
+import { RpcError, getRpcUrl, hexToDecimalString, hexToNumber, rpcCall } from './rpc'
+import { decodeRevertData } from './revert-decoder'
+
+/**
+ * Receipt lookups behind GET /api/chain/receipt, so a transfer's LI.FI-reported
+ * gas figures can be checked against what the chain itself recorded, and revert
+ * replays behind GET /api/chain/revert.
+ */
+
+interface RpcReceipt {
+  status?: string
+  blockNumber: string
+  from: string
+  to: string | null
+  gasUsed: string
+  effectiveGasPrice?: string
+  logs: Array<{ address: string; topics: string[]; data: string; logIndex: string }>
+}
+
+interface RpcTransaction {
+  from: string
+  to: string | null
+  input: string
+  value: string
+  gas: string
+  gasPrice?: string
+}
+
+export class ReceiptUnavailableError extends Error {
+  constructor(message: string, readonly status: 400 | 404) {
+    super(message)
+    this.name = 'ReceiptUnavailableError'
+  }
+}
+
+function getRequiredRpcUrl(chainId: number): string {
+  const url = getRpcUrl(chainId)
+  if (!url) {
+    throw new ReceiptUnavailableError(`No RPC endpoint configured for chain ${chainId}`, 400)
+  }
+  return url
+}
+
+// Node failures (e.g. "missing trie node" on a pruned node) are not reverts
+function isRevertError(error: RpcError): boolean {
+  return (!!error.data && error.data !== '0x') ||
+    error.code === 3 ||
+    /execution reverted/i.test(error.message)
+}
+
+/**
+ * Fetch the receipt, gas limit and confirmation count for an EVM transaction
+ */
+export async function fetchTransactionReceipt(
+  chainId: number,
+  txHash: string
+): Promise<TransactionReceiptInfo> {
+  const url = getRequiredRpcUrl(chainId)
+
+  const [receipt, transaction, latestBlockHex] = await Promise.all([
+    rpcCall<RpcReceipt | null>(url, 'eth_getTransactionReceipt', [txHash], { allowNull: true }),
+    rpcCall<RpcTransaction | null>(url, 'eth_getTransactionByHash', [txHash], { allowNull: true }),
+    rpcCall<string>(url, 'eth_blockNumber')
+  ])
+
+  if (!receipt || !transaction) {
+    throw new ReceiptUnavailableError('Transaction is pending or unknown to this chain', 404)
+  }
+
+  const blockNumber = hexToNumber(receipt.blockNumber)
+  const effectiveGasPrice = receipt.effectiveGasPrice ?? transaction.gasPrice
+
+  return {
+    chainId,
+    txHash,
+    // Pre-Byzantium receipts have no status field
+    status: receipt.status === '0x0' ? 'reverted' : 'success',
+    blockNumber,
+    confirmations: Math.max(0, hexToNumber(latestBlockHex) - blockNumber + 1),
+    from: receipt.from,
+    to: receipt.to ?? undefined,
+    gasUsed: hexToDecimalString(receipt.gasUsed),
+    gasLimit: hexToDecimalString(transaction.gas),
+    effectiveGasPrice: effectiveGasPrice ? hexToDecimalString(effectiveGasPrice) : undefined,
+    logs: receipt.logs.map((log): ReceiptLog => ({
+      address: log.address,
+      topics: log.topics,
+      data: log.data,
+      logIndex: hexToNumber(log.logIndex)
+    }))
+  }
+}
+
+/**
+ * Replay a transaction with eth_call against the state before its block and decode
+ * why it reverted. Transactions earlier in the same block are not replayed, so a
+ * revert that depended on them may not reproduce.
+ */
+export async function analyzeRevert(chainId: number, txHash: string): Promise<RevertAnalysis> {
+  const url = getRequiredRpcUrl(chainId)
+
+  const [receipt, transaction] = await Promise.all([
+    rpcCall<RpcReceipt | null>(url, 'eth_getTransactionReceipt', [txHash], { allowNull: true }),
+    rpcCall<RpcTransaction | null>(url, 'eth_getTransactionByHash', [txHash], { allowNull: true })
+  ])
+
+  if (!receipt || !transaction) {
+    throw new ReceiptUnavailableError('Transaction is pending or unknown to this chain', 404)
+  }
+
+  const blockNumber = hexToNumber(receipt.blockNumber)
+  const analysis = { chainId, txHash, blockNumber }
+
+  if (receipt.status !== '0x0') {
+    return { ...analysis, reverted: false }
+  }
+
+  const call = {
+    from: transaction.from,
+    to: transaction.to ?? undefined,
+    data: transaction.input,
+    value: transaction.value,
+    gas: transaction.gas
+  }
+
+  try {
+    await rpcCall<string>(url, 'eth_call', [call, `0x${(blockNumber - 1).toString(16)}`], { allowNull: true })
+  } catch (error) {
+    // Anything else is an RPC failure; rethrown so the route reports it and does not cache it
+    if (!(error instanceof RpcError) || !isRevertError(error)) throw error
+
+    return {
+      ...analysis,
+      reverted: true,
+      revertData: error.data,
+      decoded: decodeRevertData(error.data),
+      rpcMessage: error.message
+    }
+  }
+
+  // The replay succeeded, so the revert depended on state we did not reproduce
+  // (e.g. an earlier transaction in the block) or the call ran out of gas
+  return {
+    ...analysis,
+    reverted: true,
+    rpcMessage: 'Replay did not revert; the failure depended on state within the block or on the gas limit'
+  }
+}
@@ -1,5 +1,6 @@
 import { type ClassValue, clsx } from "clsx"
 import { twMerge } from "tailwind-merge"
+import { classifyTxHash, isSupportedTxHash, HashKind } from "./hash-classifier"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
@@ -10,15 +11,6 @@ export function formatAddress(address: string): string {
   return `${address.slice(0, 6)}...${address.slice(-4)}`
 }
 
-export function formatAmount(amount: string, decimals: number): string {
-  if (!amount) return "0"
-  const value = parseFloat(amount) / Math.pow(10, decimals)
-  return value.toLocaleString("en-US", {
-    minimumFractionDigits: 2,
-    maximumFractionDigits: 6
-  })
-}
-
 export function formatUSD(amount?: string): string {
   if (!amount) return "$0.00"
   const value = parseFloat(amount)
@@ -66,28 +58,19 @@ export function getStatusBgColor(status: string): string {
 }
 
 export function isValidTransactionHash(hash: string): boolean {
-  if (!hash || typeof hash !== 'string') return false
-  
-  // Remove whitespace
-  const cleanHash = hash.trim()
-  
-  // Check for Ethereum transaction hash format (0x + 64 hex characters)
-  const ethHashRegex = /^0x[a-fA-F0-9]{64}$/
-  return ethHashRegex.test(cleanHash)
+  // Accepts EVM hashes as well as Solana, Bitcoin and Sui transaction IDs
+  return isSupportedTxHash(hash)
 }
 
 export function formatTransactionHash(hash: string, length: number = 8): string {
   if (!hash || !isValidTransactionHash(hash)) return hash
   
-  if (hash.length <= length * 2 + 2) return hash // If hash is short enough, return as is
+  const prefixLength = hash.startsWith('0x') ? length + 2 : length
+  if (hash.length <= prefixLength + length) return hash // If hash is short enough, return as is
   
-  return `${hash.slice(0, length + 2)}...${hash.slice(-length)}`
+  return `${hash.slice(0, prefixLength)}...${hash.slice(-length)}`
 }
 
-export function getTransactionType(hash: string): 'ethereum' | 'lifi' | 'invalid' {
-  if (!isValidTransactionHash(hash)) return 'invalid'
-  
-  // For now, we treat all valid hashes as potentially either type
-  // In a real implementation, you might have more sophisticated detection
-  return 'ethereum'
+export function getTransactionType(hash: string): HashKind | 'invalid' {
+  return classifyTxHash(hash)?.kind ?? 'invalid'
 }
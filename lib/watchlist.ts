@@ -0,0 +1,190 @@
+import { TransactionStatus, TransactionSubstatus } from '@/types/lifi'
+
+/**
+ * Pinned transfers, kept in localStorage and monitored in the background by
+ * public/watchlist-sw.js. The worker polls unsettled transfers and raises a
+ * browser notification on every status or substatus change; this module keeps
+ * it in sync with the list and relays its updates to the page.
+ */
+
+export interface WatchlistEntry {
+  txHash: string
+  fromChain?: string
+  toChain?: string
+  addedAt: number
+  // Last status reported by the service worker
+  status?: TransactionStatus
+  substatus?: TransactionSubstatus
+}
+
+type Listener = () => void
+
+const STORAGE_KEY = 'lifi-lens-watchlist'
+const SERVICE_WORKER_URL = '/watchlist-sw.js'
+// How often open pages ask the worker to poll
+const POLL_INTERVAL = 30 * 1000
+
+export class Watchlist {
+  private entries: WatchlistEntry[] = []
+  private listeners = new Set<Listener>()
+  private openListeners = new Set<(txHash: string) => void>()
+  private loaded = false
+  private version = 0
+  private worker: ServiceWorker | null = null
+
+  /**
+   * Read the saved list and start the service worker. Safe to call repeatedly.
+   */
+  load() {
+    if (this.loaded || typeof window === 'undefined') return
+    this.loaded = true
+
+    try {
+      const saved = localStorage.getItem(STORAGE_KEY)
+      const parsed = saved ? JSON.parse(saved) : []
+      this.entries = Array.isArray(parsed) ? parsed.filter(entry => typeof entry?.txHash === 'string') : []
+    } catch {
+      // Ignore invalid JSON
+      this.entries = []
+    }
+
+    this.notify()
+    this.connect()
+  }
+
+  private async connect() {
+    if (!('serviceWorker' in navigator)) {
+      console.warn('Service workers are unavailable; watched transfers are not monitored in the background')
+      return
+    }
+
+    try {
+      const registration = await navigator.serviceWorker.register(SERVICE_WORKER_URL)
+      await navigator.serviceWorker.ready
+      this.worker = registration.active
+
+      navigator.serviceWorker.addEventListener('message', event => this.handleMessage(event.data))
+      this.syncWorker()
+      this.registerPeriodicSync(registration)
+
+      setInterval(() => this.worker?.postMessage({ type: 'poll' }), POLL_INTERVAL)
+    } catch (error) {
+      console.warn('Failed to register watchlist service worker:', error)
+    }
+  }
+
+  // Lets the worker keep polling with no page open, where the browser allows it
+  private async registerPeriodicSync(registration: ServiceWorkerRegistration) {
+    const periodicSync = (registration as ServiceWorkerRegistration & {
+      periodicSync?: { register(tag: string, options: { minInterval: number }): Promise<void> }
+    }).periodicSync
+    if (!periodicSync) return
+
+    try {
+      await periodicSync.register('watchlist-poll', { minInterval: 15 * 60 * 1000 })
+    } catch {
+      // Only granted to installed apps; page polling still applies
+    }
+  }
+
+  private handleMessage(message: any) {
+    if (message?.type === 'status') {
+      this.update(message.txHash, { status: message.status, substatus: message.substatus })
+    } else if (message?.type === 'open' && message.txHash) {
+      this.openListeners.forEach(listener => listener(message.txHash))
+    }
+  }
+
+  private syncWorker() {
+    this.worker?.postMessage({
+      type: 'watchlist',
+      entries: this.entries.map(({ txHash, fromChain, toChain }) => ({ txHash, fromChain, toChain }))
+    })
+  }
+
+  private save() {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.entries))
+    } catch (error) {
+      console.warn('Failed to save watchlist:', error)
+    }
+  }
+
+  private notify() {
+    this.version++
+    this.listeners.forEach(listener => listener())
+  }
+
+  add(entry: Omit<WatchlistEntry, 'addedAt'>) {
+    if (this.has(entry.txHash)) return
+
+    this.entries = [{ ...entry, addedAt: Date.now() }, ...this.entries]
+    this.save()
+    this.notify()
+    this.syncWorker()
+  }
+
+  remove(txHash: string) {
+    this.entries = this.entries.filter(entry => entry.txHash !== txHash)
+    this.save()
+    this.notify()
+    this.syncWorker()
+  }
+
+  update(txHash: string, changes: Partial<Omit<WatchlistEntry, 'txHash'>>) {
+    if (!this.has(txHash)) return
+
+    this.entries = this.entries.map(entry => entry.txHash === txHash ? { ...entry, ...changes } : entry)
+    this.save()
+    this.notify()
+  }
+
+  has(txHash: string): boolean {
+    return this.entries.some(entry => entry.txHash === txHash)
+  }
+
+  getEntries(): WatchlistEntry[] {
+    return this.entries
+  }
+
+  /**
+   * Ask for permission to show notifications. Resolves to the resulting permission.
+   */
+  async requestNotifications(): Promise<NotificationPermission | 'unsupported'> {
+    if (typeof Notification === 'undefined') return 'unsupported'
+    if (Notification.permission !== 'default') return Notification.permission
+
+    const permission = await Notification.requestPermission()
+    this.notify()
+    return permission
+  }
+
+  /**
+   * Subscribe to watchlist changes. Returns an unsubscribe function.
+   */
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Called with the hash of a transfer whose notification was clicked
+   */
+  onOpen(listener: (txHash: string) => void): () => void {
+    this.openListeners.add(listener)
+    return () => {
+      this.openListeners.delete(listener)
+    }
+  }
+
+  /**
+   * Incremented on every update, for useSyncExternalStore snapshots
+   */
+  getVersion(): number {
+    return this.version
+  }
+}
+
+export const watchlist = new Watchlist()
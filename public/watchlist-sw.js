@@ -0,0 +1,218 @@
+/**
+ * Watchlist service worker.
+ *
+ * Polls the batch status route for every watched transfer that has not settled
+ * and raises a notification when its status or substatus changes. Pages send
+ * the watchlist ({ type: 'watchlist', entries }) whenever it changes and a
+ * { type: 'poll' } tick while they are open; where Periodic Background Sync is
+ * available the worker also polls with no page open. Each change is broadcast
+ * back to open pages as { type: 'status', txHash, status, substatus }.
+ *
+ * Each poll looks up the next POLL_CHUNK_SIZE unsettled transfers, rotating
+ * through the watchlist across polls so any number of transfers gets polled
+ * while each poll stays a small share of the client's rate limit.
+ */
+
+const STATE_CACHE = 'lifi-lens-watchlist'
+const STATE_URL = '/__watchlist-state'
+const MIN_POLL_INTERVAL = 20 * 1000
+// Pending statuses are rarely cached by the next poll, so each lookup in a chunk
+// reaches LI.FI: 100 hashes cost 10 of the 100 requests per minute, at most 30
+// a minute at MIN_POLL_INTERVAL
+const POLL_CHUNK_SIZE = 100
+
+const TERMINAL_STATUSES = ['DONE', 'FAILED']
+
+// txHash -> { txHash, fromChain?, toChain?, status?, substatus? }
+let entries = null
+let lastPollAt = 0
+let pendingPoll = null
+// Position in the unsettled transfers where the next poll starts
+let pollOffset = 0
+
+async function loadEntries() {
+  if (entries) return entries
+
+  try {
+    const cache = await caches.open(STATE_CACHE)
+    const response = await cache.match(STATE_URL)
+    const saved = response ? await response.json() : []
+    entries = new Map(saved.map(entry => [entry.txHash, entry]))
+  } catch (error) {
+    console.warn('Failed to load watchlist state:', error)
+    entries = new Map()
+  }
+
+  return entries
+}
+
+async function saveEntries() {
+  const cache = await caches.open(STATE_CACHE)
+  await cache.put(STATE_URL, new Response(JSON.stringify([...entries.values()]), {
+    headers: { 'Content-Type': 'application/json' }
+  }))
+}
+
+/**
+ * Replace the watched set, keeping the last status this worker saw for
+ * transfers that were already watched so they do not notify twice
+ */
+async function setEntries(nextEntries) {
+  const current = await loadEntries()
+  entries = new Map(nextEntries.map(entry => {
+    const known = current.get(entry.txHash)
+    return [entry.txHash, known ? { ...entry, status: known.status, substatus: known.substatus } : entry]
+  }))
+  await saveEntries()
+}
+
+function formatLabel(value) {
+  return value ? value.toLowerCase().replace(/_/g, ' ') : ''
+}
+
+function shortHash(txHash) {
+  return `${txHash.slice(0, 8)}...${txHash.slice(-6)}`
+}
+
+async function broadcast(message) {
+  const clients = await self.clients.matchAll({ type: 'window' })
+  clients.forEach(client => client.postMessage(message))
+}
+
+async function notify(entry, data) {
+  if (self.Notification?.permission !== 'granted') return
+
+  const detail = data.substatus ? `${formatLabel(data.status)} (${formatLabel(data.substatus)})` : formatLabel(data.status)
+  await self.registration.showNotification(`Transfer ${formatLabel(data.status)}`, {
+    body: `${shortHash(entry.txHash)} is now ${detail}`,
+    tag: `watchlist-${entry.txHash}`,
+    data: { txHash: entry.txHash, fromChain: entry.fromChain, toChain: entry.toChain }
+  })
+}
+
+// Same as getTransactionPath in lib/permalink.ts
+function transactionPath({ txHash, fromChain, toChain }) {
+  const searchParams = new URLSearchParams()
+  if (fromChain) searchParams.set('fromChain', fromChain)
+  if (toChain) searchParams.set('toChain', toChain)
+
+  const query = searchParams.toString()
+  return `/tx/${encodeURIComponent(txHash)}${query ? `?${query}` : ''}`
+}
+
+/**
+ * The next chunk of unsettled transfers, wrapping around the end of the list
+ */
+function nextChunk(unsettled) {
+  if (unsettled.length <= POLL_CHUNK_SIZE) {
+    pollOffset = 0
+    return unsettled
+  }
+
+  const start = pollOffset % unsettled.length
+  const chunk = unsettled.slice(start, start + POLL_CHUNK_SIZE)
+  if (chunk.length < POLL_CHUNK_SIZE) {
+    chunk.push(...unsettled.slice(0, POLL_CHUNK_SIZE - chunk.length))
+  }
+  pollOffset = (start + POLL_CHUNK_SIZE) % unsettled.length
+  return chunk
+}
+
+async function poll() {
+  const current = await loadEntries()
+  const watched = nextChunk([...current.values()].filter(entry => !TERMINAL_STATUSES.includes(entry.status)))
+  if (watched.length === 0) return
+
+  lastPollAt = Date.now()
+
+  const response = await fetch('/api/lifi/status/batch', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      items: watched.map(({ txHash, fromChain, toChain }) => ({ txHash, fromChain, toChain }))
+    })
+  })
+  if (!response.ok) {
+    throw new Error(`Batch status request failed with status ${response.status}`)
+  }
+
+  const { results } = await response.json()
+  let changed = false
+
+  for (const result of results) {
+    const entry = current.get(result.txHash)
+    if (!entry || !result.data) continue
+
+    const { status, substatus } = result.data
+    if (entry.status === status && entry.substatus === substatus) continue
+
+    // The first status seen for a transfer is a baseline, not a change
+    if (entry.status) {
+      await notify(entry, result.data)
+    }
+
+    current.set(entry.txHash, { ...entry, status, substatus })
+    changed = true
+    await broadcast({ type: 'status', txHash: entry.txHash, status, substatus })
+  }
+
+  if (changed) {
+    await saveEntries()
+  }
+}
+
+/**
+ * Poll unless another page (or the periodic sync) did so moments ago
+ */
+function pollIfDue(force = false) {
+  if (pendingPoll) return pendingPoll
+  if (!force && Date.now() - lastPollAt < MIN_POLL_INTERVAL) return Promise.resolve()
+
+  pendingPoll = poll()
+    .catch(error => console.warn('Watchlist poll failed:', error))
+    .finally(() => {
+      pendingPoll = null
+    })
+  return pendingPoll
+}
+
+self.addEventListener('install', () => {
+  self.skipWaiting()
+})
+
+self.addEventListener('activate', event => {
+  event.waitUntil(self.clients.claim())
+})
+
+self.addEventListener('message', event => {
+  const message = event.data
+  if (!message || typeof message !== 'object') return
+
+  if (message.type === 'watchlist' && Array.isArray(message.entries)) {
+    event.waitUntil(setEntries(message.entries).then(() => pollIfDue(true)))
+  } else if (message.type === 'poll') {
+    event.waitUntil(pollIfDue())
+  }
+})
+
+self.addEventListener('periodicsync', event => {
+  if (event.tag === 'watchlist-poll') {
+    event.waitUntil(pollIfDue(true))
+  }
+})
+
+self.addEventListener('notificationclick', event => {
+  event.notification.close()
+
+  const data = event.notification.data
+  if (!data?.txHash) return
+
+  event.waitUntil(self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then(clients => {
+    const client = clients[0]
+    if (client) {
+      client.postMessage({ type: 'open', txHash: data.txHash })
+      return client.focus()
+    }
+    return self.clients.openWindow(transactionPath(data))
+  }))
+})
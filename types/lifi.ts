@@ -123,6 +123,14 @@ export interface ApiClientConfig {
   timeout?: number
   cacheEnabled?: boolean
   cacheTTL?: number
+  // 'strict' rejects unknown fields and substatuses; 'tolerant' logs them
+  schemaMode?: 'strict' | 'tolerant'
+}
+
+export interface RequestOptions {
+  // Cancels this caller's request; a shared in-flight request is only aborted
+  // once every caller waiting on it has aborted
+  signal?: AbortSignal
 }
 
 export interface ApiError {
@@ -139,8 +147,13 @@ export interface BatchStatusRequest {
   fromChain?: string
   toChain?: string
   bridge?: string
+  // Per-hash overrides for fromChain/toChain/bridge; merged over the batch-level defaults
+  items?: StatusRequest[]
 }
 
+// Maximum number of hashes accepted by a single POST /api/lifi/status/batch call
+export const MAX_BATCH_STATUS_SIZE = 500
+
 export interface BatchStatusResponse {
   results: Array<{
     txHash: string
@@ -152,6 +165,166 @@ export interface BatchStatusResponse {
   totalErrors: number
 }
 
+// Wallet transfer history (LI.FI analytics) types
+export type TransferStatusFilter = 'ALL' | 'DONE' | 'PENDING' | 'FAILED'
+
+export interface TransfersRequest {
+  wallet: string
+  status?: TransferStatusFilter
+  fromTimestamp?: number
+  toTimestamp?: number
+  limit?: number
+  // Opaque pagination cursors returned by a previous page
+  next?: string
+  previous?: string
+}
+
+export interface TransfersResponse {
+  transfers: StatusResponse[]
+  hasNext: boolean
+  hasPrevious: boolean
+  next?: string
+  previous?: string
+}
+
+// Token metadata types (mirrors LI.FI /tokens)
+export interface TokensResponse {
+  // Token lists keyed by chain ID
+  tokens: Record<string, TokenInfo[]>
+}
+
+// Chain registry types (mirrors LI.FI /chains)
+export type ChainType = 'EVM' | 'SVM' | 'UTXO' | 'MVM'
+
+export interface ChainInfo {
+  id: number
+  key: string
+  name: string
+  chainType: ChainType
+  coin: string
+  logoURI?: string
+  nativeToken?: TokenInfo
+  // Explorer transaction URL with a {txHash} placeholder
+  explorerTxUrlTemplate?: string
+}
+
+// Network health types (GET /api/health/chains)
+export type HealthStatus = 'healthy' | 'warning' | 'error'
+
+export interface ChainHealth {
+  chainId: number
+  status: HealthStatus
+  latencyMs?: number
+  blockNumber?: number
+  // Seconds since the latest block was produced
+  blockAgeSeconds?: number
+  // Share of failed probes over the recent window (0-1)
+  errorRate: number
+  error?: string
+  checkedAt: number
+}
+
+export interface LiFiApiHealth {
+  status: HealthStatus
+  latencyMs?: number
+  error?: string
+  checkedAt: number
+}
+
+export interface NetworkHealthResponse {
+  chains: ChainHealth[]
+  lifi: LiFiApiHealth
+  checkedAt: number
+}
+
+// On-chain receipt types
+export interface ReceiptLog {
+  address: string
+  topics: string[]
+  data: string
+  logIndex: number
+}
+
+export interface TransactionReceiptInfo {
+  chainId: number
+  txHash: string
+  status: 'success' | 'reverted'
+  blockNumber: number
+  confirmations: number
+  from: string
+  to?: string
+  gasUsed: string
+  gasLimit: string
+  effectiveGasPrice?: string
+  logs: ReceiptLog[]
+}
+
+export type RevertKind = 'error' | 'panic' | 'custom' | 'unknown'
+
+export interface DecodedRevert {
+  kind: RevertKind
+  selector?: string
+  // Error name and human-readable signature, e.g. InsufficientBalance(uint256 required, uint256 balance)
+  name?: string
+  signature?: string
+  // Contract family the error was matched from, e.g. "LI.FI Diamond"
+  source?: string
+  reason: string
+  args: Array<{ name?: string; type: string; value: string }>
+}
+
+export interface RevertAnalysis {
+  chainId: number
+  txHash: string
+  blockNumber: number
+  reverted: boolean
+  // Raw revert payload from the eth_call replay, when the node returned one
+  revertData?: string
+  decoded?: DecodedRevert
+  // Node's own message when there was nothing to decode
+  rpcMessage?: string
+}
+
+// LI.FI Diamond event and token ledger types
+export type TransferHop = 'source' | 'destination'
+
+export type LiFiEventName =
+  | 'LiFiTransferStarted'
+  | 'LiFiGenericSwapCompleted'
+  | 'LiFiTransferCompleted'
+  | 'LiFiTransferRecovered'
+
+export interface LiFiEvent {
+  name: LiFiEventName
+  hop: TransferHop
+  chainId: number
+  logIndex: number
+  contract: string
+  transactionId: string
+  // Remaining decoded fields, e.g. bridge, receiver, fromAmount
+  fields: Record<string, string>
+}
+
+export interface LedgerEntry {
+  hop: TransferHop
+  chainId: number
+  logIndex: number
+  token: string
+  from: string
+  to: string
+  amount: string
+}
+
+export interface LedgerCheck {
+  tool: string
+  side: 'from' | 'to'
+  token: TokenInfo
+  amount: string
+  // native: no ERC-20 Transfer log to check against
+  result: 'matched' | 'amount-differs' | 'missing' | 'native'
+  observedAmounts: string[]
+}
+
 // Bridge types
 export type BridgeType = 
   | 'hop' | 'cbridge' | 'celercircle' | 'optimism' | 'polygon'